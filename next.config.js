@@ -8,6 +8,12 @@ const nextConfig = {
       },
     ],
   },
+  experimental: {
+    // 提示词模板在运行时从 prompts/ 读取
+    outputFileTracingIncludes: {
+      '/api/**/*': ['./prompts/**/*'],
+    },
+  },
 };
 
 module.exports = nextConfig;
@@ -0,0 +1,149 @@
+/**
+ * RAG 评测脚本
+ * 功能：用问题集评测检索和回答质量，输出 JSON / Markdown 报告（提交到仓库，改动前后的报告可以直接 diff）
+ *
+ * 用法：npm run eval:rag -- [选项]
+ *   --golden <file>     问题集，默认 evals/rag/golden.json
+ *   --corpus <file>     固定语料，默认 evals/rag/corpus.json
+ *   --out <dir>         报告目录，默认 evals/rag（report.json、report.md）
+ *   --k <1,3,5>         recall@k 的 k
+ *   --retrieval-only    只评测检索
+ *   --rewrite           启用查询改写
+ *   --reranker <name>   重排器（none / dashscope / llm / heuristic）
+ *   --live              使用 .env 中配置的 LLM（默认使用离线 Mock LLM）
+ *
+ * 指标低于问题集的 thresholds 时以状态码 1 退出
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { spawnSync } = require('child_process');
+
+const ROOT = path.join(__dirname, '..');
+const WORK_DIR = path.join(ROOT, '.data', 'rag-eval');
+
+/**
+ * 解析命令行参数
+ */
+function parseArgs(argv) {
+  const options = {
+    golden: path.join(ROOT, 'evals', 'rag', 'golden.json'),
+    corpus: path.join(ROOT, 'evals', 'rag', 'corpus.json'),
+    out: path.join(ROOT, 'evals', 'rag'),
+    k: undefined,
+    retrievalOnly: false,
+    rewrite: undefined,
+    reranker: undefined,
+    live: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--golden': options.golden = path.resolve(argv[++i]); break;
+      case '--corpus': options.corpus = path.resolve(argv[++i]); break;
+      case '--out': options.out = path.resolve(argv[++i]); break;
+      case '--k': options.k = argv[++i].split(',').map(n => parseInt(n)).filter(n => n > 0); break;
+      case '--retrieval-only': options.retrievalOnly = true; break;
+      case '--rewrite': options.rewrite = true; break;
+      case '--reranker': options.reranker = argv[++i]; break;
+      case '--live': options.live = true; break;
+      default:
+        console.error(`❌ 未知参数: ${arg}`);
+        process.exit(2);
+    }
+  }
+  return options;
+}
+
+/**
+ * 把评测模块及其依赖编译为 CommonJS（src/lib 只使用相对路径导入）
+ */
+function compile() {
+  const outDir = path.join(WORK_DIR, 'build');
+  fs.rmSync(outDir, { recursive: true, force: true });
+
+  const result = spawnSync(process.execPath, [
+    require.resolve('typescript/bin/tsc'),
+    path.join(ROOT, 'src', 'lib', 'rag-eval.ts'),
+    '--outDir', outDir,
+    '--rootDir', path.join(ROOT, 'src'),
+    '--module', 'commonjs',
+    '--target', 'es2022',
+    '--esModuleInterop',
+    '--skipLibCheck',
+  ], { encoding: 'utf-8' });
+
+  if (result.status !== 0) {
+    console.error(result.stdout || result.stderr);
+    throw new Error('编译评测模块失败');
+  }
+  return path.join(outDir, 'lib', 'rag-eval.js');
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.live) {
+    require('dotenv').config();
+  } else {
+    process.env.LLM_PROVIDER = 'fixture';
+    // Mock 嵌入（词哈希）的余弦相似度普遍低于线上模型，默认阈值下向量检索没有结果
+    process.env.RAG_MATCH_THRESHOLD = process.env.RAG_MATCH_THRESHOLD || '0.2';
+  }
+  // 语料固定为 corpus 文件，本地向量索引每次清空后重建
+  process.env.LLM_CACHE_ENABLED = 'false';
+  process.env.VECTOR_STORE = 'file';
+  process.env.KNOWLEDGE_FIXTURE_FILE = options.corpus;
+  process.env.VECTOR_INDEX_DIR = path.join(WORK_DIR, 'index');
+  process.env.PROMPTS_DIR = process.env.PROMPTS_DIR || path.join(ROOT, 'prompts');
+  fs.rmSync(process.env.VECTOR_INDEX_DIR, { recursive: true, force: true });
+
+  const golden = JSON.parse(fs.readFileSync(options.golden, 'utf-8'));
+  console.log(`📋 问题集: ${golden.name}（${golden.questions.length} 题）`);
+
+  const modulePath = compile();
+  const evaluation = require(modulePath);
+  if (!options.live) evaluation.useMockLLM();
+
+  // 检索时不再重建索引，评测前先用语料构建本地向量索引
+  const { getVectorStore } = require(path.join(path.dirname(modulePath), 'vector-store.js'));
+  const index = await getVectorStore().sync();
+  console.log(`🧭 向量索引: ${index.total} 个文档`);
+
+  // 评测过程中的检索日志不输出
+  const log = console.log;
+  console.log = () => {};
+  let report;
+  try {
+    report = await evaluation.runEvaluation(golden, {
+      k: options.k,
+      retrievalOnly: options.retrievalOnly,
+      rewrite: options.rewrite,
+      reranker: options.reranker,
+    });
+  } finally {
+    console.log = log;
+  }
+
+  fs.mkdirSync(options.out, { recursive: true });
+  fs.writeFileSync(path.join(options.out, 'report.json'), JSON.stringify(report, null, 2) + '\n');
+  fs.writeFileSync(path.join(options.out, 'report.md'), evaluation.formatMarkdown(report));
+
+  for (const [metric, value] of Object.entries(report.metrics)) {
+    console.log(`  ${metric.padEnd(18)} ${value}`);
+  }
+  console.log(`📝 报告已写入 ${path.relative(ROOT, options.out)}/report.{json,md}`);
+
+  const failures = evaluation.checkThresholds(report, golden.thresholds);
+  if (failures.length > 0) {
+    console.error('❌ 指标低于下限:');
+    failures.forEach(failure => console.error(`  - ${failure}`));
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ 评测失败:', error.message);
+  process.exit(1);
+});
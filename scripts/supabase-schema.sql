@@ -1,6 +1,9 @@
 -- ASIP 数据库表结构
 -- 在 Supabase SQL Editor 中执行
 
+-- 向量检索（pgvector），维度与 LLM_EMBEDDING_MODEL 一致（text-embedding-v2 为 1536）
+CREATE EXTENSION IF NOT EXISTS vector;
+
 -- 1. 案例表 (cases) - 增强版
 CREATE TABLE IF NOT EXISTS cases (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -50,6 +53,7 @@ CREATE TABLE IF NOT EXISTS scenarios (
   complexity TEXT CHECK (complexity IN ('low', 'medium', 'high')),
   technology_stack TEXT[],
   case_count INTEGER DEFAULT 0,
+  embedding vector(1536),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -76,12 +80,212 @@ CREATE TABLE IF NOT EXISTS collection_logs (
 -- 5. 用户对话记录 (conversations)
 CREATE TABLE IF NOT EXISTS conversations (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  role TEXT CHECK (role IN ('user', 'assistant')),
+  session_id TEXT,
+  user_id TEXT,
+  role TEXT CHECK (role IN ('user', 'assistant', 'system')),  -- system 为较早对话的摘要
   content TEXT NOT NULL,
   metadata JSONB,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- 6. LLM 响应缓存 (llm_cache)
+CREATE TABLE IF NOT EXISTS llm_cache (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 7. LLM 用量记录 (llm_usage)
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent TEXT,
+  prompt_id TEXT,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  cached BOOLEAN DEFAULT FALSE,
+  input_tokens INTEGER DEFAULT 0,
+  output_tokens INTEGER DEFAULT 0,
+  latency_ms INTEGER DEFAULT 0,
+  cost NUMERIC(12, 6) DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 8. 工作流运行记录 (workflow_runs) 和步骤检查点 (workflow_run_steps)
+CREATE TABLE IF NOT EXISTS workflow_runs (
+  id TEXT PRIMARY KEY,
+  workflow TEXT NOT NULL,
+  params JSONB,
+  status TEXT CHECK (status IN ('running', 'succeeded', 'failed')),
+  error TEXT,
+  parent_run_id TEXT REFERENCES workflow_runs(id) ON DELETE SET NULL,  -- 重放时指向原运行
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS workflow_run_steps (
+  run_id TEXT REFERENCES workflow_runs(id) ON DELETE CASCADE,
+  step_id TEXT NOT NULL,
+  status TEXT CHECK (status IN ('succeeded', 'failed', 'skipped')),
+  input JSONB,
+  output JSONB,
+  error TEXT,
+  attempts INTEGER DEFAULT 0,
+  optional BOOLEAN DEFAULT FALSE,
+  restored BOOLEAN DEFAULT FALSE,
+  preview JSONB,  -- 步骤输出摘要（进度展示）
+  started_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (run_id, step_id)
+);
+
+-- 9. 异步任务队列 (async_tasks)
+CREATE TABLE IF NOT EXISTS async_tasks (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  payload JSONB DEFAULT '{}',
+  owner_id TEXT,  -- 创建者（用户 ID 或会话 ID）
+  status TEXT CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled')) DEFAULT 'pending',
+  priority INTEGER DEFAULT 0,
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 3,
+  run_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  lease_owner TEXT,
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+  cancel_requested BOOLEAN DEFAULT FALSE,  -- 执行中被取消，等待 worker 中止
+  callback JSONB,            -- 回调地址和签名密钥 { url, secret }
+  webhook_deliveries JSONB,  -- 最近的回调投递记录
+  progress INTEGER DEFAULT 0,
+  message TEXT,
+  steps JSONB,  -- 工作流任务的步骤进度
+  result JSONB,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 10. 趋势表 (trends)
+CREATE TABLE IF NOT EXISTS trends (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  description TEXT,
+  industry TEXT,
+  category TEXT,
+  source TEXT,
+  url TEXT,
+  quality_score FLOAT DEFAULT 0,
+  embedding vector(1536),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 11. 案例分块 (case_chunks) - 摘要、描述和 README 章节，块级向量检索（/api/cron/data 同步）
+CREATE TABLE IF NOT EXISTS case_chunks (
+  id TEXT PRIMARY KEY,  -- <case_id>#<chunk_index>
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  kind TEXT CHECK (kind IN ('summary', 'description', 'readme')),
+  section TEXT,  -- README 章节（标题路径）
+  content TEXT NOT NULL,
+  project_name TEXT,
+  industry TEXT,
+  source TEXT,
+  source_url TEXT,
+  technology TEXT[],
+  content_hash TEXT NOT NULL,  -- 内容变化时重新生成向量
+  embedding vector(1536),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 12. 知识图谱节点 (graph_nodes) - 案例、趋势、场景、行业、技术、痛点（数据入库 Agent 写入）
+CREATE TABLE IF NOT EXISTS graph_nodes (
+  id TEXT PRIMARY KEY,  -- <type>:<规范化名称>
+  type TEXT NOT NULL CHECK (type IN ('case', 'trend', 'scenario', 'industry', 'pain_point', 'technology')),
+  name TEXT NOT NULL,
+  description TEXT,
+  metadata JSONB DEFAULT '{}',
+  source TEXT,
+  quality_score FLOAT DEFAULT 0,
+  collected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),  -- 首次入库时间
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 13. 知识图谱边 (graph_edges) - 带类型、权重和来源的关联
+CREATE TABLE IF NOT EXISTS graph_edges (
+  id TEXT PRIMARY KEY,  -- <from_id>|<relation>|<to_id>
+  from_id TEXT NOT NULL REFERENCES graph_nodes(id) ON DELETE CASCADE,
+  to_id TEXT NOT NULL REFERENCES graph_nodes(id) ON DELETE CASCADE,
+  relation TEXT NOT NULL CHECK (relation IN ('in_industry', 'uses_technology', 'has_pain_point', 'features_case', 'implemented_by')),
+  weight FLOAT NOT NULL DEFAULT 1,
+  provenance JSONB DEFAULT '{}',  -- { source, method, agent, evidence }
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 领取任务：pending 且到期，或租约过期的任务；按优先级、可执行时间排序，SKIP LOCKED 保证多个 worker 不会领到同一个任务
+CREATE OR REPLACE FUNCTION claim_task(p_worker TEXT, p_lease_ms INTEGER, p_types TEXT[] DEFAULT NULL)
+RETURNS SETOF async_tasks
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- 租约过期且已请求取消的任务标记为取消
+  UPDATE async_tasks
+  SET status = 'cancelled', message = '任务已取消', lease_owner = NULL, lease_expires_at = NULL, updated_at = NOW()
+  WHERE status = 'processing' AND lease_expires_at < NOW() AND cancel_requested;
+
+  -- 租约过期且已用完次数的任务标记为失败
+  UPDATE async_tasks
+  SET status = 'failed', error = COALESCE(error, 'Lease expired'), lease_owner = NULL, lease_expires_at = NULL, updated_at = NOW()
+  WHERE status = 'processing' AND lease_expires_at < NOW() AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE async_tasks t
+  SET status = 'processing',
+      lease_owner = p_worker,
+      lease_expires_at = NOW() + make_interval(secs => p_lease_ms / 1000.0),
+      attempts = t.attempts + 1,
+      updated_at = NOW()
+  WHERE t.id = (
+    SELECT id FROM async_tasks
+    WHERE ((status = 'pending' AND run_at <= NOW()) OR (status = 'processing' AND lease_expires_at < NOW()))
+      AND (p_types IS NULL OR type = ANY(p_types))
+    ORDER BY priority DESC, run_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING t.*;
+END;
+$$;
+
+-- 向量检索：按余弦相似度返回 case_chunks / scenarios / trends 中超过阈值的行（document 为去掉 embedding 的整行）
+CREATE OR REPLACE FUNCTION match_documents(
+  query_embedding vector(1536),
+  match_threshold FLOAT,
+  match_count INTEGER,
+  table_name TEXT,
+  filter_industry TEXT DEFAULT NULL
+)
+RETURNS TABLE (id TEXT, similarity FLOAT, document JSONB)
+LANGUAGE plpgsql STABLE
+AS $$
+BEGIN
+  IF table_name NOT IN ('case_chunks', 'scenarios', 'trends') THEN
+    RAISE EXCEPTION 'match_documents: unsupported table %', table_name;
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT t.id::text, 1 - (t.embedding <=> $1) AS similarity, to_jsonb(t) - ''embedding''
+     FROM %I t
+     WHERE t.embedding IS NOT NULL
+       AND ($4 IS NULL OR t.industry = $4)
+       AND 1 - (t.embedding <=> $1) >= $2
+     ORDER BY t.embedding <=> $1
+     LIMIT $3',
+    table_name
+  ) USING query_embedding, match_threshold, match_count, filter_industry;
+END;
+$$;
+
 -- 创建索引提升查询性能
 CREATE INDEX IF NOT EXISTS idx_cases_industry ON cases(industry);
 CREATE INDEX IF NOT EXISTS idx_cases_use_case ON cases(use_case);
@@ -94,15 +298,36 @@ CREATE INDEX IF NOT EXISTS idx_cases_skill_category ON cases(skill_category);
 CREATE INDEX IF NOT EXISTS idx_scenarios_industry ON scenarios(industry);
 CREATE INDEX IF NOT EXISTS idx_scenarios_category ON scenarios(category);
 
+CREATE INDEX IF NOT EXISTS idx_trends_industry ON trends(industry);
+
+CREATE INDEX IF NOT EXISTS idx_case_chunks_case ON case_chunks(case_id, chunk_index);
+CREATE INDEX IF NOT EXISTS idx_case_chunks_embedding ON case_chunks USING hnsw (embedding vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS idx_scenarios_embedding ON scenarios USING hnsw (embedding vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS idx_trends_embedding ON trends USING hnsw (embedding vector_cosine_ops);
+
+CREATE INDEX IF NOT EXISTS idx_graph_nodes_type ON graph_nodes(type, collected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_graph_nodes_metadata ON graph_nodes USING GIN(metadata);
+CREATE INDEX IF NOT EXISTS idx_graph_edges_from ON graph_edges(from_id, relation);
+CREATE INDEX IF NOT EXISTS idx_graph_edges_to ON graph_edges(to_id, relation);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_session ON conversations(session_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_llm_cache_expires_at ON llm_cache(expires_at);
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_workflow ON workflow_runs(workflow, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_async_tasks_claim ON async_tasks(status, priority DESC, run_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON llm_usage(created_at);
+
 -- 启用 Row Level Security (可选)
 ALTER TABLE cases ENABLE ROW LEVEL SECURITY;
 ALTER TABLE scenarios ENABLE ROW LEVEL SECURITY;
 ALTER TABLE industries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trends ENABLE ROW LEVEL SECURITY;
 
 -- 公开读取策略（开发阶段）
 CREATE POLICY "Allow public read cases" ON cases FOR SELECT USING (true);
 CREATE POLICY "Allow public read scenarios" ON scenarios FOR SELECT USING (true);
 CREATE POLICY "Allow public read industries" ON industries FOR SELECT USING (true);
+CREATE POLICY "Allow public read trends" ON trends FOR SELECT USING (true);
 
 -- 插入示例行业数据
 INSERT INTO industries (name, description) VALUES
@@ -136,6 +361,22 @@ ON CONFLICT (name) DO NOTHING;
 -- ALTER TABLE cases ADD COLUMN IF NOT EXISTS prerequisites TEXT;
 -- ALTER TABLE cases ADD COLUMN IF NOT EXISTS installation_method TEXT;
 -- ALTER TABLE cases ADD COLUMN IF NOT EXISTS example_prompt TEXT;
+-- ALTER TABLE llm_usage ADD COLUMN IF NOT EXISTS prompt_id TEXT;
+-- ALTER TABLE conversations ADD COLUMN IF NOT EXISTS session_id TEXT;
+-- ALTER TABLE conversations ADD COLUMN IF NOT EXISTS user_id TEXT;
+-- ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversations_role_check;
+-- ALTER TABLE conversations ADD CONSTRAINT conversations_role_check CHECK (role IN ('user', 'assistant', 'system'));
+-- ALTER TABLE workflow_run_steps ADD COLUMN IF NOT EXISTS preview JSONB;
+-- ALTER TABLE async_tasks ADD COLUMN IF NOT EXISTS steps JSONB;
+-- ALTER TABLE async_tasks ADD COLUMN IF NOT EXISTS owner_id TEXT;
+-- ALTER TABLE async_tasks ADD COLUMN IF NOT EXISTS cancel_requested BOOLEAN DEFAULT FALSE;
+-- ALTER TABLE async_tasks DROP CONSTRAINT IF EXISTS async_tasks_status_check;
+-- ALTER TABLE async_tasks ADD COLUMN IF NOT EXISTS callback JSONB;
+-- ALTER TABLE async_tasks ADD COLUMN IF NOT EXISTS webhook_deliveries JSONB;
+-- ALTER TABLE async_tasks ADD CONSTRAINT async_tasks_status_check CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled'));
+-- CREATE EXTENSION IF NOT EXISTS vector;
+-- DROP FUNCTION IF EXISTS match_documents(vector, FLOAT, INTEGER, TEXT, TEXT);
+-- ALTER TABLE scenarios ADD COLUMN IF NOT EXISTS embedding vector(1536);
 
 -- 显示所有表
 SELECT
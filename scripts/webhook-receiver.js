@@ -0,0 +1,64 @@
+/**
+ * 本地回调接收器
+ * 功能：接收任务回调，校验 HMAC 签名并打印内容，用于本地联调 callbackUrl
+ *
+ * 用法：WEBHOOK_SECRET=xxx RECEIVER_PORT=4000 node scripts/webhook-receiver.js
+ * 创建任务时传 { "callbackUrl": "http://localhost:4000/webhook", "callbackSecret": "xxx" }
+ * RECEIVER_FAIL_TIMES=N 时前 N 次请求返回 500，用于验证重试
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.RECEIVER_PORT || '4000');
+const SECRET = process.env.WEBHOOK_SECRET || '';
+const TOLERANCE_MS = 5 * 60 * 1000;
+let failTimes = parseInt(process.env.RECEIVER_FAIL_TIMES || '0');
+
+/**
+ * 校验 X-ASIP-Signature: t=<毫秒时间戳>,v1=<HMAC-SHA256(secret, `${t}.${body}`)>
+ */
+function verify(body, header) {
+  if (!header) return false;
+  const parts = Object.fromEntries(header.split(',').map((part) => part.trim().split('=')));
+  const timestamp = parseInt(parts.t);
+  if (!parts.v1 || isNaN(timestamp) || Math.abs(Date.now() - timestamp) > TOLERANCE_MS) return false;
+
+  const expected = crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest();
+  const actual = Buffer.from(parts.v1, 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    const event = req.headers['x-asip-event'];
+    const delivery = req.headers['x-asip-delivery'];
+
+    if (SECRET && !verify(body, req.headers['x-asip-signature'])) {
+      console.log(`❌ ${event} ${delivery} 签名无效`);
+      res.writeHead(401).end();
+      return;
+    }
+
+    if (failTimes > 0) {
+      failTimes--;
+      console.log(`⚠️  ${event} ${delivery} 模拟失败（剩余 ${failTimes} 次）`);
+      res.writeHead(500).end();
+      return;
+    }
+
+    const payload = JSON.parse(body);
+    console.log(`✅ ${event} ${delivery} 任务 ${payload.data.taskId} ${payload.data.status}`);
+    console.log(JSON.stringify(payload.data, null, 2).slice(0, 2000));
+    res.writeHead(204).end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🚀 回调接收器监听 http://localhost:${PORT}${SECRET ? '（校验签名）' : ''}`);
+});
+
+process.on('SIGINT', () => server.close(() => process.exit(0)));
+process.on('SIGTERM', () => server.close(() => process.exit(0)));
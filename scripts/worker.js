@@ -0,0 +1,58 @@
+/**
+ * 任务 Worker 进程
+ * 功能：循环调用 /api/worker 处理任务队列，队列为空时等待后再拉取
+ *
+ * 用法：WORKER_URL=https://your-app.vercel.app CRON_SECRET=xxx node scripts/worker.js
+ */
+
+const WORKER_URL = (process.env.WORKER_URL || 'http://localhost:3000').replace(/\/$/, '');
+const CRON_SECRET = process.env.CRON_SECRET || 'development-secret';
+const IDLE_INTERVAL_MS = parseInt(process.env.WORKER_IDLE_INTERVAL_MS || '5000');
+const ERROR_INTERVAL_MS = 30000;
+
+let stopping = false;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 调用一次 worker 接口，返回处理的任务数
+ */
+async function pull() {
+  const response = await fetch(`${WORKER_URL}/api/worker`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${CRON_SECRET}` },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Worker API ${response.status}: ${await response.text()}`);
+  }
+
+  const data = await response.json();
+  return data.processed || 0;
+}
+
+async function main() {
+  console.log(`🚀 Worker 启动，拉取 ${WORKER_URL}/api/worker`);
+
+  while (!stopping) {
+    try {
+      const processed = await pull();
+      if (processed > 0) {
+        console.log(`✅ 处理了 ${processed} 个任务`);
+        continue;
+      }
+      await sleep(IDLE_INTERVAL_MS);
+    } catch (error) {
+      console.error('❌ 拉取失败:', error.message);
+      await sleep(ERROR_INTERVAL_MS);
+    }
+  }
+
+  console.log('👋 Worker 已停止');
+}
+
+// 收到停止信号后处理完当前批次再退出
+process.on('SIGINT', () => { stopping = true; });
+process.on('SIGTERM', () => { stopping = true; });
+
+main();
@@ -1,16 +1,57 @@
 import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
 import { extractCaseInfo } from '@/lib/llm';
-import { runSalesScriptFlow } from '@/lib/agents';
+import { orchestrationAgent } from '@/lib/agents';
 import { agentRAG, retrieveFromDatabase } from '@/lib/rag';
+import { sseResponse } from '@/lib/sse';
+import { LLMError, getErrorStatus, getRetryAfterMs } from '@/lib/providers';
+import { LLMCallRecord, summarizeUsage, trackLLMCalls } from '@/lib/llm-tracking';
+import {
+  ConversationAccessError,
+  formatConversation,
+  loadConversation,
+  saveTurn
+} from '@/lib/conversation';
+import { AgentContext, IntentType, OrchestrationResult } from '@/lib/agents/types';
+
+// 追问时可沿用上一轮模式的模式
+const FOLLOW_UP_MODES = ['brainstorm', 'sales_script'];
+
+// 可直接指定的意图（mode），chat 对应一般对话
+const INTENT_MODES: Record<string, IntentType> = {
+  chat: 'general_chat',
+  brainstorm: 'brainstorm',
+  trend_discovery: 'trend_discovery',
+  case_search: 'case_search',
+  sales_script: 'sales_script',
+  roi_estimate: 'roi_estimate'
+};
 
 /**
  * Chat API - AI Copilot 对话接口
  * POST /api/chat
+ *
+ * 请求体带 stream: true（或 Accept: text/event-stream）时，脑力风暴模式以 SSE 返回：
+ * - event: token  data: { text }           增量文本
+ * - event: done   data: { success, data, mode, metadata }  最终结果（含来源）
+ * - event: error  data: { error }
+ *
+ * metadata.usage 为本次请求的 LLM 用量（token、延迟、费用，含按 Agent 分组）
+ *
+ * 多轮对话：请求带 sessionId（可选 userId），服务端加载该会话的历史（按 token 预算截取，
+ * 更早的对话压缩为摘要）注入 RAG 和 Agent 提示词，并保存本轮对话；不带 sessionId 时新建会话，
+ * 响应中返回 sessionId。未指定 mode 且没有匹配到关键词时，追问沿用上一轮的模式。
+ *
+ * 意图识别和任务分发由 OrchestrationAgent 完成（未指定 mode 时先匹配关键词，再用 LLM 识别）。
+ * 脑力风暴走知识库检索（Agent RAG，可流式返回），完整的脑力风暴流程见 /api/chat/task；
+ * 其余意图由编排 Agent 调用对应的工作流 / Agent 并生成回复，metadata 中附上 intent 和 tasks。
+ * 指定 mode 时 data 为主任务的结构化结果（如 sales_script 的话术），否则为回复文本。
  */
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { message, mode, caseInfo, customerIndustry } = body;
+    const { message, mode } = body;
+    let { caseInfo, customerIndustry } = body;
 
     if (!message && !caseInfo) {
       return NextResponse.json(
@@ -19,86 +60,165 @@ export async function POST(request: Request) {
       );
     }
 
-    // 自动意图识别 - 如果没有指定 mode
-    let resolvedMode = mode || 'chat';
-    if (!mode && message) {
-      const lowerMessage = message.toLowerCase();
-      const brainstormKeywords = [
-        '新应用方向', '新机会', '新场景', '有什么新', '创新方向',
-        '脑力风暴', '灵感', '发现新', '探索新', '趋势方向',
-        '最近有什么新', '新型应用', '创新案例', 'ai agent 趋势',
-        'ai 有什么新', 'ai 新方向', 'agent 新应用',
-        'brainstorm', 'trends', 'new opportunity', 'new direction',
-        '发现机会', '探索方向', '创新'
-      ];
-      for (const keyword of brainstormKeywords) {
-        if (lowerMessage.includes(keyword.toLowerCase())) {
-          resolvedMode = 'brainstorm';
-          console.log('[AutoIntent] Matched keyword:', keyword);
-          break;
-        }
-      }
+    if (mode && mode !== 'extract_info' && !INTENT_MODES[mode]) {
+      return NextResponse.json({ error: `Unknown mode: ${mode}` }, { status: 400 });
+    }
+
+    // 汇总本次请求内的全部 LLM 调用
+    const records: LLMCallRecord[] = [];
+    const tracked = async <T>(fn: () => Promise<T>): Promise<T> => {
+      const tracking = await trackLLMCalls(fn);
+      records.push(...tracking.records);
+      return tracking.result;
+    };
+
+    // 加载会话记忆（可能触发摘要调用）
+    const sessionId: string = body.sessionId || randomUUID();
+    const userId: string | undefined = body.userId;
+    const memory = await tracked(() => loadConversation(sessionId, { userId }));
+    const history = formatConversation(memory);
+    const lastTurn = memory.lastMetadata || {};
+
+    // 意图识别：指定 mode > 关键词 > 追问沿用上一轮（如“换成银行业”）> LLM
+    const matched = !mode && message ? orchestrationAgent.matchKeywords(message) : null;
+    const isFollowUp = !mode && !matched && FOLLOW_UP_MODES.includes(lastTurn.mode);
+    let resolvedMode: string = mode || matched?.intent || 'general_chat';
+    let entities: Record<string, any> = matched?.entities || {};
+
+    if (isFollowUp) {
+      resolvedMode = lastTurn.mode;
+      caseInfo = caseInfo || lastTurn.caseInfo;
+      customerIndustry = customerIndustry || lastTurn.customerIndustry;
+    } else if (!mode && !matched && message) {
+      const recognized = await tracked(() => orchestrationAgent.recognizeIntent(message, body.locale));
+      resolvedMode = recognized.intent;
+      entities = recognized.entities;
     }
 
+    // Agent 上下文包含本轮用户输入，便于 Agent 理解追问
+    const context: AgentContext = {
+      sessionId,
+      userId,
+      locale: body.locale,
+      summary: memory.summary,
+      conversationHistory: message
+        ? [...memory.messages, { role: 'user', content: message, timestamp: Date.now() }]
+        : memory.messages
+    };
+
+    // 检索时合并上一轮用户问题，让追问也能检索到相关案例
+    const lastUserMessage = [...memory.messages].reverse().find(m => m.role === 'user')?.content;
+    const brainstormOptions = {
+      history,
+      retrievalQuery: isFollowUp && lastUserMessage ? `${lastUserMessage} ${message}` : undefined
+    };
+
+    const remember = (result: any) => saveTurn(sessionId, {
+      userId,
+      user: message || `[${resolvedMode}]`,
+      assistant: toAssistantText(result),
+      metadata: { mode: resolvedMode, caseInfo, customerIndustry }
+    });
+
     let result: any;
-    let metadata: Record<string, any> = { autoIntent: resolvedMode !== mode };
+    let metadata: Record<string, any> = { autoIntent: !mode, followUp: isFollowUp };
+
+    const wantsStream = body.stream === true ||
+      (request.headers.get('accept') || '').includes('text/event-stream');
+
+    if (wantsStream && resolvedMode === 'brainstorm') {
+      return sseResponse(async (send) => {
+        const streamed = await tracked(() => handleBrainstorm(message, customerIndustry, (token) => {
+          send('token', { text: token });
+        }, brainstormOptions));
+        await remember(streamed);
+        send('done', {
+          success: true,
+          data: streamed,
+          mode: mode || 'chat',
+          sessionId,
+          metadata: { ...metadata, usage: summarizeUsage(records) }
+        });
+      });
+    }
 
     switch (resolvedMode) {
       case 'brainstorm':
         // 脑力风暴模式 - 发现新机会
-        result = await handleBrainstorm(message, customerIndustry);
-        break;
-
-      case 'sales_script':
-        // 生成销售话术
-        if (!caseInfo || !customerIndustry) {
-          return NextResponse.json(
-            { error: 'caseInfo and customerIndustry are required for sales_script mode' },
-            { status: 400 }
-          );
-        }
-        const scriptResult = await runSalesScriptFlow({
-          caseInfo,
-          customer: {
-            industry: customerIndustry,
-            companySize: body.customerCompanySize,
-            role: body.customerRole
-          },
-          type: body.scriptType || 'cold_call'
-        });
-        result = scriptResult.data;
-        metadata = { mode: 'sales_script' };
+        result = await tracked(() => handleBrainstorm(message, customerIndustry, undefined, brainstormOptions));
         break;
 
       case 'extract_info':
         // 从文本提取案例信息
-        result = await extractCaseInfo(message);
-        if (!result) {
+        const extracted = await tracked(() => extractCaseInfo(message));
+        if (!extracted.data) {
           return NextResponse.json(
-            { error: 'Failed to extract case info' },
+            { error: 'Failed to extract case info', details: extracted.errors },
             { status: 500 }
           );
         }
+        result = extracted.data;
+        metadata = { ...metadata, attempts: extracted.attempts };
         break;
 
-      case 'chat':
       default:
-        // 普通对话模式 - 使用简单的话术模板
-        result = await handleChat(message);
+        // 其余意图交给编排 Agent 分发
+        if (mode === 'sales_script' && (!caseInfo || !customerIndustry)) {
+          return NextResponse.json(
+            { error: 'caseInfo and customerIndustry are required for sales_script mode' },
+            { status: 400 }
+          );
+        }
+        const orchestrated = await tracked(() => orchestrationAgent.run({
+          task: message || `[${resolvedMode}]`,
+          context,
+          params: {
+            intent: INTENT_MODES[resolvedMode] || resolvedMode,
+            entities: {
+              ...entities,
+              ...(customerIndustry ? { industry: customerIndustry } : {}),
+              caseInfo,
+              companySize: body.customerCompanySize,
+              role: body.customerRole,
+              scriptType: body.scriptType
+            }
+          }
+        }));
+        if (!orchestrated.success) {
+          throw new Error(orchestrated.error || 'Orchestration failed');
+        }
+        const output: OrchestrationResult = orchestrated.data;
+        result = mode && output.tasks[0]?.success ? output.tasks[0].data : output.finalOutput;
+        metadata = {
+          ...metadata,
+          mode: resolvedMode,
+          intent: output.intent.intent,
+          tasks: output.tasks.map(({ agentName, task, success, error, duration }) =>
+            ({ agentName, task, success, error, duration }))
+        };
         break;
     }
 
+    await remember(result);
+
     return NextResponse.json({
       success: true,
       data: result,
       mode: mode || 'chat',
-      metadata
+      sessionId,
+      metadata: { ...metadata, usage: summarizeUsage(records) }
     });
   } catch (error: any) {
     console.error('Chat API Error:', error);
+    const retryAfterMs = getRetryAfterMs(error);
     return NextResponse.json(
-      { error: error.message || 'Internal server error' },
-      { status: 500 }
+      { error: error.message || 'Internal server error', code: error.code },
+      {
+        status: error instanceof ConversationAccessError ? 403 : getErrorStatus(error),
+        headers: retryAfterMs !== undefined
+          ? { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) }
+          : undefined
+      }
     );
   }
 }
@@ -107,13 +227,20 @@ export async function POST(request: Request) {
  * 处理脑力风暴 - Agent RAG 模式
  * 从数据库检索 + RAG 生成，速度快且可溯源
  */
-async function handleBrainstorm(message: string, industry?: string): Promise<any> {
+async function handleBrainstorm(
+  message: string,
+  industry?: string,
+  onToken?: (token: string) => void,
+  conversation: { history?: string; retrievalQuery?: string } = {}
+): Promise<any> {
   try {
     // 使用 Agent RAG 模式：从数据库检索 + LLM 生成
     const ragResult = await agentRAG(message, {
       mode: 'brainstorm',
       industry,
-      includeTypes: ['case', 'scenario', 'trend']
+      includeTypes: ['case', 'scenario', 'trend'],
+      onToken,
+      ...conversation
     });
 
     // 格式化返回结果
@@ -121,6 +248,7 @@ async function handleBrainstorm(message: string, industry?: string): Promise<any
       type: 'brainstorm',
       answer: ragResult.answer,
       sources: ragResult.sources,
+      citations: ragResult.citations,
       retrievedCount: ragResult.metadata.retrievedCount,
       message: ragResult.metadata.retrievedCount > 0
         ? `基于案例库中 ${ragResult.metadata.retrievedCount} 个相关案例生成回答`
@@ -130,6 +258,12 @@ async function handleBrainstorm(message: string, industry?: string): Promise<any
     };
   } catch (error: any) {
     console.error('Brainstorm error:', error);
+
+    // LLM 错误（配额、服务不可用等）由外层按类型返回对应状态码
+    if (error instanceof LLMError) {
+      throw error;
+    }
+
     return {
       type: 'brainstorm',
       error: error.message,
@@ -139,54 +273,12 @@ async function handleBrainstorm(message: string, industry?: string): Promise<any
 }
 
 /**
- * 处理普通对话
+ * 提取保存到会话记录中的助手回复文本
  */
-async function handleChat(message: string): Promise<string> {
-  const lowerMessage = message.toLowerCase();
-
-  // 简单的意图识别和回复
-  if (lowerMessage.includes('客服') || lowerMessage.includes('customer service')) {
-    return `我来为您推荐智能客服相关的AI Agent案例：
-
-**热门案例推荐：**
-
-1. **ChatGPT-Next-Web** - 一键部署私人ChatGPT应用，适合客服场景
-2. **LangChain** - 构建LLM应用的开发框架，支持智能对话
-3. **Dify** - 生产级Agent工作流开发平台
-
-您想了解哪个案例的详细信息，或者需要我帮您生成销售话术吗？`;
-  }
-
-  if (lowerMessage.includes('自动化') || lowerMessage.includes('automation')) {
-    return `为您推荐流程自动化相关的AI Agent案例：
-
-**热门案例：**
-
-1. **AutoGPT** - 自主完成多步骤任务的AI代理
-2. **HyperAgent** - AI驱动的浏览器自动化
-3. **OpenAdapt** - 生成式流程自动化
-
-这些案例可以帮助企业实现重复性工作的自动化，提高效率。`;
-  }
-
-  if (lowerMessage.includes('你好') || lowerMessage.includes('hello') || lowerMessage.includes('hi')) {
-    return `您好！我是 ASIP AI Copilot，您的AI Agent智能助手。
-
-我可以帮您：
-- 🔍 搜索AI Agent成功案例
-- 📝 为您生成销售话术
-- 💰 估算ROI投资回报
-- 💡 提供AI落地建议
-
-请问有什么可以帮您的？`;
-  }
-
-  // 默认回复
-  return `感谢您的提问！根据您的需求"${message}"，我建议：
-
-1. 在上方的案例库中搜索相关关键词
-2. 点击感兴趣的案例查看详情
-3. 可以让我帮您生成针对该案例的销售话术
-
-请告诉我更多关于您的需求，我可以提供更精准的建议。`;
+function toAssistantText(result: any): string {
+  if (typeof result === 'string') return result;
+  if (result?.answer) return result.answer;
+  if (result?.script?.primaryScript?.content) return result.script.primaryScript.content;
+  if (result?.message) return result.message;
+  return JSON.stringify(result);
 }
@@ -1,24 +1,38 @@
 import { NextResponse } from 'next/server';
-import { getTask, updateTask, createTask } from '@/lib/agents/async-task';
-import { runBrainstormFlow } from '@/lib/agents/workflows';
+import { getTask, createTask, cancelTask, TaskAccessError } from '@/lib/agents/async-task';
+import { getTaskTypes, kickInlineWorker } from '@/lib/agents/task-worker';
+import { WebhookUrlError, enqueueTaskWebhook, validateWebhookUrl } from '@/lib/agents/task-webhook';
+
+/**
+ * 请求方身份：userId 优先，其次 sessionId（与创建任务时一致）
+ */
+function getOwnerId(searchParams: URLSearchParams): string | undefined {
+  return searchParams.get('userId') || searchParams.get('sessionId') || undefined;
+}
+
+// 投递记录中错误信息的最大长度
+const MAX_DELIVERY_ERROR_LENGTH = 200;
 
 /**
  * Task Status API - 获取异步任务状态
- * GET /api/chat/task?taskId=xxx
+ * GET /api/chat/task?taskId=xxx&sessionId=xxx
+ * 实时进度使用 GET /api/chat/task/stream?taskId=xxx（SSE）
  */
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
     const taskId = searchParams.get('taskId');
 
-    if (!taskId) {
+    const ownerId = getOwnerId(searchParams);
+
+    if (!taskId || !ownerId) {
       return NextResponse.json(
-        { error: 'Missing taskId' },
+        { error: 'Missing taskId or userId/sessionId' },
         { status: 400 }
       );
     }
 
-    const task = getTask(taskId);
+    const task = await getTask(taskId, ownerId);
 
     if (!task) {
       return NextResponse.json(
@@ -31,9 +45,22 @@ export async function GET(request: Request) {
       success: true,
       data: {
         taskId: task.id,
+        type: task.type,
         status: task.status,
         progress: task.progress,
         message: task.message,
+        attempts: task.attempts,
+        maxAttempts: task.maxAttempts,
+        steps: task.steps || [],
+        webhook: task.callback
+          ? {
+              url: task.callback.url,
+              deliveries: (task.webhookDeliveries || []).map(delivery => ({
+                ...delivery,
+                error: delivery.error?.slice(0, MAX_DELIVERY_ERROR_LENGTH)
+              }))
+            }
+          : undefined,
         result: task.status === 'completed' ? task.result : undefined,
         error: task.status === 'failed' ? task.error : undefined
       }
@@ -42,94 +69,141 @@ export async function GET(request: Request) {
     console.error('Task API Error:', error);
     return NextResponse.json(
       { error: error.message || 'Internal server error' },
-      { status: 500 }
+      { status: error instanceof TaskAccessError ? 403 : 500 }
     );
   }
 }
 
 /**
- * Create Brainstorm Task API - 创建脑力风暴异步任务
+ * Create Task API - 创建异步任务
  * POST /api/chat/task
- * Body: { query: string, industry?: string }
+ * Body: { query: string, industry?: string }  脑力风暴（默认类型）
+ *   或 { type: 'case_search' | 'sales_script' | 'workflow_resume' | ..., payload: {...}, priority?: number }
+ *   必须带 userId 或 sessionId，任务只允许创建者查看和取消
+ *   可带 callbackUrl / callbackSecret，任务结束后把结果 POST 到回调地址（HMAC 签名，失败重试），
+ *   回调地址不能指向内网（WEBHOOK_ALLOWED_HOSTS 放行的主机除外）
+ *
+ * 任务写入队列后立即返回，由 worker（/api/worker）领取执行；
+ * 内存存储时在当前进程执行
  */
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { query, industry } = body;
+    const type: string = body.type || 'brainstorm';
+    const ownerId: string | undefined = body.userId || body.sessionId || undefined;
+    const payload = body.payload || { query: body.query, industry: body.industry };
+
+    if (!getTaskTypes().includes(type)) {
+      return NextResponse.json(
+        { error: `Unknown task type: ${type}` },
+        { status: 400 }
+      );
+    }
 
-    if (!query) {
+    if (!ownerId) {
+      return NextResponse.json(
+        { error: 'Missing userId or sessionId' },
+        { status: 400 }
+      );
+    }
+
+    if (type === 'brainstorm' && !payload.query) {
       return NextResponse.json(
         { error: 'Missing query' },
         { status: 400 }
       );
     }
 
-    // 创建任务
-    const taskId = createTask();
+    if (body.callbackUrl) {
+      await validateWebhookUrl(body.callbackUrl);
+    }
 
-    // 立即返回任务 ID
-    updateTask(taskId, {
-      status: 'processing',
-      progress: 10,
-      message: '正在分析您的问题...'
+    // 创建任务
+    const task = await createTask({
+      type,
+      payload,
+      ownerId,
+      callback: body.callbackUrl
+        ? { url: body.callbackUrl, secret: body.callbackSecret || undefined }
+        : undefined,
+      priority: typeof body.priority === 'number' ? body.priority : undefined
     });
 
-    // 后台异步执行
-    executeBrainstormTask(taskId, query, industry);
+    kickInlineWorker();
 
     return NextResponse.json({
       success: true,
       data: {
-        taskId,
-        status: 'processing',
-        message: '任务已创建，正在后台处理'
+        taskId: task.id,
+        status: task.status,
+        message: '任务已创建，正在排队处理'
       }
     });
   } catch (error: any) {
     console.error('Create Task API Error:', error);
     return NextResponse.json(
       { error: error.message || 'Internal server error' },
-      { status: 500 }
+      { status: error instanceof WebhookUrlError ? 400 : 500 }
     );
   }
 }
 
 /**
- * 后台执行脑力风暴任务
+ * Cancel Task API - 取消异步任务
+ * DELETE /api/chat/task?taskId=xxx&sessionId=xxx
+ *
+ * 排队中的任务立即取消；执行中的任务由 worker 中止进行中的 LLM 调用，剩余步骤不再执行
  */
-async function executeBrainstormTask(taskId: string, query: string, industry?: string): Promise<void> {
+export async function DELETE(request: Request) {
   try {
-    updateTask(taskId, {
-      progress: 20,
-      message: '正在收集最新趋势...'
-    });
+    const { searchParams } = new URL(request.url);
+    const taskId = searchParams.get('taskId');
 
-    // 执行脑力风暴流程
-    const result = await runBrainstormFlow({
-      query,
-      industry
-    });
+    const ownerId = getOwnerId(searchParams);
+
+    if (!taskId || !ownerId) {
+      return NextResponse.json(
+        { error: 'Missing taskId or userId/sessionId' },
+        { status: 400 }
+      );
+    }
+
+    const current = await getTask(taskId, ownerId);
+
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
 
-    if (result.success) {
-      updateTask(taskId, {
-        status: 'completed',
-        progress: 100,
-        message: '分析完成',
-        result: result.data
-      });
-    } else {
-      updateTask(taskId, {
-        status: 'failed',
-        message: '任务执行失败',
-        error: result.error
-      });
+    if (current.status === 'completed' || current.status === 'failed' || current.status === 'cancelled') {
+      return NextResponse.json(
+        { error: `Task already ${current.status}` },
+        { status: 409 }
+      );
     }
-  } catch (error: any) {
-    console.error('Brainstorm task error:', error);
-    updateTask(taskId, {
-      status: 'failed',
-      message: '任务执行失败',
-      error: error.message
+
+    const task = (await cancelTask(taskId, ownerId))!;
+
+    // 排队中的任务已直接取消，在这里通知回调；执行中的任务由 worker 中止后通知
+    if (task.status === 'cancelled' && await enqueueTaskWebhook(task)) {
+      kickInlineWorker();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        taskId: task.id,
+        status: task.status,
+        message: task.message
+      }
     });
+  } catch (error: any) {
+    console.error('Cancel Task API Error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: error instanceof TaskAccessError ? 403 : 500 }
+    );
   }
 }
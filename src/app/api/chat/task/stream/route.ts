@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import { AsyncTask, TaskAccessError, getTask } from '@/lib/agents/async-task';
+import { sseResponse } from '@/lib/sse';
+
+// 轮询任务存储的间隔（worker 可能在其他进程，进度只能从存储读取）
+const POLL_INTERVAL_MS = parseInt(process.env.TASK_STREAM_POLL_MS || '1000');
+
+// 单个连接的最长时间，到达后发送 timeout 事件，前端重新连接即可继续
+const MAX_STREAM_MS = parseInt(process.env.TASK_STREAM_MAX_MS || '240000');
+
+export const maxDuration = 300;
+
+/**
+ * Task Progress Stream API - 推送异步任务进度
+ * GET /api/chat/task/stream?taskId=xxx&sessionId=xxx（userId / sessionId 与创建任务时一致）
+ *
+ * 事件：
+ * - progress：{ taskId, status, progress, message, attempts }，状态或进度变化时
+ * - step：{ taskId, step }，工作流步骤开始 / 结束（含输出摘要 preview）
+ * - done：{ taskId, result }，任务完成
+ * - error：{ taskId, error }，任务失败（已用完重试次数）
+ * - cancelled：{ taskId }，任务已取消
+ * - timeout：{ taskId }，连接到达时间上限，任务仍在执行
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const taskId = searchParams.get('taskId');
+
+  const ownerId = searchParams.get('userId') || searchParams.get('sessionId');
+
+  if (!taskId || !ownerId) {
+    return NextResponse.json(
+      { error: 'Missing taskId or userId/sessionId' },
+      { status: 400 }
+    );
+  }
+
+  let initial: AsyncTask | null;
+  try {
+    initial = await getTask(taskId, ownerId);
+  } catch (error: any) {
+    if (!(error instanceof TaskAccessError)) throw error;
+    return NextResponse.json(
+      { error: error.message },
+      { status: 403 }
+    );
+  }
+
+  if (!initial) {
+    return NextResponse.json(
+      { error: 'Task not found' },
+      { status: 404 }
+    );
+  }
+
+  return sseResponse(async (send) => {
+    const deadline = Date.now() + MAX_STREAM_MS;
+    const sentSteps = new Map<string, string>();
+    let lastProgress = '';
+    let task: AsyncTask | null = initial;
+
+    while (task && !request.signal.aborted) {
+      const progress = {
+        taskId: task.id,
+        status: task.status,
+        progress: task.progress,
+        message: task.message,
+        attempts: task.attempts
+      };
+      const progressKey = JSON.stringify(progress);
+      if (progressKey !== lastProgress) {
+        send('progress', progress);
+        lastProgress = progressKey;
+      }
+
+      // 只推送有变化的步骤
+      for (const step of task.steps || []) {
+        const stepKey = JSON.stringify(step);
+        if (sentSteps.get(step.id) !== stepKey) {
+          send('step', { taskId: task.id, step });
+          sentSteps.set(step.id, stepKey);
+        }
+      }
+
+      if (task.status === 'completed') {
+        send('done', { taskId: task.id, result: task.result });
+        return;
+      }
+      if (task.status === 'failed') {
+        send('error', { taskId: task.id, error: task.error || 'Task failed' });
+        return;
+      }
+      if (task.status === 'cancelled') {
+        send('cancelled', { taskId: task.id });
+        return;
+      }
+      if (Date.now() >= deadline) {
+        send('timeout', { taskId: task.id });
+        return;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      task = await getTask(taskId, ownerId);
+    }
+
+    // 任务在推送期间被清理
+    if (!task && !request.signal.aborted) {
+      send('error', { taskId, error: 'Task not found' });
+    }
+  });
+}
@@ -1,8 +1,19 @@
 import { NextResponse } from 'next/server';
+import { getVectorStore } from '@/lib/vector-store';
+import { resetKeywordIndex } from '@/lib/hybrid-search';
 
 // 简单的 CRON 密钥验证
 const CRON_SECRET = process.env.CRON_SECRET || 'development-secret';
 
+export const maxDuration = 300;
+
+/**
+ * 数据更新 API
+ * GET /api/cron/data?secret=xxx
+ *
+ * 同步向量索引：为新增或内容变更的案例、场景、趋势生成向量（pgvector 写 embedding 列，否则重建本地索引），
+ * 并让关键词索引在下次检索时重建
+ */
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const secret = searchParams.get('secret');
@@ -16,9 +27,13 @@ export async function GET(request: Request) {
     // 这里可以调用采集脚本
     // 由于服务器环境限制，建议通过外部 cron job 调用
 
+    const vectorIndex = await getVectorStore().sync();
+    resetKeywordIndex();
+
     return NextResponse.json({
       success: true,
       message: '数据更新任务已触发',
+      vectorIndex,
       note: '请通过 GitHub Actions 或外部 cron job 定期触发',
       lastRun: new Date().toISOString(),
     });
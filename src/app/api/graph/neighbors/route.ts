@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import {
+  GraphQueryError,
+  getNeighborhood,
+  parseNodeFilter,
+  parseRelationParam,
+  resolveNodeId
+} from '@/lib/graph-query';
+
+/**
+ * Graph Neighbors API - 节点及其 N 跳以内的邻居
+ * GET /api/graph/neighbors?id=case:routegenie&depth=2&direction=both&relation=uses_technology&type=case,technology
+ *
+ * - id：节点 ID（<类型>:<名称>）
+ * - depth：1-3，默认 1；direction：out / in / both（默认）
+ * - relation、type、since、until：只沿这些关系展开，只返回满足条件的邻居
+ *
+ * 返回 { root, nodes, edges, page }：nodes 第一个为中心节点，其余按深度（depth）、ID 排序分页
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    }
+
+    const direction = searchParams.get('direction') || 'both';
+    if (!['out', 'in', 'both'].includes(direction)) {
+      return NextResponse.json({ error: 'direction must be out, in or both' }, { status: 400 });
+    }
+
+    const data = await getNeighborhood(resolveNodeId(id), {
+      ...parseNodeFilter(searchParams),
+      depth: searchParams.has('depth') ? parseInt(searchParams.get('depth')!) : undefined,
+      direction: direction as 'out' | 'in' | 'both',
+      relations: parseRelationParam(searchParams.get('relation'))
+    });
+    if (!data) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data });
+  } catch (error: any) {
+    console.error('Graph Neighbors API Error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: error instanceof GraphQueryError ? 400 : 500 }
+    );
+  }
+}
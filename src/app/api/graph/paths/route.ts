@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import {
+  GraphQueryError,
+  findPaths,
+  parseNodeTypes,
+  parseRelationParam,
+  resolveNodeId
+} from '@/lib/graph-query';
+
+/**
+ * Graph Paths API - 两个节点之间的路径（不区分边的方向）
+ * GET /api/graph/paths?from=pain_point:配送成本高&toType=case&maxLength=2
+ * GET /api/graph/paths?from=industry:物流&to=technology:llm&maxLength=3&limit=20&offset=0
+ *
+ * - to：终点节点 ID；或 toType：终点为该类型的任意节点（如痛点到解决它的案例）
+ * - maxLength：1-4，默认 3；relation：只经过这些关系
+ *
+ * 返回 { paths, nodes, edges, page }：路径按长度升序、权重（各边权重之积）降序分页，
+ * nodes / edges 为本页路径经过的节点和边
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const toType = searchParams.get('toType');
+
+    if (!from || (!to && !toType)) {
+      return NextResponse.json(
+        { error: 'Missing required parameters: from and to (or toType)' },
+        { status: 400 }
+      );
+    }
+
+    const data = await findPaths(resolveNodeId(from), {
+      to: to ? resolveNodeId(to) : undefined,
+      toType: toType ? parseNodeTypes([toType])[0] : undefined,
+      maxLength: searchParams.has('maxLength') ? parseInt(searchParams.get('maxLength')!) : undefined,
+      relations: parseRelationParam(searchParams.get('relation')),
+      limit: searchParams.has('limit') ? parseInt(searchParams.get('limit')!) : undefined,
+      offset: searchParams.has('offset') ? parseInt(searchParams.get('offset')!) : undefined
+    });
+    if (!data) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data });
+  } catch (error: any) {
+    console.error('Graph Paths API Error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: error instanceof GraphQueryError ? 400 : 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { GraphQueryError, listNodes, parseNodeFilter } from '@/lib/graph-query';
+
+/**
+ * Knowledge Graph API - 按类型、入库时间筛选节点
+ * GET /api/graph?type=case,trend&since=2024-01-01&until=2024-01-31&limit=50&offset=0
+ *
+ * 返回 { nodes, edges, page }：节点按入库时间降序、ID 升序，edges 为本页节点之间的边
+ * 其他查询：/api/graph/neighbors、/api/graph/paths、/api/graph/technologies
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const data = await listNodes(parseNodeFilter(searchParams));
+
+    return NextResponse.json({ success: true, data });
+  } catch (error: any) {
+    console.error('Graph API Error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: error instanceof GraphQueryError ? 400 : 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { GraphQueryError, topTechnologies } from '@/lib/graph-query';
+
+/**
+ * Graph Technologies API - 各行业的热门技术
+ * GET /api/graph/technologies?top=5&limit=20&offset=0
+ * GET /api/graph/technologies?industry=物流
+ *
+ * 按行业内案例 / 趋势关联技术的边数排名（count 相同时按权重之和）
+ * 返回 { industries: [{ industry, edgeCount, technologies: [{ technology, count, weight }] }], page }，
+ * 行业按 edgeCount 降序分页
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const data = await topTechnologies({
+      industry: searchParams.get('industry') || undefined,
+      top: searchParams.has('top') ? parseInt(searchParams.get('top')!) : undefined,
+      limit: searchParams.has('limit') ? parseInt(searchParams.get('limit')!) : undefined,
+      offset: searchParams.has('offset') ? parseInt(searchParams.get('offset')!) : undefined
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error: any) {
+    console.error('Graph Technologies API Error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: error instanceof GraphQueryError ? 400 : 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { calculateROI } from '@/lib/llm';
+import { listPrompts, summarizeLLMCalls, trackLLMCalls } from '@/lib/llm-tracking';
 
 /**
  * ROI API - ROI 计算接口
@@ -8,7 +9,7 @@ import { calculateROI } from '@/lib/llm';
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { industry, useCase, companySize } = body;
+    const { industry, useCase, companySize, locale } = body;
 
     if (!industry || !useCase || !companySize) {
       return NextResponse.json(
@@ -17,35 +18,32 @@ export async function POST(request: Request) {
       );
     }
 
-    // 调用 LLM 计算 ROI
-    const roiData = await calculateROI(industry, useCase, companySize);
+    // 调用 LLM 计算 ROI（schema 校验 + 自动修复）
+    const { result: roi, records } = await trackLLMCalls(() =>
+      calculateROI(industry, useCase, companySize, locale)
+    );
+    const metadata = { usage: summarizeLLMCalls(records), prompts: listPrompts(records) };
 
-    // 检查 LLM 返回的数据是否有效
-    if (!roiData ||
-        !roiData.labor_savings ||
-        !roiData.annual_savings ||
-        isNaN(parseInt(roiData.labor_savings)) ||
-        isNaN(parseInt(roiData.annual_savings))) {
-      // 如果 LLM 调用失败或返回无效数据，返回估算数据
+    if (!roi.data) {
+      // 如果 LLM 调用失败或多次修复后仍无效，返回估算数据
       return NextResponse.json({
         success: true,
         data: getDefaultROI(industry, useCase, companySize),
         isDefault: true,
+        metadata,
       });
     }
 
-    // 解析 LLM 返回的数字
-    const parsedData = {
-      labor_savings: parseInt(roiData.labor_savings) || 0,
-      annual_savings: parseInt(roiData.annual_savings) || 0,
-      payback_period: parseInt(roiData.payback_period) || 12,
-      confidence: roiData.confidence || '中',
-    };
-
     return NextResponse.json({
       success: true,
-      data: parsedData,
+      data: {
+        labor_savings: Math.round(roi.data.labor_savings),
+        annual_savings: Math.round(roi.data.annual_savings),
+        payback_period: Math.round(roi.data.payback_period),
+        confidence: roi.data.confidence,
+      },
       isDefault: false,
+      metadata,
     });
   } catch (error: any) {
     console.error('ROI API Error:', error);
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getUsageReport } from '@/lib/llm-usage';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Usage API - LLM 用量报表
+ * GET /api/usage?from=2024-01-01&to=2024-01-31
+ *
+ * 按天 / 模型 / Agent 汇总调用次数、缓存命中、token、延迟和估算费用（人民币）
+ * from 默认为 30 天前；只写日期时 to 包含当天
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+
+    const from = fromParam
+      ? new Date(fromParam).toISOString()
+      : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const to = toParam
+      ? new Date(DATE_ONLY.test(toParam) ? `${toParam}T23:59:59.999Z` : toParam).toISOString()
+      : undefined;
+
+    const report = await getUsageReport({ from, to });
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+  } catch (error: any) {
+    console.error('Usage API Error:', error);
+    // 日期无效时 toISOString 抛出 RangeError
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: error instanceof RangeError ? 400 : 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { runWorker } from '@/lib/agents/task-worker';
+
+// 简单的 CRON 密钥验证
+const CRON_SECRET = process.env.CRON_SECRET || 'development-secret';
+
+// 单次调用处理任务的时间上限，留出余量给正在执行的任务（Vercel 函数时长受 maxDuration 限制）
+const WORKER_DEADLINE_MS = parseInt(process.env.WORKER_DEADLINE_MS || '45000');
+
+export const maxDuration = 300;
+
+/**
+ * Worker API - 处理任务队列
+ * GET  /api/worker   （Vercel Cron，Authorization: Bearer <CRON_SECRET>）
+ * POST /api/worker?secret=xxx  （scripts/worker.js 循环调用）
+ *
+ * 领取并执行任务，直到队列为空或到达时间上限，返回处理的任务数
+ */
+export async function GET(request: Request) {
+  return handle(request);
+}
+
+export async function POST(request: Request) {
+  return handle(request);
+}
+
+async function handle(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const secret = searchParams.get('secret') ||
+    (request.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+
+  // 验证密钥
+  if (secret !== CRON_SECRET) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const types = searchParams.get('types')?.split(',').filter(Boolean);
+    const processed = await runWorker({
+      stopWhenIdle: true,
+      deadlineMs: WORKER_DEADLINE_MS,
+      types: types && types.length > 0 ? types : undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      processed
+    });
+  } catch (error: any) {
+    console.error('Worker API Error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
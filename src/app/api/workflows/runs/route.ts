@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { getRun, listRuns, WorkflowRunError, WorkflowRunStatus } from '@/lib/agents/workflow-runs';
+import { replayFlow, resumeFlow } from '@/lib/agents/workflows';
+
+// 运行记录含各步骤的输入输出，只对持有 CRON_SECRET 的运维调用开放
+const CRON_SECRET = process.env.CRON_SECRET || 'development-secret';
+
+function isAuthorized(request: Request): boolean {
+  const { searchParams } = new URL(request.url);
+  const secret = searchParams.get('secret') ||
+    (request.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+  return secret === CRON_SECRET;
+}
+
+/**
+ * Workflow Runs API - 工作流运行记录（Authorization: Bearer <CRON_SECRET>）
+ * GET /api/workflows/runs?runId=xxx
+ * GET /api/workflows/runs?workflow=brainstorm&status=failed&limit=20
+ *
+ * 返回运行参数、状态和每个步骤的输入 / 输出检查点
+ */
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const runId = searchParams.get('runId');
+
+    if (runId) {
+      const run = await getRun(runId);
+      if (!run) {
+        return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, data: run });
+    }
+
+    const runs = await listRuns({
+      workflow: searchParams.get('workflow') || undefined,
+      status: (searchParams.get('status') as WorkflowRunStatus) || undefined,
+      limit: parseInt(searchParams.get('limit') || '20')
+    });
+
+    return NextResponse.json({ success: true, data: runs });
+  } catch (error: any) {
+    console.error('Workflow Runs API Error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 续跑 / 重放
+ * POST /api/workflows/runs（Authorization: Bearer <CRON_SECRET>）
+ *
+ * { "runId": "...", "action": "resume" }
+ *   从最后成功的步骤续跑失败或中断的运行
+ * { "runId": "...", "action": "replay", "rerun": ["script"], "params": { ... } }
+ *   复用其余步骤的输出，重新执行指定步骤及其下游，结果保存为新运行（parentRunId 指向原运行）
+ * { "runId": "...", "action": "replay", "inputs": { "script": { "params": { "type": "follow_up" } } } }
+ *   替换步骤的 Agent 输入后重放（task 替换，params / context 合并），被替换的步骤及其下游重新执行
+ */
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { runId, action } = body;
+
+    if (!runId || !['resume', 'replay'].includes(action)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: runId and action (resume | replay)' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getRun(runId))) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const inputs = body.inputs && typeof body.inputs === 'object' && !Array.isArray(body.inputs) ? body.inputs : undefined;
+    const rerun = Array.isArray(body.rerun) ? body.rerun : [];
+    if (action === 'replay' && rerun.length === 0 && !inputs) {
+      return NextResponse.json(
+        { error: 'rerun or inputs must name at least one step for replay' },
+        { status: 400 }
+      );
+    }
+
+    const result = action === 'resume'
+      ? await resumeFlow(runId)
+      : await replayFlow(runId, { rerun, inputs, params: body.params });
+
+    return NextResponse.json({
+      success: result.success,
+      data: result
+    });
+  } catch (error: any) {
+    console.error('Workflow Runs API Error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: error instanceof WorkflowRunError ? 400 : 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
+import { createSSEParser } from '@/lib/sse';
 
 interface Case {
   id: string;
@@ -28,6 +29,36 @@ interface ChatMessage {
   content: string;
 }
 
+// 后台深度分析任务的步骤进度（/api/chat/task/stream 推送）
+interface TaskStep {
+  id: string;
+  status: 'running' | 'succeeded' | 'failed' | 'skipped';
+  durationMs?: number;
+  preview?: any;
+  restored?: boolean;
+  error?: string;
+}
+
+interface TaskRun {
+  taskId: string;
+  sessionId: string;  // 任务创建者，查看和取消时带上
+  query: string;
+  status: string;
+  progress: number;
+  message: string;
+  steps: TaskStep[];
+}
+
+const STEP_LABELS: Record<string, string> = {
+  trend: '趋势发现',
+  collect: '案例采集',
+  translate: '场景转化',
+  insight: '洞察生成',
+  script: '话术生成',
+  value: '价值主张',
+  ingest: '数据入库'
+};
+
 export default function Home() {
   const [cases, setCases] = useState<Case[]>([]);
   const [loading, setLoading] = useState(true);
@@ -43,6 +74,8 @@ export default function Home() {
   ]);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);  // 服务端会话，用于多轮对话
+  const [taskRun, setTaskRun] = useState<TaskRun | null>(null);  // 进行中的深度分析任务
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   // ROI Calculator state
@@ -63,7 +96,7 @@ export default function Home() {
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, taskRun]);
 
   async function fetchCases() {
     try {
@@ -90,9 +123,17 @@ export default function Home() {
       const res = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: userMessage }),
+        body: JSON.stringify({ message: userMessage, stream: true, sessionId }),
       });
+
+      // 脑力风暴模式以 SSE 流式返回
+      if (res.headers.get('content-type')?.includes('text/event-stream') && res.body) {
+        await readChatStream(res.body, userMessage);
+        return;
+      }
+
       const data = await res.json();
+      if (data.sessionId) setSessionId(data.sessionId);
 
       // 检查是否是脑力风暴结果
       if (data.data?.type === 'brainstorm') {
@@ -110,6 +151,161 @@ export default function Home() {
     }
   }
 
+  // 读取流式回答：边接收边渲染，done 事件到达后替换为带来源的完整结果
+  async function readChatStream(body: ReadableStream<Uint8Array>, query: string) {
+    let partial = '';
+    let final: string | null = null;
+
+    const replaceLast = (content: string) => {
+      setMessages(prev => [...prev.slice(0, -1), { role: 'assistant', content }]);
+    };
+
+    setMessages(prev => [...prev, { role: 'assistant', content: '' }]);
+
+    const feed = createSSEParser(({ event, data }) => {
+      const payload = JSON.parse(data);
+      if (event === 'token') {
+        partial += payload.text;
+        replaceLast(partial);
+      } else if (event === 'done') {
+        if (payload.sessionId) setSessionId(payload.sessionId);
+        final = formatBrainstormResult(payload.data, query);
+      } else if (event === 'error') {
+        final = partial || '抱歉，请稍后再试。';
+      }
+    });
+
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      feed(decoder.decode(value, { stream: true }));
+    }
+
+    replaceLast(final ?? (partial || '分析完成，但没有返回结果。'));
+  }
+
+  // 深度分析：创建后台脑力风暴任务，实时展示各步骤进度
+  async function startDeepAnalysis() {
+    if (!inputMessage.trim() || isLoading) return;
+
+    const query = inputMessage.trim();
+    setInputMessage('');
+    setMessages(prev => [...prev, { role: 'user', content: query }]);
+    setIsLoading(true);
+
+    // 任务归属当前会话，还没有会话时在这里创建
+    const owner = sessionId || crypto.randomUUID();
+    if (!sessionId) setSessionId(owner);
+
+    try {
+      const res = await fetch('/api/chat/task', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query, sessionId: owner }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+
+      const taskId = data.data.taskId;
+      setTaskRun({ taskId, sessionId: owner, query, status: 'pending', progress: 0, message: data.data.message, steps: [] });
+      const content = await followTask(taskId, owner, query);
+      setMessages(prev => [...prev, { role: 'assistant', content }]);
+    } catch (error) {
+      setMessages(prev => [...prev, { role: 'assistant', content: '抱歉，深度分析失败，请稍后再试。' }]);
+    } finally {
+      setTaskRun(null);
+      setIsLoading(false);
+    }
+  }
+
+  // 订阅任务进度直到结束，连接超时后重新连接；返回要显示的结果文本
+  async function followTask(taskId: string, owner: string, query: string): Promise<string> {
+    const params = new URLSearchParams({ taskId, sessionId: owner });
+    while (true) {
+      const res = await fetch(`/api/chat/task/stream?${params}`);
+      if (!res.ok || !res.body) throw new Error('Task stream unavailable');
+
+      let outcome: string | null = null;
+      const feed = createSSEParser(({ event, data }) => {
+        const payload = JSON.parse(data);
+        if (event === 'progress') {
+          setTaskRun(prev => prev && {
+            ...prev,
+            status: payload.status,
+            progress: payload.progress,
+            message: payload.message
+          });
+        } else if (event === 'step') {
+          setTaskRun(prev => {
+            if (!prev) return prev;
+            const exists = prev.steps.some(s => s.id === payload.step.id);
+            const steps = exists
+              ? prev.steps.map(s => (s.id === payload.step.id ? payload.step : s))
+              : [...prev.steps, payload.step];
+            return { ...prev, steps };
+          });
+        } else if (event === 'done') {
+          outcome = formatBrainstormResult(toBrainstormView(payload.result), query);
+        } else if (event === 'error') {
+          outcome = `深度分析失败：${payload.error}`;
+        } else if (event === 'cancelled') {
+          outcome = '已取消深度分析。';
+        }
+      });
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        feed(decoder.decode(value, { stream: true }));
+      }
+
+      if (outcome !== null) return outcome;
+    }
+  }
+
+  // 取消深度分析，结果由进度流的 cancelled 事件返回
+  async function cancelTaskRun() {
+    if (!taskRun) return;
+    const params = new URLSearchParams({ taskId: taskRun.taskId, sessionId: taskRun.sessionId });
+    try {
+      await fetch(`/api/chat/task?${params}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('Cancel task error:', error);
+    }
+  }
+
+  // 工作流结果转为 formatBrainstormResult 使用的结构
+  function toBrainstormView(result: any): any {
+    if (!result) return null;
+    return {
+      trends: result.trends?.trends || [],
+      scenes: result.scenes || [],
+      salesScript: result.salesScript?.primaryScript?.content,
+      recommendations: (result.insights?.recommendations || [])
+        .map((r: any) => (typeof r === 'string' ? r : r.title || r.action))
+        .filter(Boolean)
+    };
+  }
+
+  // 步骤输出摘要，如 "5 条：AI 客服、销售助手"
+  function formatStepPreview(preview: any): string {
+    if (!preview) return '';
+    if (preview.totalNodes !== undefined) {
+      return `${preview.totalNodes} 个节点，${preview.totalEdges} 个关联`;
+    }
+    return Object.values(preview).map((value: any) => {
+      if (value?.titles) {
+        const titles = value.titles.filter(Boolean).slice(0, 3).join('、');
+        return `${value.count} 条${titles ? `：${titles}` : ''}`;
+      }
+      return typeof value === 'object' ? '' : String(value ?? '');
+    }).filter(Boolean).join('，');
+  }
+
   // 格式化脑力风暴结果
   function formatBrainstormResult(result: any, query: string): string {
     if (!result) return '分析完成，但没有返回结果。';
@@ -127,12 +323,24 @@ export default function Home() {
       if (result.sources?.length > 0) {
         lines.push(`\n## 📚 **参考来源**\n`);
         result.sources.forEach((s: any, i: number) => {
-          lines.push(`${i + 1}. ${s.title}`);
+          lines.push(`[${s.index ?? i + 1}] ${s.title}`);
+          if (s.sections?.length > 0) lines.push(`   章节: ${s.sections.join('；')}`);
           if (s.url) lines.push(`   链接: ${s.url}`);
           lines.push('');
         });
       }
 
+      // 引用校验：没有来源支撑的内容
+      const flagged = result.citations?.flagged || [];
+      if (flagged.length > 0) {
+        const grounded = Math.round((result.citations.grounded ?? 0) * 100);
+        lines.push(`\n⚠️ **以下内容未找到案例依据，请核实后再使用**（有依据的内容占 ${grounded}%）\n`);
+        flagged.slice(0, 5).forEach((claim: any) => {
+          lines.push(`- ${claim.text}（${claim.reason}）`);
+        });
+        if (flagged.length > 5) lines.push(`- 另有 ${flagged.length - 5} 处`);
+      }
+
       // 提示信息
       if (result.message) {
         lines.push(`\n💡 ${result.message}`);
@@ -840,7 +1048,54 @@ export default function Home() {
                 </div>
               </div>
             ))}
-            {isLoading && (
+            {taskRun && (
+              <div className="flex justify-start">
+                <div className="w-full bg-white/10 rounded-2xl px-4 py-3 text-gray-100">
+                  <div className="flex items-center justify-between text-xs text-gray-400 mb-2">
+                    <span>🧠 深度分析：{taskRun.message}</span>
+                    <span className="flex items-center gap-2">
+                      {taskRun.progress}%
+                      <button onClick={cancelTaskRun} className="text-gray-400 hover:text-red-400 transition-colors">
+                        取消
+                      </button>
+                    </span>
+                  </div>
+                  <div className="h-1 bg-white/10 rounded-full mb-3">
+                    <div
+                      className="h-1 bg-gradient-to-r from-blue-500 to-cyan-500 rounded-full transition-all"
+                      style={{ width: `${taskRun.progress}%` }}
+                    />
+                  </div>
+                  <ol className="space-y-2">
+                    {taskRun.steps.map(step => (
+                      <li key={step.id} className="flex gap-2 text-xs">
+                        <span className={
+                          step.status === 'succeeded' ? 'text-green-400'
+                            : step.status === 'failed' ? 'text-red-400'
+                              : step.status === 'skipped' ? 'text-gray-500'
+                                : 'text-cyan-400 animate-pulse'
+                        }>
+                          {{ running: '●', succeeded: '✓', failed: '✗', skipped: '–' }[step.status]}
+                        </span>
+                        <div className="flex-1">
+                          <div className="flex justify-between">
+                            <span>{STEP_LABELS[step.id] || step.id}{step.restored ? '（复用）' : ''}</span>
+                            {step.durationMs !== undefined && step.status !== 'skipped' && (
+                              <span className="text-gray-500">{(step.durationMs / 1000).toFixed(1)}s</span>
+                            )}
+                          </div>
+                          {step.preview && (
+                            <p className="text-gray-400">{formatStepPreview(step.preview)}</p>
+                          )}
+                          {step.error && <p className="text-red-400">{step.error}</p>}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              </div>
+            )}
+            {isLoading && !taskRun && messages[messages.length - 1]?.role === 'user' && (
               <div className="flex justify-start">
                 <div className="bg-white/10 rounded-2xl px-4 py-2">
                   <div className="flex gap-1">
@@ -865,6 +1120,14 @@ export default function Home() {
                 placeholder="输入消息..."
                 className="flex-1 px-4 py-2 bg-white/10 rounded-xl border border-white/10 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
+              <button
+                onClick={startDeepAnalysis}
+                disabled={isLoading || !inputMessage.trim()}
+                title="后台深度分析：趋势发现 → 案例采集 → 场景转化 → 洞察生成"
+                className="px-3 py-2 bg-white/10 text-gray-200 text-sm rounded-xl hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                深度
+              </button>
               <button
                 onClick={sendMessage}
                 disabled={isLoading || !inputMessage.trim()}
@@ -1,73 +1,746 @@
 /**
  * Async Task Manager
  * 异步任务管理器 - 后台收集资料，推送结果
+ *
+ * 任务保存在任务存储中（内存 / 本地 SQLite / Supabase），由 worker 领取执行（task-worker.ts）：
+ * - 领取时加租约，worker 执行期间续约；租约过期（worker 崩溃）的任务可被其他 worker 重新领取
+ * - 失败后按指数退避重试，超过最大次数标记为 failed
+ * - 优先级高的任务先执行，同优先级按可执行时间先后
+ * - 任务记录创建者（ownerId：用户或会话），只有创建者可以查看和取消；
+ *   排队中的任务直接取消，执行中的任务标记 cancelRequested，由 worker 中止（AbortSignal）
+ * - 带 callback 的任务结束后回调通知（task-webhook.ts），投递记录保存在任务上
  */
 
-// 任务存储（内存中，生产环境应该用 Redis）
-const tasks = new Map<string, AsyncTask>();
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { Database } from 'better-sqlite3';
 
-interface AsyncTask {
+export type TaskStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * 工作流任务的步骤进度
+ */
+export interface TaskStepProgress {
+  id: string;
+  status: 'running' | 'succeeded' | 'failed' | 'skipped';
+  startedAt?: string;
+  durationMs?: number;
+  preview?: any;  // 步骤输出摘要（如已发现的趋势）
+  restored?: boolean;  // 续跑时复用了上次的结果
+  error?: string;
+}
+
+/**
+ * 任务结束时的回调地址，secret 用于 HMAC 签名
+ */
+export interface TaskCallback {
+  url: string;
+  secret?: string;
+}
+
+/**
+ * 一次回调投递记录
+ */
+export interface WebhookDelivery {
+  id: string;           // 投递 ID，重试时不变（接收方据此去重）
+  event: string;        // task.completed / task.failed / task.cancelled
+  url: string;
+  attempt: number;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+  timestamp: number;
+}
+
+export interface AsyncTask {
   id: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  type: string;  // 任务类型，对应 worker 中注册的处理函数（brainstorm、case_search 等）
+  payload: Record<string, any>;
+  ownerId?: string;      // 创建者（用户 ID 或会话 ID），为空时（内部任务）不能通过接口访问
+  status: TaskStatus;
+  priority: number;      // 越大越先执行
+  attempts: number;      // 已领取次数
+  maxAttempts: number;
+  runAt: number;         // 最早可执行时间（重试退避）
+  leaseOwner?: string;
+  leaseExpiresAt?: number;
+  cancelRequested?: boolean;  // 执行中被取消，等待 worker 中止
+  callback?: TaskCallback;
+  webhookDeliveries?: WebhookDelivery[];  // 最近的回调投递记录
   progress: number;
   message: string;
+  steps?: TaskStepProgress[];  // 按开始顺序
   result?: any;
   error?: string;
   createdAt: number;
   updatedAt: number;
 }
 
+export interface TaskFilter {
+  status?: TaskStatus;
+  type?: string;
+  limit?: number;
+}
+
+/**
+ * 任务存储接口
+ */
+export interface TaskStore {
+  name: string;
+  insert(task: AsyncTask): Promise<void>;
+  get(id: string): Promise<AsyncTask | null>;
+  // 领取一个可执行的任务（pending 且到期，或租约过期），attempts + 1
+  claim(workerId: string, leaseMs: number, types?: string[]): Promise<AsyncTask | null>;
+  // 更新任务；传 leaseOwner 时只在仍持有租约时更新，返回是否更新成功
+  update(id: string, patch: Partial<AsyncTask>, leaseOwner?: string): Promise<boolean>;
+  list(filter?: TaskFilter): Promise<AsyncTask[]>;
+  // 删除 before 之前结束的任务
+  purge(before: number): Promise<number>;
+  // 取消任务：排队中直接取消，执行中标记 cancelRequested；返回取消后的任务
+  cancel(id: string): Promise<AsyncTask | null>;
+}
+
+/**
+ * 任务队列配置
+ */
+export interface TaskQueueConfig {
+  store: 'memory' | 'sqlite' | 'supabase';
+  sqlitePath: string;     // 本地 SQLite 文件
+  leaseMs: number;        // 租约时长，worker 执行期间定期续约
+  maxAttempts: number;
+  retryBaseMs: number;    // 首次重试等待，之后翻倍
+  retryMaxMs: number;
+  retentionMs: number;    // 结束的任务保留时长
+  inlineWorker: boolean;  // 创建任务后在当前进程执行（没有独立 worker 时）
+  cancelPollMs: number;   // worker 检查取消请求的间隔
+}
+
+/**
+ * 从环境变量读取配置（配置了 Supabase 时默认写 async_tasks 表；内存存储默认在当前进程执行）
+ */
+export function getTaskQueueConfig(): TaskQueueConfig {
+  const env = process.env;
+  const store = env.TASK_STORE || (env.NEXT_PUBLIC_SUPABASE_URL ? 'supabase' : 'memory');
+  // file 为旧配置名，使用 SQLite
+  const resolved = store === 'supabase' ? 'supabase' : store === 'sqlite' || store === 'file' ? 'sqlite' : 'memory';
+
+  return {
+    store: resolved,
+    sqlitePath: env.TASK_SQLITE_PATH || path.join(process.cwd(), '.data', 'tasks.db'),
+    leaseMs: parseInt(env.TASK_LEASE_MS || '60000'),
+    maxAttempts: parseInt(env.TASK_MAX_ATTEMPTS || '3'),
+    retryBaseMs: parseInt(env.TASK_RETRY_BASE_MS || '5000'),
+    retryMaxMs: parseInt(env.TASK_RETRY_MAX_MS || '300000'),
+    retentionMs: parseInt(env.TASK_RETENTION_MS || String(24 * 60 * 60 * 1000)),
+    inlineWorker: env.TASK_INLINE_WORKER
+      ? env.TASK_INLINE_WORKER === 'true'
+      : resolved === 'memory',
+    cancelPollMs: parseInt(env.TASK_CANCEL_POLL_MS || '1000')
+  };
+}
+
+/**
+ * 任务不属于当前用户
+ */
+export class TaskAccessError extends Error {
+  constructor(public taskId: string) {
+    super(`Task ${taskId} belongs to another user`);
+    this.name = 'TaskAccessError';
+  }
+}
+
+/**
+ * 从任务列表中选出下一个可领取的任务，租约过期且已用完次数的任务标记为失败，
+ * 租约过期且已请求取消的任务标记为取消
+ */
+function claimFrom(
+  tasks: AsyncTask[],
+  workerId: string,
+  leaseMs: number,
+  types?: string[]
+): AsyncTask | null {
+  const now = Date.now();
+  const expired = (t: AsyncTask) => t.status === 'processing' && (t.leaseExpiresAt || 0) < now;
+
+  for (const task of tasks) {
+    if (expired(task) && task.cancelRequested) {
+      Object.assign(task, {
+        status: 'cancelled',
+        message: '任务已取消',
+        leaseOwner: undefined,
+        leaseExpiresAt: undefined,
+        updatedAt: now
+      });
+    } else if (expired(task) && task.attempts >= task.maxAttempts) {
+      Object.assign(task, {
+        status: 'failed',
+        error: task.error || 'Lease expired',
+        leaseOwner: undefined,
+        leaseExpiresAt: undefined,
+        updatedAt: now
+      });
+    }
+  }
+
+  const candidates = tasks
+    .filter(t => (t.status === 'pending' && t.runAt <= now) || expired(t))
+    .filter(t => !types || types.includes(t.type))
+    .sort((a, b) => b.priority - a.priority || a.runAt - b.runAt);
+
+  const task = candidates[0];
+  if (!task) return null;
+
+  Object.assign(task, {
+    status: 'processing',
+    leaseOwner: workerId,
+    leaseExpiresAt: now + leaseMs,
+    attempts: task.attempts + 1,
+    updatedAt: now
+  });
+  return task;
+}
+
+function applyPatch(task: AsyncTask, patch: Partial<AsyncTask>, leaseOwner?: string): boolean {
+  if (leaseOwner && task.leaseOwner !== leaseOwner) return false;
+  Object.assign(task, patch, { updatedAt: Date.now() });
+  return true;
+}
+
+function filterTasks(tasks: AsyncTask[], filter: TaskFilter = {}): AsyncTask[] {
+  return tasks
+    .filter(t => (!filter.status || t.status === filter.status) && (!filter.type || t.type === filter.type))
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, filter.limit || 50);
+}
+
+function isFinished(task: AsyncTask): boolean {
+  return task.status === 'completed' || task.status === 'failed' || task.status === 'cancelled';
+}
+
+function requestCancel(task: AsyncTask): void {
+  const now = Date.now();
+  if (task.status === 'pending') {
+    Object.assign(task, { status: 'cancelled', message: '任务已取消', updatedAt: now });
+  } else if (task.status === 'processing') {
+    Object.assign(task, { cancelRequested: true, message: '正在取消...', updatedAt: now });
+  }
+}
+
+/**
+ * 内存存储（单进程，重启后丢失）
+ */
+export class MemoryTaskStore implements TaskStore {
+  name = 'memory';
+  private tasks = new Map<string, AsyncTask>();
+
+  async insert(task: AsyncTask): Promise<void> {
+    this.tasks.set(task.id, { ...task });
+  }
+
+  async get(id: string): Promise<AsyncTask | null> {
+    const task = this.tasks.get(id);
+    return task ? { ...task } : null;
+  }
+
+  async claim(workerId: string, leaseMs: number, types?: string[]): Promise<AsyncTask | null> {
+    const task = claimFrom(Array.from(this.tasks.values()), workerId, leaseMs, types);
+    return task ? { ...task } : null;
+  }
+
+  async update(id: string, patch: Partial<AsyncTask>, leaseOwner?: string): Promise<boolean> {
+    const task = this.tasks.get(id);
+    return task ? applyPatch(task, patch, leaseOwner) : false;
+  }
+
+  async list(filter?: TaskFilter): Promise<AsyncTask[]> {
+    return filterTasks(Array.from(this.tasks.values()), filter).map(t => ({ ...t }));
+  }
+
+  async purge(before: number): Promise<number> {
+    let removed = 0;
+    for (const task of Array.from(this.tasks.values())) {
+      if (isFinished(task) && task.updatedAt < before) {
+        this.tasks.delete(task.id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async cancel(id: string): Promise<AsyncTask | null> {
+    const task = this.tasks.get(id);
+    if (!task) return null;
+    requestCancel(task);
+    return { ...task };
+  }
+}
+
+/**
+ * SQLite 存储：同一台机器上的多个 worker 进程共享一个文件；
+ * 领取、更新、取消在写事务（BEGIN IMMEDIATE）中完成，只读写涉及的任务行
+ */
+export class SqliteTaskStore implements TaskStore {
+  name = 'sqlite';
+  private db?: Database;
+
+  constructor(private file: string) {}
+
+  private async connect(): Promise<Database> {
+    if (!this.db) {
+      const { default: Sqlite } = await import('better-sqlite3');
+      if (this.file !== ':memory:') fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const db = new Sqlite(this.file);
+      db.pragma('journal_mode = WAL');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS async_tasks (
+          id TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          status TEXT NOT NULL,
+          priority INTEGER NOT NULL DEFAULT 0,
+          run_at INTEGER NOT NULL,
+          lease_expires_at INTEGER,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          data TEXT NOT NULL  -- 完整任务（JSON）
+        );
+        CREATE INDEX IF NOT EXISTS idx_async_tasks_claim ON async_tasks(status, priority DESC, run_at);
+      `);
+      this.db = db;
+    }
+    return this.db;
+  }
+
+  private write(db: Database, task: AsyncTask): void {
+    db.prepare(`
+      INSERT INTO async_tasks (id, type, status, priority, run_at, lease_expires_at, created_at, updated_at, data)
+      VALUES (@id, @type, @status, @priority, @run_at, @lease_expires_at, @created_at, @updated_at, @data)
+      ON CONFLICT(id) DO UPDATE SET
+        status = excluded.status, priority = excluded.priority, run_at = excluded.run_at,
+        lease_expires_at = excluded.lease_expires_at, updated_at = excluded.updated_at, data = excluded.data
+    `).run({
+      id: task.id,
+      type: task.type,
+      status: task.status,
+      priority: task.priority,
+      run_at: task.runAt,
+      lease_expires_at: task.leaseExpiresAt ?? null,
+      created_at: task.createdAt,
+      updated_at: task.updatedAt,
+      data: JSON.stringify(task)
+    });
+  }
+
+  private read(db: Database, id: string): AsyncTask | null {
+    const row = db.prepare('SELECT data FROM async_tasks WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async insert(task: AsyncTask): Promise<void> {
+    const db = await this.connect();
+    this.write(db, task);
+  }
+
+  async get(id: string): Promise<AsyncTask | null> {
+    return this.read(await this.connect(), id);
+  }
+
+  async claim(workerId: string, leaseMs: number, types?: string[]): Promise<AsyncTask | null> {
+    const db = await this.connect();
+    return db.transaction(() => {
+      const now = Date.now();
+      // 只加载可领取的任务：pending 且到期，或租约过期
+      const rows = db.prepare(`
+        SELECT data FROM async_tasks
+        WHERE (status = 'pending' AND run_at <= ?) OR (status = 'processing' AND COALESCE(lease_expires_at, 0) < ?)
+      `).all(now, now) as { data: string }[];
+      const tasks: AsyncTask[] = rows.map(row => JSON.parse(row.data));
+      const before = new Map(tasks.map(task => [task.id, task.updatedAt]));
+
+      const claimed = claimFrom(tasks, workerId, leaseMs, types);
+      // 写回领取的任务和被标记为失败 / 取消的过期任务
+      for (const task of tasks) {
+        if (task.updatedAt !== before.get(task.id) || task === claimed) this.write(db, task);
+      }
+      return claimed;
+    }).immediate();
+  }
+
+  async update(id: string, patch: Partial<AsyncTask>, leaseOwner?: string): Promise<boolean> {
+    const db = await this.connect();
+    return db.transaction(() => {
+      const task = this.read(db, id);
+      if (!task || !applyPatch(task, patch, leaseOwner)) return false;
+      this.write(db, task);
+      return true;
+    }).immediate();
+  }
+
+  async list(filter: TaskFilter = {}): Promise<AsyncTask[]> {
+    const db = await this.connect();
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.status) {
+      conditions.push('status = ?');
+      params.push(filter.status);
+    }
+    if (filter.type) {
+      conditions.push('type = ?');
+      params.push(filter.type);
+    }
+
+    const rows = db.prepare(`
+      SELECT data FROM async_tasks
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at DESC
+      LIMIT ?
+    `).all(...params, filter.limit || 50) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  async purge(before: number): Promise<number> {
+    const db = await this.connect();
+    return db.prepare(`
+      DELETE FROM async_tasks WHERE status IN ('completed', 'failed', 'cancelled') AND updated_at < ?
+    `).run(before).changes;
+  }
+
+  async cancel(id: string): Promise<AsyncTask | null> {
+    const db = await this.connect();
+    return db.transaction(() => {
+      const task = this.read(db, id);
+      if (!task) return null;
+      requestCancel(task);
+      this.write(db, task);
+      return task;
+    }).immediate();
+  }
+}
+
+/**
+ * Supabase 存储（async_tasks 表），领取通过 claim_task 函数（FOR UPDATE SKIP LOCKED）保证原子性
+ */
+export class SupabaseTaskStore implements TaskStore {
+  name = 'supabase';
+
+  private async client() {
+    return (await import('../db')).supabaseAdmin;
+  }
+
+  async insert(task: AsyncTask): Promise<void> {
+    const supabaseAdmin = await this.client();
+    const { error } = await supabaseAdmin.from('async_tasks').insert(this.toRow(task));
+    if (error) throw error;
+  }
+
+  async get(id: string): Promise<AsyncTask | null> {
+    const supabaseAdmin = await this.client();
+    const { data, error } = await supabaseAdmin.from('async_tasks').select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data ? this.toTask(data) : null;
+  }
+
+  async claim(workerId: string, leaseMs: number, types?: string[]): Promise<AsyncTask | null> {
+    const supabaseAdmin = await this.client();
+    const { data, error } = await supabaseAdmin.rpc('claim_task', {
+      p_worker: workerId,
+      p_lease_ms: leaseMs,
+      p_types: types || null
+    });
+    if (error) throw error;
+    const row = Array.isArray(data) ? data[0] : data;
+    return row ? this.toTask(row) : null;
+  }
+
+  async update(id: string, patch: Partial<AsyncTask>, leaseOwner?: string): Promise<boolean> {
+    const supabaseAdmin = await this.client();
+    const row = this.toRow({ ...patch, updatedAt: Date.now() });
+    let query = supabaseAdmin.from('async_tasks').update(row).eq('id', id);
+    if (leaseOwner) query = query.eq('lease_owner', leaseOwner);
+
+    const { data, error } = await query.select('id');
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  async list(filter: TaskFilter = {}): Promise<AsyncTask[]> {
+    const supabaseAdmin = await this.client();
+    let query = supabaseAdmin
+      .from('async_tasks')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(filter.limit || 50);
+
+    if (filter.status) query = query.eq('status', filter.status);
+    if (filter.type) query = query.eq('type', filter.type);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map((row: any) => this.toTask(row));
+  }
+
+  async purge(before: number): Promise<number> {
+    const supabaseAdmin = await this.client();
+    const { data, error } = await supabaseAdmin
+      .from('async_tasks')
+      .delete()
+      .in('status', ['completed', 'failed', 'cancelled'])
+      .lt('updated_at', new Date(before).toISOString())
+      .select('id');
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  async cancel(id: string): Promise<AsyncTask | null> {
+    const supabaseAdmin = await this.client();
+    const updatedAt = new Date().toISOString();
+
+    // 按当前状态条件更新，避免与 worker 领取冲突
+    const pending = await supabaseAdmin
+      .from('async_tasks')
+      .update({ status: 'cancelled', message: '任务已取消', updated_at: updatedAt })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('*');
+    if (pending.error) throw pending.error;
+    if (pending.data?.length) return this.toTask(pending.data[0]);
+
+    const processing = await supabaseAdmin
+      .from('async_tasks')
+      .update({ cancel_requested: true, message: '正在取消...', updated_at: updatedAt })
+      .eq('id', id)
+      .eq('status', 'processing')
+      .select('*');
+    if (processing.error) throw processing.error;
+    if (processing.data?.length) return this.toTask(processing.data[0]);
+
+    return this.get(id);
+  }
+
+  // 只转换出现的字段，用于插入和部分更新
+  private toRow(task: Partial<AsyncTask>): Record<string, any> {
+    const time = (ms?: number) => (ms === undefined ? null : new Date(ms).toISOString());
+    const columns: Record<string, [string, (v: any) => any]> = {
+      id: ['id', v => v],
+      type: ['type', v => v],
+      payload: ['payload', v => v],
+      ownerId: ['owner_id', v => v ?? null],
+      status: ['status', v => v],
+      priority: ['priority', v => v],
+      attempts: ['attempts', v => v],
+      maxAttempts: ['max_attempts', v => v],
+      runAt: ['run_at', time],
+      leaseOwner: ['lease_owner', v => v ?? null],
+      leaseExpiresAt: ['lease_expires_at', time],
+      cancelRequested: ['cancel_requested', v => !!v],
+      callback: ['callback', v => v ?? null],
+      webhookDeliveries: ['webhook_deliveries', v => v ?? null],
+      progress: ['progress', v => v],
+      message: ['message', v => v],
+      steps: ['steps', v => v ?? null],
+      result: ['result', v => v ?? null],
+      error: ['error', v => v ?? null],
+      createdAt: ['created_at', time],
+      updatedAt: ['updated_at', time]
+    };
+
+    const row: Record<string, any> = {};
+    for (const [key, value] of Object.entries(task)) {
+      const column = columns[key];
+      if (column) row[column[0]] = column[1](value);
+    }
+    return row;
+  }
+
+  private toTask(row: any): AsyncTask {
+    const ms = (value?: string | null) => (value ? new Date(value).getTime() : undefined);
+    return {
+      id: row.id,
+      type: row.type,
+      payload: row.payload || {},
+      ownerId: row.owner_id || undefined,
+      status: row.status,
+      priority: row.priority,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      runAt: ms(row.run_at)!,
+      leaseOwner: row.lease_owner || undefined,
+      leaseExpiresAt: ms(row.lease_expires_at),
+      cancelRequested: row.cancel_requested || undefined,
+      callback: row.callback || undefined,
+      webhookDeliveries: row.webhook_deliveries || undefined,
+      progress: row.progress,
+      message: row.message,
+      steps: row.steps || undefined,
+      result: row.result ?? undefined,
+      error: row.error || undefined,
+      createdAt: ms(row.created_at)!,
+      updatedAt: ms(row.updated_at)!
+    };
+  }
+}
+
+let taskStore: TaskStore | undefined;
+
+/**
+ * 获取全局任务存储
+ */
+export function getTaskStore(): TaskStore {
+  if (!taskStore) {
+    const config = getTaskQueueConfig();
+    taskStore = config.store === 'supabase'
+      ? new SupabaseTaskStore()
+      : config.store === 'sqlite'
+        ? new SqliteTaskStore(config.sqlitePath)
+        : new MemoryTaskStore();
+  }
+  return taskStore;
+}
+
 /**
  * 创建异步任务
  */
-export function createTask(): string {
-  const taskId = `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  tasks.set(taskId, {
-    id: taskId,
+export async function createTask(options: {
+  type: string;
+  payload?: Record<string, any>;
+  ownerId?: string;
+  callback?: TaskCallback;
+  priority?: number;
+  maxAttempts?: number;
+  delayMs?: number;
+}): Promise<AsyncTask> {
+  const config = getTaskQueueConfig();
+  const now = Date.now();
+  const task: AsyncTask = {
+    id: `task_${randomUUID()}`,
+    type: options.type,
+    payload: options.payload || {},
+    ownerId: options.ownerId,
+    callback: options.callback,
     status: 'pending',
+    priority: options.priority || 0,
+    attempts: 0,
+    maxAttempts: options.maxAttempts || config.maxAttempts,
+    runAt: now + (options.delayMs || 0),
     progress: 0,
     message: '任务已创建',
-    createdAt: Date.now(),
-    updatedAt: Date.now()
-  });
-  return taskId;
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await getTaskStore().insert(task);
+  return task;
 }
 
 /**
  * 更新任务状态
  */
-export function updateTask(taskId: string, updates: Partial<AsyncTask>): void {
-  const task = tasks.get(taskId);
-  if (task) {
-    Object.assign(task, updates, { updatedAt: Date.now() });
-    tasks.set(taskId, task);
+export async function updateTask(
+  taskId: string,
+  updates: Partial<AsyncTask>,
+  leaseOwner?: string
+): Promise<boolean> {
+  return getTaskStore().update(taskId, updates, leaseOwner);
+}
+
+/**
+ * 检查访问权限：只有创建者可以访问，没有创建者的内部任务不对外开放
+ */
+function checkOwner(task: AsyncTask, ownerId: string): void {
+  if (!ownerId || task.ownerId !== ownerId) {
+    throw new TaskAccessError(task.id);
   }
 }
 
 /**
- * 获取任务状态
+ * 获取任务状态，任务属于其他用户时抛出 TaskAccessError
  */
-export function getTask(taskId: string): AsyncTask | undefined {
-  return tasks.get(taskId);
+export async function getTask(taskId: string, ownerId: string): Promise<AsyncTask | null> {
+  const task = await getTaskStore().get(taskId);
+  if (task) checkOwner(task, ownerId);
+  return task;
 }
 
 /**
- * 清理过期任务（超过 30 分钟）
+ * 取消任务，返回取消后的任务（已结束的任务不变）；任务属于其他用户时抛出 TaskAccessError
  */
-export function cleanupTasks(): void {
-  const now = Date.now();
-  const maxAge = 30 * 60 * 1000; // 30 分钟
+export async function cancelTask(taskId: string, ownerId: string): Promise<AsyncTask | null> {
+  const task = await getTask(taskId, ownerId);
+  if (!task) return null;
+  return getTaskStore().cancel(taskId);
+}
 
-  const taskIds = Array.from(tasks.keys());
-  for (const id of taskIds) {
-    const task = tasks.get(id);
-    if (task && now - task.createdAt > maxAge) {
-      tasks.delete(id);
-    }
+/**
+ * 领取下一个任务
+ */
+export async function claimTask(workerId: string, types?: string[]): Promise<AsyncTask | null> {
+  return getTaskStore().claim(workerId, getTaskQueueConfig().leaseMs, types);
+}
+
+/**
+ * 完成任务
+ */
+export async function completeTask(task: AsyncTask, workerId: string, result: any): Promise<boolean> {
+  return updateTask(task.id, {
+    status: 'completed',
+    progress: 100,
+    message: '分析完成',
+    result,
+    error: undefined,
+    leaseOwner: undefined,
+    leaseExpiresAt: undefined
+  }, workerId);
+}
+
+/**
+ * 任务失败：未超过最大次数时按指数退避重新排队，retry: false 时直接失败
+ */
+export async function failTask(
+  task: AsyncTask,
+  workerId: string,
+  error: string,
+  options: { retry?: boolean } = {}
+): Promise<boolean> {
+  const config = getTaskQueueConfig();
+  const canRetry = options.retry !== false && task.attempts < task.maxAttempts;
+
+  if (canRetry) {
+    const delay = Math.min(config.retryBaseMs * Math.pow(2, task.attempts - 1), config.retryMaxMs);
+    return updateTask(task.id, {
+      status: 'pending',
+      runAt: Date.now() + delay,
+      message: `第 ${task.attempts} 次执行失败，${Math.round(delay / 1000)} 秒后重试`,
+      error,
+      leaseOwner: undefined,
+      leaseExpiresAt: undefined
+    }, workerId);
   }
+
+  return updateTask(task.id, {
+    status: 'failed',
+    message: '任务执行失败',
+    error,
+    leaseOwner: undefined,
+    leaseExpiresAt: undefined
+  }, workerId);
 }
 
-// 每小时清理一次
-setInterval(cleanupTasks, 60 * 60 * 1000);
+/**
+ * 执行中的任务已中止
+ */
+export async function markTaskCancelled(task: AsyncTask, workerId: string): Promise<boolean> {
+  return updateTask(task.id, {
+    status: 'cancelled',
+    message: '任务已取消',
+    leaseOwner: undefined,
+    leaseExpiresAt: undefined
+  }, workerId);
+}
 
-export default {};
+/**
+ * 清理已结束的过期任务（默认保留 TASK_RETENTION_MS）
+ */
+export async function cleanupTasks(maxAgeMs: number = getTaskQueueConfig().retentionMs): Promise<number> {
+  return getTaskStore().purge(Date.now() - maxAgeMs);
+}
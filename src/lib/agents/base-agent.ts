@@ -3,8 +3,24 @@
  * 基础 Agent 类
  */
 
-import { AgentInput, AgentOutput, BaseAgent, AgentCapability } from './types';
-import { callQwen } from '../llm';
+import { AgentInput, AgentOutput, BaseAgent, AgentCapability, AgentContext } from './types';
+import { z } from 'zod';
+import {
+  callQwen,
+  callStructured,
+  callWithTools,
+  LLMCallOptions,
+  ModelTier,
+  PromptInput,
+  StructuredOptions,
+  StructuredResult,
+  ToolLoopOptions,
+  ToolLoopResult
+} from '../llm';
+import { listPrompts, summarizeLLMCalls, trackLLMCalls } from '../llm-tracking';
+import { PromptVariables, RenderedPrompt, renderPrompt } from '../prompts';
+import { AgentTool } from '../tools';
+import { formatConversation } from '../conversation';
 
 /**
  * 基础 Agent 抽象类
@@ -14,11 +30,33 @@ export abstract class BaseAgentClass implements BaseAgent {
   abstract description: string;
   abstract capabilities: AgentCapability[];
 
+  /**
+   * 可供模型调用的工具，子类按需声明
+   */
+  tools: AgentTool[] = [];
+
   /**
    * 执行任务 - 子类必须实现
    */
   abstract execute(input: AgentInput): Promise<AgentOutput>;
 
+  /**
+   * 执行任务并在 metadata 中附上本次 LLM 调用统计（usage：次数、缓存命中、token、延迟、费用）、
+   * 用到的模板版本（prompts）和工具调用记录（toolCalls）
+   */
+  async run(input: AgentInput): Promise<AgentOutput> {
+    const { result, records, toolCalls } = await trackLLMCalls(() => this.execute(input));
+    return {
+      ...result,
+      metadata: {
+        ...result.metadata,
+        usage: summarizeLLMCalls(records),
+        prompts: listPrompts(records),
+        toolCalls
+      }
+    };
+  }
+
   /**
    * 检查是否可以处理该任务
    */
@@ -31,21 +69,55 @@ export abstract class BaseAgentClass implements BaseAgent {
   }
 
   /**
-   * 调用 LLM
+   * 调用 LLM（按 Agent 名称解析实际模型，见 LLM_AGENT_MODELS）
+   */
+  protected async callLLM(
+    prompt: PromptInput,
+    model: ModelTier = 'qwen-plus',
+    options: Omit<LLMCallOptions, 'agent'> = {}
+  ): Promise<string> {
+    return await callQwen(prompt, model, { ...options, agent: this.name });
+  }
+
+  /**
+   * 调用 LLM 并按 schema 返回结构化结果（失败时自动修复，最终降级为 fallback）
+   */
+  protected async callStructuredLLM<S extends z.ZodTypeAny, F = z.infer<S>>(
+    prompt: PromptInput,
+    schema: S,
+    options: Omit<StructuredOptions<F>, 'agent'>
+  ): Promise<StructuredResult<z.infer<S> | F>> {
+    return await callStructured(prompt, schema, { ...options, agent: this.name });
+  }
+
+  /**
+   * 调用 LLM 并允许模型调用本 Agent 声明的工具（轮数受 maxSteps 限制）
    */
-  protected async callLLM(prompt: string, model: string = 'qwen-plus'): Promise<string> {
-    return await callQwen(prompt, model as any);
+  protected async callLLMWithTools(
+    prompt: PromptInput,
+    options: Omit<ToolLoopOptions, 'agent'> = {}
+  ): Promise<ToolLoopResult> {
+    return await callWithTools(prompt, this.tools, { ...options, agent: this.name });
   }
 
   /**
-   * 构建提示词
+   * 渲染模板注册表中的提示词（见 prompts/），变量缺失或类型不符时抛出 PromptVariableError
    */
-  protected buildPrompt(template: string, params: Record<string, any>): string {
-    let prompt = template;
-    for (const [key, value] of Object.entries(params)) {
-      prompt = prompt.replace(new RegExp(`\\{${key}\\}`, 'g'), String(value));
-    }
-    return prompt;
+  protected renderPrompt(name: string, variables: PromptVariables, locale?: string): RenderedPrompt {
+    return renderPrompt(name, variables, { locale });
+  }
+
+  /**
+   * 在提示词前加上会话上下文（摘要 + 最近对话），没有历史时原样返回
+   */
+  protected withHistory(prompt: PromptInput, context?: AgentContext): PromptInput {
+    const history = context
+      ? formatConversation({ summary: context.summary, messages: context.conversationHistory || [] })
+      : '';
+    if (!history) return prompt;
+
+    const text = `${history}\n\n${typeof prompt === 'string' ? prompt : prompt.text}`;
+    return typeof prompt === 'string' ? text : { ...prompt, text };
   }
 
   /**
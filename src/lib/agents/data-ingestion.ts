@@ -1,26 +1,25 @@
 /**
  * Data Ingestion Agent
- * 数据入库 Agent - 将脑力风暴收集的数据导入知识图谱
+ * 数据入库 Agent - 将脑力风暴收集的数据导入知识图谱（graph-store.ts）
+ *
+ * 节点按类型和名称去重（以写入结果为准）；案例关联行业、技术、痛点和场景，趋势关联行业、技术和典型案例，
+ * 场景关联行业和同行业同用例的案例。边的权重和来源说明关联由什么数据、哪种方法得出
  */
 
 import { BaseAgentClass } from './base-agent';
 import { AgentInput, AgentOutput } from './types';
-import { callQwen } from '../llm';
-
-/**
- * 知识图谱数据类型
- */
-interface KnowledgeNode {
-  id: string;
-  type: 'case' | 'trend' | 'scenario' | 'industry' | 'pain_point' | 'technology';
-  name: string;
-  description: string;
-  metadata: Record<string, any>;
-  relatedNodes: string[];
-  source: string;
-  collectedAt: string;
-  qualityScore: number;
-}
+import { StructuredResult } from '../llm';
+import {
+  EdgeProvenance,
+  GraphEdge,
+  GraphNode,
+  GraphNodeType,
+  GraphRelation,
+  createEdge,
+  getGraphStore,
+  nodeId
+} from '../graph-store';
+import { z } from 'zod';
 
 /**
  * 数据入库结果
@@ -32,6 +31,21 @@ interface IngestionResult {
   errors: string[];
 }
 
+/**
+ * 案例结构化信息
+ */
+const CaseStructureSchema = z.object({
+  industry: z.string(),
+  useCase: z.string(),
+  painPoints: z.array(z.string()),
+  benefits: z.array(z.string()),
+  technologies: z.array(z.string()),
+  companySize: z.enum(['大', '中', '小']),
+  complexity: z.enum(['高', '中', '低'])
+});
+
+type CaseStructure = z.infer<typeof CaseStructureSchema>;
+
 /**
  * Data Ingestion Agent
  */
@@ -103,31 +117,31 @@ export class DataIngestionAgent extends BaseAgentClass {
 
     for (const trend of trends) {
       try {
-        // 检查是否已存在
-        if (await this.checkExists('trend', trend.name)) {
+        // 创建趋势节点（已存在时跳过）
+        const node = await this.createTrendNode(trend);
+        if (!await this.saveToKnowledgeGraph(node)) {
           result.duplicatesSkipped++;
           continue;
         }
 
-        // 创建趋势节点
-        const node = await this.createTrendNode(trend);
-        await this.saveToKnowledgeGraph(node);
-
         result.nodesCreated++;
 
+        const provenance = this.provenance(node, 'input');
+
         // 建立行业关联
         if (trend.industry) {
-          await this.linkToIndustry(node.id, trend.industry);
-          result.edgesCreated++;
+          result.edgesCreated += await this.linkToIndustry(node, trend.industry, provenance);
         }
 
         // 建立技术关联
         if (trend.technologies) {
           for (const tech of trend.technologies) {
-            await this.linkToTechnology(node.id, tech);
-            result.edgesCreated++;
+            result.edgesCreated += await this.linkToTechnology(node, tech, provenance);
           }
         }
+
+        // 关联已入库的典型案例
+        result.edgesCreated += await this.linkTrendToCases(node);
       } catch (error: any) {
         result.errors.push(`Trend ${trend.name}: ${error.message}`);
       }
@@ -149,38 +163,55 @@ export class DataIngestionAgent extends BaseAgentClass {
 
     for (const caseItem of cases) {
       try {
-        // 检查是否已存在（基于标题去重）
-        if (await this.checkExists('case', caseItem.title)) {
+        // 已入库的案例不再调用 LLM 抽取（去重以写入结果为准）
+        if (await this.checkExists('case', caseItem.title || '未命名案例')) {
           result.duplicatesSkipped++;
           continue;
         }
 
         // 使用 LLM 提取结构化信息
-        const structured = await this.extractCaseStructure(caseItem);
-
-        // 创建案例节点
+        const extraction = await this.extractCaseStructure(caseItem);
+        const structured = {
+          ...caseItem,
+          ...extraction.data,
+          structureFallback: extraction.usedFallback
+        };
+
+        // 创建案例节点（抽取期间已被其他请求写入时跳过）
         const node = await this.createCaseNode(structured);
-        await this.saveToKnowledgeGraph(node);
+        if (!await this.saveToKnowledgeGraph(node)) {
+          result.duplicatesSkipped++;
+          continue;
+        }
 
         result.nodesCreated++;
 
-        // 建立关联
+        // 建立关联：降级的默认结构只是占位，关联权重较低
+        const provenance = this.provenance(node, extraction.usedFallback ? 'llm_fallback' : 'llm_extraction');
+        const weight = extraction.usedFallback ? 0.3 : 1;
+
         if (structured.industry) {
-          await this.linkToIndustry(node.id, structured.industry);
-          result.edgesCreated++;
+          result.edgesCreated += await this.linkToIndustry(node, structured.industry, provenance, weight);
+        }
+
+        if (structured.technologies) {
+          for (const tech of structured.technologies) {
+            result.edgesCreated += await this.linkToTechnology(node, tech, provenance, weight);
+          }
         }
 
         if (structured.useCase) {
-          await this.linkToScenario(node.id, structured.industry, structured.useCase);
-          result.edgesCreated++;
+          result.edgesCreated += await this.linkToScenario(node, structured.industry, structured.useCase, provenance, weight);
         }
 
         if (structured.painPoints) {
           for (const pain of structured.painPoints) {
-            await this.linkToPainPoint(node.id, pain);
-            result.edgesCreated++;
+            result.edgesCreated += await this.linkToPainPoint(node, pain, provenance, weight);
           }
         }
+
+        // 已入库的趋势中把该案例列为典型案例的
+        result.edgesCreated += await this.linkCaseToTrends(node);
       } catch (error: any) {
         result.errors.push(`Case ${caseItem.title}: ${error.message}`);
       }
@@ -202,23 +233,22 @@ export class DataIngestionAgent extends BaseAgentClass {
 
     for (const scene of scenes) {
       try {
-        // 检查是否已存在
-        if (await this.checkExists('scenario', scene.name)) {
+        // 创建场景节点（已存在时跳过，占位节点被替换）
+        const node = await this.createSceneNode(scene);
+        if (!await this.saveToKnowledgeGraph(node)) {
           result.duplicatesSkipped++;
           continue;
         }
 
-        // 创建场景节点
-        const node = await this.createSceneNode(scene);
-        await this.saveToKnowledgeGraph(node);
-
         result.nodesCreated++;
 
         // 建立行业关联
         if (scene.industry) {
-          await this.linkToIndustry(node.id, scene.industry);
-          result.edgesCreated++;
+          result.edgesCreated += await this.linkToIndustry(node, scene.industry, this.provenance(node, 'input'));
         }
+
+        // 关联同行业、同用例的案例
+        result.edgesCreated += await this.linkSceneToCases(node);
       } catch (error: any) {
         result.errors.push(`Scene ${scene.name}: ${error.message}`);
       }
@@ -242,18 +272,17 @@ export class DataIngestionAgent extends BaseAgentClass {
   }
 
   /**
-   * 检查数据是否已存在
+   * 检查数据是否已存在（关联场景时创建的占位场景节点不算）
    */
-  private async checkExists(type: string, name: string): Promise<boolean> {
-    // 实际应该查询数据库/向量库
-    // 这里简化为内存检查
-    return false;
+  private async checkExists(type: GraphNodeType, name: string): Promise<boolean> {
+    const [node] = await getGraphStore().getNodes([nodeId(type, name)]);
+    return !!node && !node.metadata.placeholder;
   }
 
   /**
    * 提取案例结构化信息
    */
-  private async extractCaseStructure(caseData: any): Promise<any> {
+  private async extractCaseStructure(caseData: any): Promise<StructuredResult<CaseStructure>> {
     const prompt = `你是一个AI案例分析专家。请从以下案例信息中提取结构化数据。
 
 案例信息：
@@ -275,43 +304,36 @@ export class DataIngestionAgent extends BaseAgentClass {
 
 JSON输出：`;
 
-    try {
-      const result = await callQwen(prompt, 'qwen-plus');
-      const match = result.match(/\{[\s\S]*\}/);
-      if (match) {
-        return JSON.parse(match[0]);
-      }
-    } catch (error) {
-      console.error('Extract case structure failed:', error);
-    }
-
-    // 返回默认值
-    return {
-      industry: '其他',
-      useCase: '通用',
-      painPoints: ['效率提升需求'],
-      benefits: ['效率提升'],
-      technologies: ['AI Agent'],
-      companySize: '中',
-      complexity: '中'
-    };
+    return await this.callStructuredLLM(prompt, CaseStructureSchema, {
+      model: 'qwen-plus',
+      // 返回默认值
+      fallback: (): CaseStructure => ({
+        industry: '其他',
+        useCase: '通用',
+        painPoints: ['效率提升需求'],
+        benefits: ['效率提升'],
+        technologies: ['AI Agent'],
+        companySize: '中',
+        complexity: '中'
+      })
+    });
   }
 
   /**
    * 创建趋势节点
    */
-  private async createTrendNode(trend: any): Promise<KnowledgeNode> {
+  private async createTrendNode(trend: any): Promise<GraphNode> {
+    const name = trend.name || trend.title;
     return {
-      id: `trend_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: nodeId('trend', name),
       type: 'trend',
-      name: trend.name || trend.title,
+      name,
       description: trend.description || '',
       metadata: {
         opportunity: trend.opportunity_level || trend.opportunity || '中',
         timeline: trend.timeline || '中期',
         keyPlayers: trend.keyPlayers || trend.typical_cases || []
       },
-      relatedNodes: [],
       source: trend.source || 'brainstorm',
       collectedAt: new Date().toISOString(),
       qualityScore: 0.8
@@ -321,11 +343,12 @@ JSON输出：`;
   /**
    * 创建案例节点
    */
-  private async createCaseNode(data: any): Promise<KnowledgeNode> {
+  private async createCaseNode(data: any): Promise<GraphNode> {
+    const name = data.title || '未命名案例';
     return {
-      id: `case_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: nodeId('case', name),
       type: 'case',
-      name: data.title || '未命名案例',
+      name,
       description: data.description || '',
       metadata: {
         industry: data.industry,
@@ -334,21 +357,29 @@ JSON输出：`;
         benefits: data.benefits,
         technologies: data.technologies,
         companySize: data.companySize,
-        complexity: data.complexity
+        complexity: data.complexity,
+        structureFallback: data.structureFallback,
+        url: data.url
       },
-      relatedNodes: [],
       source: data.source || 'brainstorm',
       collectedAt: new Date().toISOString(),
       qualityScore: 0.7
     };
   }
 
+  /**
+   * 场景的去重键：行业 + 用例（与案例关联场景时一致），缺失时用场景名
+   */
+  private scenarioKey(scene: { name?: string; industry?: string; useCase?: string }): string {
+    return scene.industry && scene.useCase ? `${scene.industry}/${scene.useCase}` : scene.name || '未命名场景';
+  }
+
   /**
    * 创建场景节点
    */
-  private async createSceneNode(scene: any): Promise<KnowledgeNode> {
+  private async createSceneNode(scene: any): Promise<GraphNode> {
     return {
-      id: `scene_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: nodeId('scenario', this.scenarioKey(scene)),
       type: 'scenario',
       name: scene.name,
       description: scene.description || '',
@@ -360,7 +391,6 @@ JSON输出：`;
         valueProposition: scene.valueProposition,
         targetCompanies: scene.targetCompanies
       },
-      relatedNodes: [],
       source: 'brainstorm',
       collectedAt: new Date().toISOString(),
       qualityScore: 0.75
@@ -368,56 +398,196 @@ JSON输出：`;
   }
 
   /**
-   * 保存到知识图谱
+   * 保存到知识图谱，返回是否写入；节点已存在时不覆盖，占位节点被替换（保留首次入库时间）
    */
-  private async saveToKnowledgeGraph(node: KnowledgeNode): Promise<void> {
-    // 实际应该存入 Supabase/向量数据库
+  private async saveToKnowledgeGraph(node: GraphNode): Promise<boolean> {
     console.log('[DataIngestion] Saving node to knowledge graph:', node.id, node.type, node.name);
+    return await getGraphStore().insertNode(node);
+  }
 
-    // 存储到知识图谱缓存（生产环境应该用数据库）
-    addToKnowledgeGraph(node);
+  /**
+   * 获取节点，不存在时创建（行业、技术、痛点、占位场景）
+   */
+  private async ensureNode(
+    type: GraphNodeType,
+    key: string,
+    defaults: Partial<GraphNode> = {}
+  ): Promise<GraphNode> {
+    const store = getGraphStore();
+    const id = nodeId(type, key);
+    const [existing] = await store.getNodes([id]);
+    if (existing) return existing;
+
+    const node: GraphNode = {
+      id,
+      type,
+      name: key.trim(),
+      description: '',
+      metadata: {},
+      source: 'ingestion',
+      collectedAt: new Date().toISOString(),
+      qualityScore: 0,
+      ...defaults
+    };
+    await store.upsertNodes([node]);
+    return node;
+  }
+
+  /**
+   * 写入一条边，返回写入的边数
+   */
+  private async link(
+    from: GraphNode,
+    relation: GraphRelation,
+    to: GraphNode,
+    weight: number,
+    provenance: EdgeProvenance
+  ): Promise<number> {
+    const edge: GraphEdge = createEdge(from, relation, to, weight, provenance);
+    await getGraphStore().upsertEdges([edge]);
+    return 1;
+  }
+
+  /**
+   * 边的来源：节点的数据来源 + 关联方法
+   */
+  private provenance(node: GraphNode, method: EdgeProvenance['method'], evidence?: string): EdgeProvenance {
+    return {
+      source: node.metadata.url || node.source,
+      method,
+      agent: this.name,
+      ...(evidence ? { evidence } : {})
+    };
   }
 
   /**
    * 关联到行业
    */
-  private async linkToIndustry(nodeId: string, industry: string): Promise<void> {
-    console.log('[DataIngestion] Linking to industry:', industry);
+  private async linkToIndustry(node: GraphNode, industry: string, provenance: EdgeProvenance, weight = 1): Promise<number> {
+    const industryNode = await this.ensureNode('industry', industry);
+    return await this.link(node, 'in_industry', industryNode, weight, provenance);
   }
 
   /**
    * 关联到技术
    */
-  private async linkToTechnology(nodeId: string, technology: string): Promise<void> {
-    console.log('[DataIngestion] Linking to technology:', technology);
+  private async linkToTechnology(node: GraphNode, technology: string, provenance: EdgeProvenance, weight = 1): Promise<number> {
+    const technologyNode = await this.ensureNode('technology', technology);
+    return await this.link(node, 'uses_technology', technologyNode, weight, provenance);
   }
 
   /**
-   * 关联到场景
+   * 关联到场景（场景 → 案例）；场景还未入库时先创建占位节点，入库时替换
    */
-  private async linkToScenario(nodeId: string, industry: string, useCase: string): Promise<void> {
-    console.log('[DataIngestion] Linking to scenario:', industry, useCase);
+  private async linkToScenario(
+    caseNode: GraphNode,
+    industry: string,
+    useCase: string,
+    provenance: EdgeProvenance,
+    weight = 1
+  ): Promise<number> {
+    const key = this.scenarioKey({ industry, useCase });
+    const scenarioNode = await this.ensureNode('scenario', key, {
+      name: industry ? `${industry} · ${useCase}` : useCase,
+      metadata: { industry, useCase, placeholder: true }
+    });
+    return await this.link(scenarioNode, 'implemented_by', caseNode, weight, provenance);
   }
 
   /**
    * 关联到痛点
    */
-  private async linkToPainPoint(nodeId: string, painPoint: string): Promise<void> {
-    console.log('[DataIngestion] Linking to pain point:', painPoint);
+  private async linkToPainPoint(caseNode: GraphNode, painPoint: string, provenance: EdgeProvenance, weight = 1): Promise<number> {
+    const painPointNode = await this.ensureNode('pain_point', painPoint);
+    return await this.link(caseNode, 'has_pain_point', painPointNode, weight, provenance);
   }
-}
 
-// 导出单例
-export const dataIngestionAgent = new DataIngestionAgent();
+  /**
+   * 典型案例名与案例名的匹配度：完全一致为 1，互相包含为 0.6，否则为 0
+   */
+  private matchCaseName(keyPlayer: string, caseName: string): number {
+    const normalize = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+    const a = normalize(keyPlayer);
+    const b = normalize(caseName);
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+    const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+    return shorter.length >= 3 && longer.includes(shorter) ? 0.6 : 0;
+  }
 
-// 知识图谱缓存（生产环境应该用数据库存储）
-const knowledgeGraphStore: KnowledgeNode[] = [];
+  /**
+   * 与节点有相同行业或技术的某类节点（关联候选，不扫描全部节点）
+   */
+  private async sharedAttributeNodes(node: GraphNode, type: GraphNodeType): Promise<GraphNode[]> {
+    const store = getGraphStore();
+    const relations: GraphRelation[] = ['in_industry', 'uses_technology'];
+    const attributes = await store.getEdges({ nodeIds: [node.id], direction: 'out', relations });
+    if (attributes.length === 0) return [];
+
+    const neighbors = await store.getEdges({ nodeIds: attributes.map(edge => edge.to), direction: 'in', relations });
+    const prefix = nodeId(type, '');
+    const ids = Array.from(new Set(neighbors.map(edge => edge.from)))
+      .filter(id => id !== node.id && id.startsWith(prefix));
+    return (await store.getNodes(ids)).filter(candidate => candidate.type === type);
+  }
 
-// 导出知识图谱查询接口
-export function getKnowledgeGraph(): KnowledgeNode[] {
-  return knowledgeGraphStore;
-}
+  /**
+   * 趋势 → 已入库的典型案例：同名案例直接查找，名称包含的只在有相同行业或技术的案例中匹配
+   */
+  private async linkTrendToCases(trendNode: GraphNode): Promise<number> {
+    const keyPlayers: string[] = trendNode.metadata.keyPlayers || [];
+    if (keyPlayers.length === 0) return 0;
+
+    const candidates = new Map<string, GraphNode>();
+    const named = await getGraphStore().getNodes(keyPlayers.map(keyPlayer => nodeId('case', keyPlayer)));
+    for (const caseNode of [...named, ...await this.sharedAttributeNodes(trendNode, 'case')]) {
+      candidates.set(caseNode.id, caseNode);
+    }
 
-export function addToKnowledgeGraph(node: KnowledgeNode): void {
-  knowledgeGraphStore.push(node);
+    let linked = 0;
+    for (const caseNode of Array.from(candidates.values())) {
+      for (const keyPlayer of keyPlayers) {
+        const weight = this.matchCaseName(keyPlayer, caseNode.name);
+        if (weight > 0) {
+          linked += await this.link(trendNode, 'features_case', caseNode, weight, this.provenance(trendNode, 'name_match', keyPlayer));
+          break;
+        }
+      }
+    }
+    return linked;
+  }
+
+  /**
+   * 有相同行业或技术的趋势中把该案例列为典型案例的 → 案例
+   */
+  private async linkCaseToTrends(caseNode: GraphNode): Promise<number> {
+    let linked = 0;
+    for (const trendNode of await this.sharedAttributeNodes(caseNode, 'trend')) {
+      const keyPlayers: string[] = trendNode.metadata.keyPlayers || [];
+      const matched = keyPlayers
+        .map(keyPlayer => ({ keyPlayer, weight: this.matchCaseName(keyPlayer, caseNode.name) }))
+        .sort((a, b) => b.weight - a.weight)[0];
+      if (matched?.weight > 0) {
+        linked += await this.link(trendNode, 'features_case', caseNode, matched.weight, this.provenance(trendNode, 'name_match', matched.keyPlayer));
+      }
+    }
+    return linked;
+  }
+
+  /**
+   * 场景 → 同行业、同用例的案例
+   */
+  private async linkSceneToCases(sceneNode: GraphNode): Promise<number> {
+    const { industry, useCase } = sceneNode.metadata;
+    if (!industry || !useCase) return 0;
+
+    let linked = 0;
+    for (const caseNode of await getGraphStore().findNodes({ types: ['case'], metadata: { industry, useCase } })) {
+      linked += await this.link(sceneNode, 'implemented_by', caseNode, 1, this.provenance(sceneNode, 'attribute_match', `${industry}/${useCase}`));
+    }
+    return linked;
+  }
 }
+
+// 导出单例
+export const dataIngestionAgent = new DataIngestionAgent();
@@ -9,6 +9,9 @@ export * from './types';
 // Base
 export { BaseAgentClass, AgentFactory } from './base-agent';
 
+// Tools
+export { searchCasesTool, calculateROITool, retrieveFromDatabaseTool, defaultAgentTools } from './tools';
+
 // Agents
 export { orchestrationAgent, OrchestrationAgent } from './orchestration-agent';
 export { trendFinderAgent, TrendFinderAgent } from './trend-finder';
@@ -19,10 +22,16 @@ export { salesScriptGeneratorAgent, SalesScriptGeneratorAgent } from './sales-ge
 export { valuePropositionAgent, ValuePropositionAgent } from './value-proposition';
 
 // Convenience functions to run flows
-export { runBrainstormFlow, runSalesScriptFlow } from './workflows';
+export { runBrainstormFlow, runCaseSearchFlow, runSalesScriptFlow, resumeFlow, replayFlow } from './workflows';
+export { defineWorkflow, runWorkflow, WorkflowDefinitionError, WorkflowStepTimeoutError } from './workflow-engine';
+export type { WorkflowDefinition, WorkflowStep, WorkflowRunResult, StepResult, WorkflowProgress } from './workflow-engine';
+export { getRun, listRuns, getRunStore, WorkflowRunError } from './workflow-runs';
 
 // Data ingestion
-export { dataIngestionAgent, DataIngestionAgent, getKnowledgeGraph, addToKnowledgeGraph } from './data-ingestion';
+export { dataIngestionAgent, DataIngestionAgent } from './data-ingestion';
 
 // Async task management
-export { createTask, getTask, updateTask } from './async-task';
+export { createTask, getTask, updateTask, cancelTask, getTaskStore, TaskAccessError } from './async-task';
+export type { AsyncTask, TaskStepProgress } from './async-task';
+export { registerTaskHandler, runWorker, processNextTask, PermanentTaskError } from './task-worker';
+export { signWebhook, verifyWebhookSignature } from './task-webhook';
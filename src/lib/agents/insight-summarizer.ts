@@ -5,7 +5,6 @@
 
 import { BaseAgentClass } from './base-agent';
 import { AgentInput, AgentOutput } from './types';
-import { callQwen } from '../llm';
 
 /**
  * 洞察类型
@@ -128,7 +127,7 @@ ${JSON.stringify(trends, null, 2)}
 JSON输出：`;
 
     try {
-      const result = await callQwen(prompt, 'qwen-plus');
+      const result = await this.callLLM(prompt, 'qwen-plus');
       const jsonMatch = result.match(/\[[\s\S]*\]/);
 
       if (jsonMatch) {
@@ -232,7 +231,7 @@ JSON格式输出。
 JSON输出：`;
 
     try {
-      const result = await callQwen(prompt, 'qwen-plus');
+      const result = await this.callLLM(prompt, 'qwen-plus');
       const parsed = this.safeJsonParse(result);
       if (parsed) {
         return parsed;
@@ -358,7 +357,7 @@ ${JSON.stringify(data.opportunities, null, 2)}
 请基于以上数据生成专业、有洞察力的报告。`;
 
     try {
-      return await callQwen(prompt, 'qwen-plus');
+      return await this.callLLM(prompt, 'qwen-plus');
     } catch (error) {
       return '洞察报告生成失败';
     }
@@ -1,9 +1,25 @@
 /**
  * Orchestration Agent
  * 编排 Agent - 意图识别、任务分发、结果聚合
+ *
+ * 按意图调用对应的工作流 / Agent：
+ * - brainstorm → runBrainstormFlow
+ * - trend_discovery → TrendFinderAgent
+ * - case_search → runCaseSearchFlow
+ * - sales_script → runSalesScriptFlow
+ * - roi_estimate → calculateROI
+ * - general_chat / unknown → 不分发，直接生成回复
+ *
+ * input.params.intent 指定意图时跳过识别，input.params.entities 补充 / 覆盖提取的实体
+ * （industry、caseInfo、companySize、role、scriptType 等）
  */
 
 import { BaseAgentClass } from './base-agent';
+import { defaultAgentTools } from './tools';
+import { trendFinderAgent } from './trend-finder';
+import { runBrainstormFlow, runCaseSearchFlow, runSalesScriptFlow } from './workflows';
+import { calculateROI } from '../llm';
+import { LLMError } from '../providers';
 import {
   AgentInput,
   AgentOutput,
@@ -12,16 +28,32 @@ import {
   OrchestrationResult,
   TaskResult
 } from './types';
-import { callQwen } from '../llm';
 
 /**
- * 意图识别关键词
+ * 用例关键词（用例名与案例库的 use_case 一致）
+ */
+const USE_CASE_KEYWORDS: Record<string, string[]> = {
+  '智能客服': ['客服', '客户咨询', 'chatbot', 'customer service'],
+  'AI 助手': ['助手', 'assistant', 'copilot'],
+  '流程自动化': ['自动化', 'automation', 'rpa'],
+  '数据分析': ['数据分析', '报表', 'analytics'],
+  '内容生成': ['内容生成', '文案', '营销内容', 'content generation'],
+  '翻译': ['翻译', 'translation'],
+  '知识库': ['知识库', 'knowledge base'],
+  '问答系统': ['问答', 'q&a']
+};
+
+/**
+ * 意图识别关键词（按顺序匹配；脑力风暴流程调用较多，只放明确的短语，单个词交给 LLM 判断）
  */
 const INTENT_KEYWORDS: Record<IntentType, string[]> = {
   brainstorm: [
     '新应用方向', '新机会', '新场景', '有什么新', '创新方向',
     '脑力风暴', '灵感', '发现新', '探索新', '趋势方向',
-    '最近有什么新', '新型应用', '创新案例'
+    '最近有什么新', '新型应用', '有哪些创新案例', '有什么创新案例', 'ai agent 趋势',
+    'ai 有什么新', 'ai 新方向', 'agent 新应用',
+    'brainstorm', 'new opportunity', 'new direction',
+    '发现机会', '探索方向'
   ],
   case_search: [
     '案例', '案例库', '搜索案例', '找案例', '类似案例',
@@ -45,6 +77,24 @@ const INTENT_KEYWORDS: Record<IntentType, string[]> = {
   unknown: []
 };
 
+/**
+ * 文本是否包含关键词：英文、数字开头或结尾的关键词按单词边界匹配（hi 不匹配 which、this）
+ */
+function containsKeyword(text: string, keyword: string): boolean {
+  const lower = keyword.toLowerCase();
+  if (!/^[a-z0-9]|[a-z0-9]$/.test(lower)) return text.includes(lower);
+
+  const escaped = lower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const start = /^[a-z0-9]/.test(lower) ? '(?:^|[^a-z0-9])' : '';
+  const end = /[a-z0-9]$/.test(lower) ? '(?:$|[^a-z0-9])' : '';
+  return new RegExp(`${start}${escaped}${end}`).test(text);
+}
+
+const COMPANY_SIZES = ['大型企业', '中型企业', '小型企业'];
+
+// 聚合提示词中任务结果的最大长度
+const MAX_TASK_RESULTS_CHARS = 6000;
+
 /**
  * 编排 Agent
  */
@@ -66,19 +116,29 @@ export class OrchestrationAgent extends BaseAgentClass {
     }
   ];
 
+  // 生成最终回复时可查询真实案例、估算 ROI
+  tools = defaultAgentTools;
+
   /**
    * 执行编排
    */
   async execute(input: AgentInput): Promise<AgentOutput> {
     try {
-      // 1. 意图识别
-      const intentResult = await this.recognizeIntent(input.task);
+      // 1. 意图识别（调用方已指定意图时跳过）
+      const intentResult = input.params?.intent
+        ? this.resolveIntent(input.params.intent, input.task)
+        : await this.recognizeIntent(input.task, input.context?.locale);
+      intentResult.entities = {
+        ...intentResult.entities,
+        ...input.params?.entities,
+        originalTask: input.task
+      };
 
       // 2. 根据意图分发任务
       const taskResults = await this.distributeTasks(intentResult, input);
 
       // 3. 聚合结果
-      const finalOutput = await this.aggregateResults(intentResult, taskResults);
+      const finalOutput = await this.aggregateResults(intentResult, taskResults, input);
 
       const result: OrchestrationResult = {
         success: true,
@@ -93,22 +153,32 @@ export class OrchestrationAgent extends BaseAgentClass {
 
       return this.successOutput(result);
     } catch (error: any) {
+      // LLM 错误（配额、服务不可用等）交给调用方按类型处理
+      if (error instanceof LLMError) {
+        throw error;
+      }
       return this.errorOutput(error.message || 'Orchestration failed');
     }
   }
 
   /**
-   * 识别用户意图
+   * 识别用户意图：关键词匹配，匹配不到时使用 LLM
    */
-  private async recognizeIntent(task: string): Promise<IntentRecognitionResult> {
+  async recognizeIntent(task: string, locale?: string): Promise<IntentRecognitionResult> {
+    return this.matchKeywords(task) || await this.llmIntentRecognition(task, locale);
+  }
+
+  /**
+   * 关键词匹配意图，匹配不到时返回 null
+   */
+  matchKeywords(task: string): IntentRecognitionResult | null {
     const lowerTask = task.toLowerCase();
 
-    // 优先使用关键词匹配
     for (const [intent, keywords] of Object.entries(INTENT_KEYWORDS)) {
       if (intent === 'unknown') continue;
 
       for (const keyword of keywords) {
-        if (lowerTask.includes(keyword.toLowerCase())) {
+        if (containsKeyword(lowerTask, keyword)) {
           const confidence = 0.8;
           return {
             intent: intent as IntentType,
@@ -120,37 +190,29 @@ export class OrchestrationAgent extends BaseAgentClass {
       }
     }
 
-    // 如果关键词匹配失败，使用 LLM 进行意图识别
-    return await this.llmIntentRecognition(task);
+    return null;
   }
 
   /**
-   * 使用 LLM 进行意图识别
+   * 调用方指定的意图
    */
-  private async llmIntentRecognition(task: string): Promise<IntentRecognitionResult> {
-    const prompt = `你是一个意图识别专家。请分析以下用户输入，识别其意图。
-
-用户输入: "${task}"
-
-可选意图:
-- brainstorm: 脑力风暴 - 寻找 AI Agent 的新应用方向、新机会
-- case_search: 案例搜索 - 搜索成功案例
-- sales_script: 销售话术 - 生成销售话术
-- roi_estimate: ROI 估算 - 计算投资回报
-- trend_discovery: 趋势发现 - 发现最新趋势
-- general_chat: 一般对话 - 问候、询问功能等
-
-请以 JSON 格式输出：
-{
-  "intent": "意图类型",
-  "confidence": 0.0-1.0,
-  "entities": { "提取的实体" }
-}
+  private resolveIntent(intent: IntentType, task: string): IntentRecognitionResult {
+    return {
+      intent,
+      confidence: 1,
+      entities: this.extractEntities(task),
+      suggestedTasks: this.getSuggestedTasks(intent)
+    };
+  }
 
-JSON输出：`;
+  /**
+   * 使用 LLM 进行意图识别
+   */
+  private async llmIntentRecognition(task: string, locale?: string): Promise<IntentRecognitionResult> {
+    const prompt = this.renderPrompt('orchestration.intent', { task }, locale);
 
     try {
-      const result = await callQwen(prompt, 'qwen-turbo');
+      const result = await this.callLLM(prompt, 'qwen-turbo');
       const jsonMatch = result.match(/\{[\s\S]*\}/);
 
       if (jsonMatch) {
@@ -175,10 +237,11 @@ JSON输出：`;
   }
 
   /**
-   * 提取实体
+   * 提取实体（行业、用例、时间范围），RAG 的查询改写也用它提取检索过滤条件
    */
-  private extractEntities(task: string): Record<string, any> {
+  extractEntities(task: string): Record<string, any> {
     const entities: Record<string, any> = {};
+    const lowerTask = task.toLowerCase();
 
     // 提取行业关键词
     const industries = ['电商', '金融', '医疗', '教育', '制造', '零售', '物流', '客服'];
@@ -189,6 +252,14 @@ JSON输出：`;
       }
     }
 
+    // 提取用例关键词
+    for (const [useCase, keywords] of Object.entries(USE_CASE_KEYWORDS)) {
+      if (keywords.some(keyword => lowerTask.includes(keyword))) {
+        entities.useCase = useCase;
+        break;
+      }
+    }
+
     // 提取时间范围
     if (task.includes('最近') || task.includes('最新')) {
       entities.timeRange = 'recent';
@@ -234,74 +305,114 @@ JSON输出：`;
   }
 
   /**
-   * 分发任务
+   * 分发任务：调用意图对应的工作流 / Agent，失败的任务记录错误，不中断聚合
    */
   private async distributeTasks(
     intentResult: IntentRecognitionResult,
     input: AgentInput
   ): Promise<TaskResult[]> {
-    const tasks: TaskResult[] = [];
-    const startTime = Date.now();
+    const entities = intentResult.entities;
+    const query = input.task;
 
-    // 根据意图执行相应的任务
     switch (intentResult.intent) {
       case 'brainstorm':
+        return [await this.runTask('BrainstormFlow', 'brainstorm', () => runBrainstormFlow({
+          query,
+          industry: entities.industry,
+          timeRange: this.toTimeRange(entities.timeRange)
+        }))];
+
       case 'trend_discovery':
-        // 执行脑力风暴/趋势发现流程
-        tasks.push(await this.executeBrainstormFlow(input, startTime));
-        break;
+        return [await this.runTask('TrendFinderAgent', 'discover_trends', () => trendFinderAgent.run({
+          task: query,
+          context: input.context,
+          params: {
+            timeRange: this.toTimeRange(entities.timeRange),
+            category: entities.category
+          }
+        }))];
 
       case 'case_search':
-        tasks.push({
-          agentName: 'CaseSearchAgent',
-          task: 'search_cases',
-          success: true,
-          data: { message: '案例搜索任务' },
-          duration: Date.now() - startTime
-        });
-        break;
+        return [await this.runTask('CaseSearchFlow', 'search_cases', () => runCaseSearchFlow({
+          keyword: entities.keyword || query,
+          industry: entities.industry,
+          limit: entities.limit
+        }))];
 
       case 'sales_script':
-        tasks.push({
-          agentName: 'SalesScriptGeneratorAgent',
-          task: 'generate_sales_script',
-          success: true,
-          data: { message: '销售话术生成任务' },
-          duration: Date.now() - startTime
-        });
-        break;
+        return [await this.runTask('SalesScriptFlow', 'generate_sales_script', () => runSalesScriptFlow({
+          scene: entities.scene,
+          caseInfo: entities.caseInfo,
+          customer: {
+            industry: entities.industry || '通用',
+            companySize: entities.companySize,
+            role: entities.role
+          },
+          type: entities.scriptType,
+          context: input.context
+        }))];
+
+      case 'roi_estimate':
+        return [await this.runTask('ROIEstimator', 'calculate_roi', async () => {
+          const roi = await calculateROI(
+            entities.industry || '通用',
+            entities.useCase || query,
+            COMPANY_SIZES.includes(entities.companySize) ? entities.companySize : '中型企业',
+            input.context?.locale
+          );
+          return roi.data
+            ? { success: true, data: roi.data }
+            : { success: false, error: roi.errors.join('; ') || 'ROI estimation failed' };
+        })];
 
       default:
-        tasks.push({
-          agentName: 'OrchestrationAgent',
-          task: 'general_response',
-          success: true,
-          data: { message: '一般对话处理' },
-          duration: Date.now() - startTime
-        });
+        // 一般对话 / 未知意图不分发，由聚合阶段直接回复
+        return [];
     }
-
-    return tasks;
   }
 
   /**
-   * 执行脑力风暴流程
+   * 执行单个任务，统一转为 TaskResult（工作流和 Agent 都返回 { success, data, error }）
    */
-  private async executeBrainstormFlow(
-    input: AgentInput,
-    startTime: number
+  private async runTask(
+    agentName: string,
+    task: string,
+    fn: () => Promise<{ success: boolean; data?: any; error?: string }>
   ): Promise<TaskResult> {
-    const taskResult: TaskResult = {
-      agentName: 'BrainstormFlow',
-      task: 'brainstorm',
-      success: true,
-      data: {
-        message: '执行脑力风暴流程'
-      },
-      duration: Date.now() - startTime
-    };
+    const startTime = Date.now();
 
-    return taskResult;
+    try {
+      const output = await fn();
+      return {
+        agentName,
+        task,
+        success: output.success,
+        data: output.data,
+        error: output.error,
+        duration: Date.now() - startTime
+      };
+    } catch (error: any) {
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      console.error(`[OrchestrationAgent] ${task} failed:`, error);
+      return {
+        agentName,
+        task,
+        success: false,
+        data: null,
+        error: error.message,
+        duration: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * 实体中的时间范围转为 Agent 参数（7d / 30d / 90d）
+   */
+  private toTimeRange(timeRange?: string): string {
+    if (!timeRange || timeRange === 'recent') return '7d';
+    return timeRange;
   }
 
   /**
@@ -309,21 +420,29 @@ JSON输出：`;
    */
   private async aggregateResults(
     intentResult: IntentRecognitionResult,
-    taskResults: TaskResult[]
+    taskResults: TaskResult[],
+    input: AgentInput
   ): Promise<string> {
     // 根据意图生成最终输出
+    const results = JSON.stringify(
+      taskResults.map(t => ({ task: t.task, success: t.success, data: t.data, error: t.error }))
+    ).slice(0, MAX_TASK_RESULTS_CHARS);
     const prompt = `你是一个AI销售助手。请根据以下意图和任务结果，为用户生成最终回复。
 
 意图: ${intentResult.intent}
-任务结果: ${JSON.stringify(taskResults)}
+任务结果: ${taskResults.length > 0 ? results : '无（直接回答用户）'}
 
-用户原始需求: ${intentResult.entities.originalTask || ''}
+用户原始需求: ${input.task}
 
-请生成一个专业、有价值的回复。`;
+请生成一个专业、有价值的回复。需要引用案例或数据时，请调用工具查询案例库，不要编造案例。`;
 
     try {
-      return await callQwen(prompt, 'qwen-turbo');
+      const result = await this.callLLMWithTools(this.withHistory(prompt, input.context), { model: 'qwen-turbo' });
+      return result.content;
     } catch (error) {
+      if (error instanceof LLMError) {
+        throw error;
+      }
       return '感谢您的提问！我正在为您分析...';
     }
   }
@@ -4,8 +4,7 @@
  */
 
 import { BaseAgentClass } from './base-agent';
-import { AgentInput, AgentOutput } from './types';
-import { callQwen } from '../llm';
+import { AgentContext, AgentInput, AgentOutput } from './types';
 
 /**
  * 销售话术类型
@@ -17,6 +16,7 @@ interface SalesScript {
   content: string;
   keyPoints: string[];
   tips: string[];
+  promptVersion?: string;  // 生成该话术的模板版本
 }
 
 /**
@@ -68,6 +68,7 @@ export class SalesScriptGeneratorAgent extends BaseAgentClass {
       const scene = input.params?.scene;
       const customer = input.params?.customer as CustomerProfile;
       const caseInfo = input.params?.caseInfo;
+      const context = input.context;
 
       if (!scene && !customer && !caseInfo) {
         return this.errorOutput('Missing scene, customer, or caseInfo');
@@ -78,22 +79,22 @@ export class SalesScriptGeneratorAgent extends BaseAgentClass {
 
       switch (type) {
         case 'cold_call':
-          script = await this.generateColdCallScript(scene, customer, caseInfo);
+          script = await this.generateColdCallScript(scene, customer, caseInfo, context);
           break;
         case 'follow_up':
-          script = await this.generateFollowUpScript(scene, customer, caseInfo);
+          script = await this.generateFollowUpScript(scene, customer, caseInfo, context);
           break;
         case 'demo':
-          script = await this.generateDemoScript(scene, customer, caseInfo);
+          script = await this.generateDemoScript(scene, customer, caseInfo, context);
           break;
         case 'objection_handling':
-          script = await this.generateObjectionHandlingScript(scene, customer);
+          script = await this.generateObjectionHandlingScript(scene, customer, context);
           break;
         case 'closing':
-          script = await this.generateClosingScript(scene, customer);
+          script = await this.generateClosingScript(scene, customer, context);
           break;
         default:
-          script = await this.generateColdCallScript(scene, customer, caseInfo);
+          script = await this.generateColdCallScript(scene, customer, caseInfo, context);
       }
 
       // 生成补充话术
@@ -123,51 +124,28 @@ export class SalesScriptGeneratorAgent extends BaseAgentClass {
   private async generateColdCallScript(
     scene: any,
     customer: CustomerProfile | undefined,
-    caseInfo: any
+    caseInfo: any,
+    context?: AgentContext
   ): Promise<SalesScript> {
     const industry = customer?.industry || scene?.industry || '通用';
     const useCase = scene?.useCase || '业务场景';
     const painPoints = customer?.painPoints || scene?.painPoints || ['效率提升需求'];
 
-    const prompt = `你是一个资深 AI 销售顾问。请根据以下信息，生成专业的冷电话术。
+    const prompt = this.renderPrompt('sales.cold_call', {
+      industry,
+      useCase,
+      painPoints: painPoints.map(String),
+      caseInfo: caseInfo || '无'
+    }, context?.locale);
 
-客户行业：${industry}
-使用场景：${useCase}
-客户痛点：${painPoints.join(', ')}
-
-案例信息：
-${caseInfo ? JSON.stringify(caseInfo) : '无'}
-
-请生成以下格式的话术：
-
-### 开场白（15秒）
-[简短有力的开场，吸引客户注意力]
-
-### 价值主张（30秒）
-[介绍 AI Agent 能为客户带来什么价值]
-
-### 案例分享（30秒）
-[分享相关成功案例，增强可信度]
-
-### 收尾提问（15秒）
-[提出引导性问题，了解客户需求]
-
----
-话术要求：
-- 简洁有力，适合电话沟通
-- 突出客户痛点和价值
-- 语气专业自信
-- 避免过度推销感
-
-请生成话术：`;
-
-    const content = await callQwen(prompt, 'qwen-plus');
+    const content = await this.callLLM(this.withHistory(prompt, context), 'qwen-plus');
 
     return {
       id: 'cold-call-1',
       type: 'cold_call',
       title: `冷电话术 - ${industry}行业`,
       content,
+      promptVersion: prompt.id,
       keyPoints: [
         '开场引起兴趣',
         '突出价值主张',
@@ -188,44 +166,24 @@ ${caseInfo ? JSON.stringify(caseInfo) : '无'}
   private async generateFollowUpScript(
     scene: any,
     customer: CustomerProfile | undefined,
-    caseInfo: any
+    caseInfo: any,
+    context?: AgentContext
   ): Promise<SalesScript> {
     const industry = customer?.industry || scene?.industry || '通用';
 
-    const prompt = `你是一个资深 AI 销售顾问。请根据以下信息，生成专业的跟进话术。
-
-客户行业：${industry}
-上次沟通内容：${caseInfo?.title || '初次接触'}
-
-请生成以下格式的话术：
-
-### 回访开场
-[说明来电目的]
+    const prompt = this.renderPrompt('sales.follow_up', {
+      industry,
+      lastContact: caseInfo?.title || '初次接触'
+    }, context?.locale);
 
-### 需求确认
-[确认客户当前需求和痛点]
-
-### 方案介绍
-[根据需求介绍解决方案]
-
-### 下一步行动
-[约定下次沟通或演示时间]
-
----
-话术要求：
-- 体现专业性和耐心
-- 突出个性化关怀
-- 给出明确的行动建议
-
-请生成话术：`;
-
-    const content = await callQwen(prompt, 'qwen-plus');
+    const content = await this.callLLM(this.withHistory(prompt, context), 'qwen-plus');
 
     return {
       id: 'follow-up-1',
       type: 'follow_up',
       title: `跟进话术 - ${industry}行业`,
       content,
+      promptVersion: prompt.id,
       keyPoints: [
         '体现专业跟进',
         '确认客户需求',
@@ -246,49 +204,26 @@ ${caseInfo ? JSON.stringify(caseInfo) : '无'}
   private async generateDemoScript(
     scene: any,
     customer: CustomerProfile | undefined,
-    caseInfo: any
+    caseInfo: any,
+    context?: AgentContext
   ): Promise<SalesScript> {
     const industry = customer?.industry || scene?.industry || '通用';
     const useCase = scene?.useCase || '核心业务场景';
 
-    const prompt = `你是一个资深 AI 销售顾问。请根据以下信息，生成专业的演示话术。
-
-客户行业：${industry}
-演示场景：${useCase}
-客户角色：${customer?.role || '决策者'}
-
-请生成以下格式的话术：
-
-### 演示开场（2分钟）
-[介绍演示流程和预期成果]
-
-### 核心功能演示（10分钟）
-[分步骤展示核心功能]
-
-### 场景化演示（5分钟）
-[针对客户场景的实际操作]
-
-### 价值总结（3分钟）
-[总结演示亮点和客户收益]
+    const prompt = this.renderPrompt('sales.demo', {
+      industry,
+      useCase,
+      role: customer?.role || '决策者'
+    }, context?.locale);
 
-### Q&A 环节
-[常见问题回答]
-
----
-话术要求：
-- 突出与客户场景相关的功能
-- 强调实际价值而非功能本身
-- 适时停顿询问客户反馈
-
-请生成话术：`;
-
-    const content = await callQwen(prompt, 'qwen-plus');
+    const content = await this.callLLM(this.withHistory(prompt, context), 'qwen-plus');
 
     return {
       id: 'demo-1',
       type: 'demo',
       title: `演示话术 - ${industry}行业${useCase}场景`,
       content,
+      promptVersion: prompt.id,
       keyPoints: [
         '开场建立预期',
         '功能展示清晰',
@@ -308,47 +243,21 @@ ${caseInfo ? JSON.stringify(caseInfo) : '无'}
    */
   private async generateObjectionHandlingScript(
     scene: any,
-    customer: CustomerProfile | undefined
+    customer: CustomerProfile | undefined,
+    context?: AgentContext
   ): Promise<SalesScript> {
     const industry = customer?.industry || scene?.industry || '通用';
 
-    const prompt = `你是一个资深 AI 销售顾问。请为 ${industry} 行业的客户生成常见的异议处理话术。
-
-常见异议类型：
-1. "价格太高"
-2. "我们已经在用其他产品"
-3. "暂时不需要"
-4. "需要考虑/汇报领导"
-5. "效果不明显怎么办"
-
-请为每种异议生成处理话术：
-
-### 异议1：[价格问题]
-- 处理思路：
-- 话术示例：
-
-### 异议2：[竞品比较]
-- 处理思路：
-- 话术示例：
-
-... 以此类推
-
----
-话术要求：
-- 展现同理心
-- 转化异议为卖点
-- 提供具体证据
-- 给客户台阶下
+    const prompt = this.renderPrompt('sales.objection_handling', { industry }, context?.locale);
 
-请生成话术：`;
-
-    const content = await callQwen(prompt, 'qwen-plus');
+    const content = await this.callLLM(this.withHistory(prompt, context), 'qwen-plus');
 
     return {
       id: 'objection-1',
       type: 'objection_handling',
       title: `异议处理话术 - ${industry}行业`,
       content,
+      promptVersion: prompt.id,
       keyPoints: [
         '同理心倾听',
         '认同客户观点',
@@ -368,45 +277,21 @@ ${caseInfo ? JSON.stringify(caseInfo) : '无'}
    */
   private async generateClosingScript(
     scene: any,
-    customer: CustomerProfile | undefined
+    customer: CustomerProfile | undefined,
+    context?: AgentContext
   ): Promise<SalesScript> {
     const industry = customer?.industry || scene?.industry || '通用';
 
-    const prompt = `你是一个资深 AI 销售顾问。请为 ${industry} 行业的客户生成成交话术。
-
-请生成以下格式的话术：
-
-### 成交信号识别
-[识别客户发出的成交信号]
-
-### 价值确认
-[与客户确认价值和预期]
-
-### 合作方案确认
-[明确合作细节和下一步]
-
-### 签约引导
-[自然过渡到签约环节]
-
-### 后续安排
-[明确后续流程和时间表]
-
----
-话术要求：
-- 把握成交时机
-- 减少客户决策压力
-- 明确后续流程
-- 建立长期关系
-
-请生成话术：`;
+    const prompt = this.renderPrompt('sales.closing', { industry }, context?.locale);
 
-    const content = await callQwen(prompt, 'qwen-plus');
+    const content = await this.callLLM(this.withHistory(prompt, context), 'qwen-plus');
 
     return {
       id: 'closing-1',
       type: 'closing',
       title: `成交话术 - ${industry}行业`,
       content,
+      promptVersion: prompt.id,
       keyPoints: [
         '识别成交信号',
         '确认客户需求',
@@ -5,7 +5,6 @@
 
 import { BaseAgentClass } from './base-agent';
 import { AgentInput, AgentOutput } from './types';
-import { callQwen } from '../llm';
 
 /**
  * 场景类型
@@ -132,7 +131,7 @@ export class SceneTranslatorAgent extends BaseAgentClass {
 JSON输出：`;
 
     try {
-      const result = await callQwen(prompt, 'qwen-plus');
+      const result = await this.callLLM(prompt, 'qwen-plus');
       const jsonMatch = result.match(/\{[\s\S]*\}/);
 
       if (jsonMatch) {
@@ -319,7 +318,7 @@ ${JSON.stringify(scenes.slice(0, 5), null, 2)}
 建议：`;
 
     try {
-      return await callQwen(prompt, 'qwen-plus');
+      return await this.callLLM(prompt, 'qwen-plus');
     } catch (error) {
       return '场景建议生成失败';
     }
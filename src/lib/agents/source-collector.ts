@@ -5,7 +5,6 @@
 
 import { BaseAgentClass } from './base-agent';
 import { AgentInput, AgentOutput } from './types';
-import { callQwen } from '../llm';
 
 /**
  * 数据源类型
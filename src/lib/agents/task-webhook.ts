@@ -0,0 +1,291 @@
+/**
+ * Task Webhooks
+ * 任务回调 - 带 callback 的任务结束（完成 / 失败 / 取消）后，把结果 POST 到回调地址
+ *
+ * - 投递本身作为 webhook 类型的任务进入队列，复用队列的租约和指数退避重试
+ * - 请求体签名：X-ASIP-Signature: t=<毫秒时间戳>,v1=<HMAC-SHA256(secret, `${t}.${body}`) 十六进制>
+ * - 每次投递的结果追加到原任务的 webhookDeliveries（GET /api/chat/task 返回）
+ * - 网络错误、超时、5xx、408、429 重试，其余 4xx 不再重试
+ * - 回调地址解析到回环、链路本地、内网地址时拒绝（创建任务和每次投递连接时都检查，不跟随重定向），
+ *   本地联调的接收端通过 WEBHOOK_ALLOWED_HOSTS 放行
+ */
+
+import axios from 'axios';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AsyncTask, WebhookDelivery, createTask, getTaskStore, updateTask } from './async-task';
+
+export const WEBHOOK_TASK_TYPE = 'webhook';
+
+export const SIGNATURE_HEADER = 'X-ASIP-Signature';
+
+/**
+ * 回调配置
+ */
+export interface WebhookConfig {
+  secret?: string;       // 任务未指定 secret 时使用的签名密钥
+  timeoutMs: number;
+  maxAttempts: number;   // 投递最多尝试次数
+  historyLimit: number;  // 每个任务保留的投递记录数
+  allowedHosts: string[]; // 不检查地址的主机名（本地联调接收端）
+}
+
+/**
+ * 从环境变量读取配置
+ */
+export function getWebhookConfig(): WebhookConfig {
+  const env = process.env;
+  return {
+    secret: env.WEBHOOK_SECRET || undefined,
+    timeoutMs: parseInt(env.WEBHOOK_TIMEOUT_MS || '10000'),
+    maxAttempts: parseInt(env.WEBHOOK_MAX_ATTEMPTS || '5'),
+    historyLimit: parseInt(env.WEBHOOK_HISTORY_LIMIT || '20'),
+    allowedHosts: (env.WEBHOOK_ALLOWED_HOSTS || '')
+      .split(',')
+      .map(host => host.trim().toLowerCase())
+      .filter(Boolean)
+  };
+}
+
+/**
+ * 回调地址不可用（协议错误、无法解析、指向内网）
+ */
+export class WebhookUrlError extends Error {
+  constructor(public url: string, reason: string) {
+    super(`Invalid callbackUrl: ${reason}`);
+    this.name = 'WebhookUrlError';
+  }
+}
+
+// 不允许回调的 IPv4 网段：[网络地址, 前缀长度]
+const BLOCKED_IPV4: [string, number][] = [
+  ['0.0.0.0', 8],        // 本网络
+  ['10.0.0.0', 8],       // 私有
+  ['100.64.0.0', 10],    // 运营商 NAT
+  ['127.0.0.0', 8],      // 回环
+  ['169.254.0.0', 16],   // 链路本地（含云厂商元数据服务）
+  ['172.16.0.0', 12],    // 私有
+  ['192.0.0.0', 24],     // 协议分配
+  ['192.168.0.0', 16],   // 私有
+  ['198.18.0.0', 15],    // 基准测试
+  ['224.0.0.0', 4],      // 组播
+  ['240.0.0.0', 4]       // 保留 / 广播
+];
+
+function ipv4ToInt(ip: string): number {
+  return ip.split('.').reduce((acc, part) => (acc << 8) + parseInt(part), 0) >>> 0;
+}
+
+/**
+ * 是否为回环、链路本地、内网等不允许回调的地址
+ */
+export function isPrivateAddress(ip: string): boolean {
+  const address = ip.toLowerCase();
+
+  if (net.isIPv4(address)) {
+    const value = ipv4ToInt(address);
+    return BLOCKED_IPV4.some(([network, bits]) => {
+      const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+      return (value & mask) === (ipv4ToInt(network) & mask);
+    });
+  }
+
+  if (net.isIPv6(address)) {
+    // IPv4 映射地址按 IPv4 检查
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    if (address === '::' || address === '::1') return true;
+    const head = parseInt(address.split(':')[0] || '0', 16);
+    return (head & 0xfe00) === 0xfc00  // fc00::/7 唯一本地
+      || (head & 0xffc0) === 0xfe80    // fe80::/10 链路本地
+      || (head & 0xff00) === 0xff00;   // ff00::/8 组播
+  }
+
+  return true;
+}
+
+function isAllowedHost(hostname: string, config: WebhookConfig): boolean {
+  return config.allowedHosts.includes(hostname.toLowerCase().replace(/^\[|\]$/g, ''));
+}
+
+/**
+ * 校验回调地址：http(s)，且主机解析出的所有地址都不是内网地址（WEBHOOK_ALLOWED_HOSTS 中的主机除外）
+ */
+export async function validateWebhookUrl(value: string, config: WebhookConfig = getWebhookConfig()): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new WebhookUrlError(value, 'not a valid URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new WebhookUrlError(value, 'must be an http(s) URL');
+  }
+  if (isAllowedHost(url.hostname, config)) return;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    throw new WebhookUrlError(value, `cannot resolve host ${hostname}`);
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new WebhookUrlError(value, 'host resolves to a private or loopback address');
+  }
+}
+
+/**
+ * 连接时的地址解析：解析结果含内网地址时报错，防止创建任务后 DNS 改指向内网
+ */
+function guardedLookup(config: WebhookConfig): net.LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, options, (error, address, family) => {
+      if (error || isAllowedHost(hostname, config)) return (callback as any)(error, address, family);
+
+      const resolved = typeof address === 'string' ? [address] : (address as dns.LookupAddress[]).map(a => a.address);
+      if (resolved.some(isPrivateAddress)) {
+        const blocked: NodeJS.ErrnoException = new Error(`Host ${hostname} resolves to a private or loopback address`);
+        blocked.code = 'EBLOCKEDADDRESS';
+        return (callback as any)(blocked);
+      }
+      (callback as any)(null, address, family);
+    });
+  };
+}
+
+/**
+ * 计算签名头
+ */
+export function signWebhook(body: string, secret: string, timestamp: number = Date.now()): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * 校验签名（供接收方使用），toleranceMs 内的时间戳才有效，防止重放
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string | null | undefined,
+  secret: string,
+  toleranceMs: number = 5 * 60 * 1000
+): boolean {
+  if (!header) return false;
+
+  const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=') as [string, string]));
+  const timestamp = parseInt(parts.t);
+  if (!parts.v1 || isNaN(timestamp) || Math.abs(Date.now() - timestamp) > toleranceMs) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhook(body, secret, timestamp).split('v1=')[1], 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * 任务结束后登记回调投递，没有 callback 或任务未结束时返回 null
+ * 登记失败只记录日志，不影响任务本身
+ */
+export async function enqueueTaskWebhook(task: AsyncTask): Promise<AsyncTask | null> {
+  if (!task.callback?.url) return null;
+  if (task.status !== 'completed' && task.status !== 'failed' && task.status !== 'cancelled') return null;
+
+  try {
+    return await createTask({
+      type: WEBHOOK_TASK_TYPE,
+      payload: { taskId: task.id, event: `task.${task.status}` },
+      priority: 10,
+      maxAttempts: getWebhookConfig().maxAttempts
+    });
+  } catch (error: any) {
+    console.error(`[Webhook] Enqueue for ${task.id} failed:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * 是否值得重试
+ */
+export function isRetryableDelivery(delivery: WebhookDelivery): boolean {
+  const status = delivery.statusCode;
+  return status === undefined || status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * 执行一次投递（webhook 任务），返回投递记录；原任务不存在或没有 callback 时返回 null
+ */
+export async function deliverTaskWebhook(webhookTask: AsyncTask): Promise<WebhookDelivery | null> {
+  const config = getWebhookConfig();
+  const { taskId, event } = webhookTask.payload;
+  const task = await getTaskStore().get(taskId);
+  if (!task?.callback?.url) return null;
+
+  const body = JSON.stringify({
+    id: webhookTask.id,
+    event,
+    createdAt: new Date().toISOString(),
+    data: {
+      taskId: task.id,
+      type: task.type,
+      status: task.status,
+      attempts: task.attempts,
+      result: task.status === 'completed' ? task.result : undefined,
+      error: task.status === 'failed' ? task.error : undefined
+    }
+  });
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'ASIP-Webhook/1.0',
+    'X-ASIP-Event': event,
+    'X-ASIP-Delivery': webhookTask.id
+  };
+  const secret = task.callback.secret || config.secret;
+  if (secret) {
+    headers[SIGNATURE_HEADER] = signWebhook(body, secret);
+  }
+
+  const startedAt = Date.now();
+  const delivery: WebhookDelivery = {
+    id: webhookTask.id,
+    event,
+    url: task.callback.url,
+    attempt: webhookTask.attempts,
+    success: false,
+    durationMs: 0,
+    timestamp: startedAt
+  };
+
+  try {
+    const response = await axios.post(task.callback.url, body, {
+      headers,
+      timeout: config.timeoutMs,
+      transformRequest: [(data) => data],  // 按签名时的原文发送
+      validateStatus: () => true,
+      maxRedirects: 0,  // 重定向可能指向内网，按状态码处理
+      httpAgent: new http.Agent({ lookup: guardedLookup(config) }),
+      httpsAgent: new https.Agent({ lookup: guardedLookup(config) })
+    });
+    delivery.statusCode = response.status;
+    delivery.success = response.status >= 200 && response.status < 300;
+    if (!delivery.success) delivery.error = `HTTP ${response.status}`;
+  } catch (error: any) {
+    delivery.error = error.code === 'ECONNABORTED' ? 'Request timed out' : error.message;
+  }
+  delivery.durationMs = Date.now() - startedAt;
+
+  // 投递记录只用于排查，写入失败不影响重试
+  const history = [...(task.webhookDeliveries || []), delivery].slice(-config.historyLimit);
+  await updateTask(task.id, { webhookDeliveries: history }).catch((error: any) => {
+    console.error(`[Webhook] Saving delivery for ${task.id} failed:`, error.message);
+  });
+
+  return delivery;
+}
@@ -0,0 +1,347 @@
+/**
+ * Task Worker
+ * 任务 worker - 从任务队列领取任务，按类型调用处理函数
+ *
+ * 运行方式：
+ * - /api/worker：由 Vercel Cron 或 scripts/worker.js 定时调用，处理到队列为空或到达时间上限
+ * - 内存存储时，创建任务后直接在当前进程处理（TASK_INLINE_WORKER）
+ *
+ * 工作流类任务失败时记下运行 ID，重试从检查点续跑，不会重复已成功的步骤；
+ * 执行过程中每个步骤的状态和输出摘要写入 task.steps（/api/chat/task/stream 推送给前端）；
+ * 执行期间定期检查取消请求，取消后通过 AbortSignal 中止进行中的 LLM 调用和剩余步骤；
+ * 带 callback 的任务结束后登记回调投递（task-webhook.ts）
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  AsyncTask,
+  TaskStepProgress,
+  claimTask,
+  cleanupTasks,
+  completeTask,
+  failTask,
+  getTaskQueueConfig,
+  getTaskStore,
+  markTaskCancelled,
+  updateTask
+} from './async-task';
+import { runWithSignal } from '../cancellation';
+import { WEBHOOK_TASK_TYPE, deliverTaskWebhook, enqueueTaskWebhook, isRetryableDelivery } from './task-webhook';
+import { WorkflowRunOptions, WorkflowRunResult } from './workflow-engine';
+import { WorkflowRunError } from './workflow-runs';
+import { resumeFlow, runBrainstormFlow, runCaseSearchFlow, runSalesScriptFlow } from './workflows';
+
+/**
+ * 处理函数可用的上下文
+ */
+export interface TaskContext {
+  workerId: string;
+  signal: AbortSignal;  // 任务被取消时中止（范围内的 LLM 调用已自动带上）
+  progress(progress: number, message: string, step?: TaskStepProgress): Promise<void>;  // 传 step 时同时更新该步骤
+  savePayload(patch: Record<string, any>): Promise<void>;  // 保存续跑需要的信息（如运行 ID）
+}
+
+export type TaskHandler = (task: AsyncTask, ctx: TaskContext) => Promise<any>;
+
+/**
+ * 不再重试的错误（参数错误、未知任务类型等）
+ */
+export class PermanentTaskError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentTaskError';
+  }
+}
+
+const handlers: Record<string, TaskHandler> = {};
+const internalTypes = new Set<string>();
+
+/**
+ * 注册任务类型，internal 类型只由服务端创建（不能通过 API 提交）
+ */
+export function registerTaskHandler(type: string, handler: TaskHandler, options: { internal?: boolean } = {}): void {
+  handlers[type] = handler;
+  if (options.internal) internalTypes.add(type);
+}
+
+/**
+ * 可通过 API 提交的任务类型
+ */
+export function getTaskTypes(): string[] {
+  return Object.keys(handlers).filter(type => !internalTypes.has(type));
+}
+
+const STEP_STATES: Record<string, string> = {
+  running: '执行中',
+  succeeded: '完成',
+  failed: '失败',
+  skipped: '跳过'
+};
+
+/**
+ * 把工作流步骤回调转为任务进度（10% - 95%）
+ */
+function workflowProgress(ctx: TaskContext): WorkflowRunOptions {
+  return {
+    signal: ctx.signal,
+    onStep: (step, progress) => {
+      void ctx.progress(10 + Math.round(progress.percent * 0.85), `步骤 ${step.id} ${STEP_STATES[step.status]}`, {
+        id: step.id,
+        status: step.status as TaskStepProgress['status'],
+        startedAt: step.startedAt,
+        durationMs: step.status === 'running' ? undefined : step.durationMs,
+        preview: step.preview,
+        restored: step.restored,
+        error: step.status === 'failed' ? step.error : undefined
+      });
+    }
+  };
+}
+
+/**
+ * 工作流任务：按步骤更新进度，失败时保存运行 ID，重试时续跑
+ */
+function workflowHandler(
+  start: (payload: any, options: WorkflowRunOptions) => Promise<WorkflowRunResult>
+): TaskHandler {
+  return async (task, ctx) => {
+    const options = workflowProgress(ctx);
+
+    let result: WorkflowRunResult;
+    if (task.payload.runId) {
+      try {
+        result = await resumeFlow(task.payload.runId, options);
+      } catch (error) {
+        // 运行记录没有保存成功时重新执行
+        if (!(error instanceof WorkflowRunError)) throw error;
+        result = await start(task.payload, options);
+      }
+    } else {
+      result = await start(task.payload, options);
+    }
+
+    if (!result.success) {
+      if (result.runId) await ctx.savePayload({ runId: result.runId });
+      throw new Error(result.error || 'Workflow failed');
+    }
+    return { ...result.data, runId: result.runId };
+  };
+}
+
+registerTaskHandler('brainstorm', workflowHandler((payload, options) => {
+  if (!payload.query) throw new PermanentTaskError('Missing query');
+  return runBrainstormFlow({
+    query: payload.query,
+    industry: payload.industry,
+    timeRange: payload.timeRange,
+    autoIngest: payload.autoIngest
+  }, options);
+}));
+
+registerTaskHandler('case_search', workflowHandler((payload, options) => {
+  if (!payload.keyword) throw new PermanentTaskError('Missing keyword');
+  return runCaseSearchFlow({
+    keyword: payload.keyword,
+    industry: payload.industry,
+    limit: payload.limit
+  }, options);
+}));
+
+registerTaskHandler('sales_script', workflowHandler((payload, options) => {
+  if (!payload.customer?.industry) throw new PermanentTaskError('Missing customer.industry');
+  return runSalesScriptFlow({
+    scene: payload.scene,
+    caseInfo: payload.caseInfo,
+    customer: payload.customer,
+    type: payload.type
+  }, options);
+}));
+
+// 续跑失败的工作流运行
+registerTaskHandler('workflow_resume', async (task, ctx) => {
+  if (!task.payload.runId) throw new PermanentTaskError('Missing runId');
+  await ctx.progress(10, `正在续跑 ${task.payload.runId}...`);
+  const result = await resumeFlow(task.payload.runId, workflowProgress(ctx));
+  if (!result.success) throw new Error(result.error || 'Workflow failed');
+  return { ...result.data, runId: result.runId };
+});
+
+// 任务结束回调投递
+registerTaskHandler(WEBHOOK_TASK_TYPE, async (task) => {
+  const delivery = await deliverTaskWebhook(task);
+  if (!delivery) throw new PermanentTaskError(`Task ${task.payload.taskId} not found or has no callback`);
+  if (!delivery.success) {
+    const message = `Webhook delivery to ${delivery.url} failed: ${delivery.error}`;
+    throw isRetryableDelivery(delivery) ? new Error(message) : new PermanentTaskError(message);
+  }
+  return delivery;
+}, { internal: true });
+
+/**
+ * 领取并执行一个任务，队列为空时返回 null
+ */
+export async function processNextTask(workerId: string, types?: string[]): Promise<AsyncTask | null> {
+  const task = await claimTask(workerId, types);
+  if (!task) return null;
+
+  const { leaseMs, cancelPollMs } = getTaskQueueConfig();
+  console.log(`[Worker ${workerId}] ${task.type} ${task.id} (attempt ${task.attempts}/${task.maxAttempts})`);
+
+  // 执行期间定期续约，避免长任务被其他 worker 重新领取
+  const heartbeat = setInterval(() => {
+    void updateTask(task.id, { leaseExpiresAt: Date.now() + leaseMs }, workerId).catch((error: any) => {
+      console.error(`[Worker ${workerId}] Lease renewal failed:`, error.message);
+    });
+  }, Math.max(1000, Math.floor(leaseMs / 3)));
+
+  // 取消请求可能来自其他进程，只能从存储读取
+  const controller = new AbortController();
+  const cancelWatch = setInterval(() => {
+    void getTaskStore().get(task.id).then(current => {
+      if (current?.cancelRequested && !controller.signal.aborted) {
+        console.log(`[Worker ${workerId}] Cancelling ${task.type} ${task.id}`);
+        controller.abort();
+      }
+    }, (error: any) => {
+      console.error(`[Worker ${workerId}] Cancel check failed:`, error.message);
+    });
+  }, cancelPollMs);
+
+  // 进度按调用顺序写入，避免并行步骤的回调互相覆盖
+  const steps: TaskStepProgress[] = [...(task.steps || [])];
+  let writes: Promise<void> = Promise.resolve();
+
+  const ctx: TaskContext = {
+    workerId,
+    signal: controller.signal,
+    progress: (progress, message, step) => {
+      const patch: Partial<AsyncTask> = { progress, message };
+      if (step) {
+        const index = steps.findIndex(s => s.id === step.id);
+        if (index >= 0) steps[index] = step;
+        else steps.push(step);
+        patch.steps = [...steps];
+      }
+
+      // 进度只用于展示，写入失败不影响任务
+      writes = writes.then(() => updateTask(task.id, patch, workerId)).then(() => undefined, (error: any) => {
+        console.error(`[Worker ${workerId}] Progress update failed:`, error.message);
+      });
+      return writes;
+    },
+    savePayload: async (patch) => {
+      task.payload = { ...task.payload, ...patch };
+      await updateTask(task.id, { payload: task.payload }, workerId);
+    }
+  };
+
+  // 租约已被其他 worker 接手：结果没有写入，也不发送回调
+  const leaseLost = (): AsyncTask => {
+    console.warn(`[Worker ${workerId}] Lease on ${task.type} ${task.id} lost, result discarded`);
+    return task;
+  };
+
+  try {
+    const handler = handlers[task.type];
+    if (!handler) {
+      throw new PermanentTaskError(`Unknown task type: ${task.type}`);
+    }
+
+    await ctx.progress(10, '正在处理...');
+    const result = await runWithSignal(controller.signal, () => handler(task, ctx));
+    await writes;
+    if (controller.signal.aborted) {
+      if (!await markTaskCancelled(task, workerId)) return leaseLost();
+      await enqueueTaskWebhook({ ...task, status: 'cancelled' });
+      return { ...task, status: 'cancelled' };
+    }
+    if (!await completeTask(task, workerId, result)) return leaseLost();
+    await enqueueTaskWebhook({ ...task, status: 'completed' });
+    return { ...task, status: 'completed', result };
+  } catch (error: any) {
+    if (controller.signal.aborted) {
+      await writes;
+      if (!await markTaskCancelled(task, workerId)) return leaseLost();
+      await enqueueTaskWebhook({ ...task, status: 'cancelled' });
+      return { ...task, status: 'cancelled' };
+    }
+    console.error(`[Worker ${workerId}] ${task.type} ${task.id} failed:`, error.message);
+    await writes;
+    const retry = !(error instanceof PermanentTaskError);
+    if (!await failTask(task, workerId, error.message || String(error), { retry })) return leaseLost();
+    // 不再重试时才算结束
+    if (!retry || task.attempts >= task.maxAttempts) {
+      await enqueueTaskWebhook({ ...task, status: 'failed' });
+    }
+    return { ...task, status: 'failed', error: error.message };
+  } finally {
+    clearInterval(heartbeat);
+    clearInterval(cancelWatch);
+  }
+}
+
+export interface WorkerOptions {
+  workerId?: string;
+  types?: string[];
+  concurrency?: number;     // 同时处理的任务数，默认 1
+  pollIntervalMs?: number;  // 队列为空时的轮询间隔，默认 1000
+  stopWhenIdle?: boolean;   // 队列为空时退出（定时调用时使用）
+  deadlineMs?: number;      // 超过该时长后不再领取新任务
+}
+
+/**
+ * 运行 worker，返回处理的任务数
+ */
+export async function runWorker(options: WorkerOptions = {}): Promise<number> {
+  const workerId = options.workerId || `worker_${randomUUID().slice(0, 8)}`;
+  const concurrency = options.concurrency || 1;
+  const pollIntervalMs = options.pollIntervalMs ?? 1000;
+  const deadline = options.deadlineMs ? Date.now() + options.deadlineMs : Infinity;
+  let processed = 0;
+
+  try {
+    const removed = await cleanupTasks();
+    if (removed > 0) console.log(`[Worker ${workerId}] Removed ${removed} expired task(s)`);
+  } catch (error: any) {
+    console.error(`[Worker ${workerId}] Cleanup failed:`, error.message);
+  }
+
+  const loop = async () => {
+    while (Date.now() < deadline) {
+      const task = await processNextTask(workerId, options.types);
+      if (task) {
+        processed++;
+        continue;
+      }
+      if (options.stopWhenIdle) return;
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, loop));
+  return processed;
+}
+
+let inlineWorker: Promise<number> | null = null;
+
+/**
+ * 在当前进程处理队列（没有独立 worker 时使用），已在处理时不重复启动；
+ * 队列空闲后如有等待重试的任务，到期时再次启动
+ */
+export function kickInlineWorker(): void {
+  if (!getTaskQueueConfig().inlineWorker || inlineWorker) return;
+
+  inlineWorker = runWorker({ workerId: 'inline', stopWhenIdle: true })
+    .catch((error: any) => {
+      console.error('[Worker inline] Failed:', error.message);
+      return 0;
+    })
+    .finally(async () => {
+      inlineWorker = null;
+      const waiting = await getTaskStore().list({ status: 'pending' }).catch(() => []);
+      if (waiting.length > 0) {
+        const next = Math.min(...waiting.map(t => t.runAt));
+        setTimeout(kickInlineWorker, Math.max(0, next - Date.now()));
+      }
+    });
+}
@@ -0,0 +1,87 @@
+/**
+ * Agent Tools
+ * Agent 可调用的工具 - 查案例库、估算 ROI、知识库检索
+ */
+
+import { z } from 'zod';
+import { defineTool } from '../tools';
+import { calculateROI } from '../llm';
+
+/**
+ * 搜索案例库（caseDb.searchCases）
+ */
+export const searchCasesTool = defineTool({
+  name: 'search_cases',
+  description: '按关键词搜索案例库中的真实 AI Agent 案例，返回项目名称、行业、用例、痛点和来源链接',
+  schema: z.object({
+    keyword: z.string().describe('搜索关键词，如 客服、ERP、automation'),
+    limit: z.number().int().min(1).max(10).optional().describe('返回条数，默认 5')
+  }),
+  async execute({ keyword, limit = 5 }) {
+    // 数据库客户端在导入时读取环境变量，按需加载
+    const { caseDb } = await import('../db');
+    const cases = await caseDb.searchCases(keyword, limit);
+
+    return (cases || []).map((c: any) => ({
+      id: c.id,
+      project_name: c.project_name,
+      industry: c.industry,
+      use_case: c.use_case,
+      pain_point: c.pain_point,
+      outcome: c.outcome,
+      summary: c.use_case_summary,
+      source_url: c.source_url
+    }));
+  }
+});
+
+/**
+ * 估算 ROI（calculateROI）
+ */
+export const calculateROITool = defineTool({
+  name: 'calculate_roi',
+  description: '估算在某行业、某用例下引入 AI Agent 的投资回报（节省人力、年节省成本、回报期）',
+  schema: z.object({
+    industry: z.string().describe('行业，如 零售、制造业'),
+    useCase: z.string().describe('用例，如 智能客服、流程自动化'),
+    companySize: z.enum(['大型企业', '中型企业', '小型企业']).describe('公司规模')
+  }),
+  async execute({ industry, useCase, companySize }) {
+    const roi = await calculateROI(industry, useCase, companySize);
+    if (!roi.data) {
+      throw new Error('ROI estimation failed');
+    }
+    return roi.data;
+  }
+});
+
+/**
+ * 知识库检索（retrieveFromDatabase）
+ */
+export const retrieveFromDatabaseTool = defineTool({
+  name: 'retrieve_from_database',
+  description: '在案例、场景、趋势知识库中按语义和关键词（项目名等）检索与问题最相关的内容',
+  schema: z.object({
+    query: z.string().describe('检索问题'),
+    types: z.array(z.enum(['case', 'scenario', 'trend'])).optional().describe('检索的数据类型，默认 case 和 scenario'),
+    industry: z.string().optional().describe('限定行业'),
+    limit: z.number().int().min(1).max(10).optional().describe('返回条数，默认 5')
+  }),
+  async execute({ query, types, industry, limit }) {
+    const { retrieveFromDatabase } = await import('../rag');
+    const results = await retrieveFromDatabase(query, { types, industry, limit });
+
+    return results.map(r => ({
+      type: r.type,
+      title: r.title,
+      description: r.description,
+      source_url: r.sourceUrl,
+      similarity: r.similarity
+    }));
+  }
+});
+
+/**
+ * 默认工具集
+ */
+export const defaultAgentTools = [searchCasesTool, calculateROITool, retrieveFromDatabaseTool];
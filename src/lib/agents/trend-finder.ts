@@ -5,8 +5,9 @@
 
 import { BaseAgentClass } from './base-agent';
 import { AgentInput, AgentOutput } from './types';
-import { callQwen } from '../llm';
+import { StructuredResult } from '../llm';
 import axios from 'axios';
+import { z } from 'zod';
 
 /**
  * 趋势数据源配置
@@ -31,6 +32,21 @@ interface TrendItem {
   timestamp?: string;
 }
 
+/**
+ * 趋势分析结果
+ */
+const AnalyzedTrendSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  typical_cases: z.array(z.string()),
+  applicable_scenarios: z.array(z.string()),
+  customer_pain_points: z.array(z.string()),
+  market_trend: z.string(),
+  opportunity_level: z.enum(['高', '中', '低'])
+});
+
+type AnalyzedTrend = z.infer<typeof AnalyzedTrendSchema>;
+
 /**
  * Trend Finder Agent
  */
@@ -78,10 +94,11 @@ export class TrendFinderAgent extends BaseAgentClass {
       const trends = await this.discoverTrends(timeRange, category);
 
       // 2. 分析趋势
-      const analyzedTrends = await this.analyzeTrends(trends);
+      const analysis = await this.analyzeTrends(trends);
+      const analyzedTrends = analysis.data;
 
       // 3. 生成趋势报告
-      const report = await this.generateTrendReport(analyzedTrends);
+      const report = await this.generateTrendReport(analyzedTrends, input.context?.locale);
 
       return this.successOutput({
         trends: analyzedTrends,
@@ -90,6 +107,7 @@ export class TrendFinderAgent extends BaseAgentClass {
           timeRange,
           category,
           count: trends.length,
+          analysisFallback: analysis.usedFallback,
           timestamp: new Date().toISOString()
         }
       });
@@ -247,7 +265,7 @@ export class TrendFinderAgent extends BaseAgentClass {
   /**
    * 分析趋势
    */
-  private async analyzeTrends(trends: TrendItem[]): Promise<any[]> {
+  private async analyzeTrends(trends: TrendItem[]): Promise<StructuredResult<AnalyzedTrend[]>> {
     const prompt = `你是一个 AI 趋势分析专家。请分析以下 AI Agent 趋势，提取关键信息。
 
 趋势列表：
@@ -266,59 +284,29 @@ ${JSON.stringify(trends, null, 2)}
 
 JSON输出：`;
 
-    try {
-      const result = await callQwen(prompt, 'qwen-plus');
-      const jsonMatch = result.match(/\[[\s\S]*\]/);
-
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-    } catch (error) {
-      console.error('Trend analysis failed:', error);
-    }
-
-    // 返回降级分析
-    return trends.map(t => ({
-      name: t.title,
-      description: t.description,
-      typical_cases: [t.source],
-      applicable_scenarios: ['通用场景'],
-      customer_pain_points: ['效率提升需求'],
-      market_trend: '上升趋势',
-      opportunity_level: '中'
-    }));
+    return await this.callStructuredLLM(prompt, z.array(AnalyzedTrendSchema).min(1), {
+      model: 'qwen-plus',
+      // 返回降级分析
+      fallback: () => trends.map(t => ({
+        name: t.title,
+        description: t.description,
+        typical_cases: [t.source],
+        applicable_scenarios: ['通用场景'],
+        customer_pain_points: ['效率提升需求'],
+        market_trend: '上升趋势',
+        opportunity_level: '中' as const
+      }))
+    });
   }
 
   /**
    * 生成趋势报告
    */
-  private async generateTrendReport(analyzedTrends: any[]): Promise<string> {
-    const prompt = `你是一个 AI 行业顾问。请根据以下趋势分析，生成一份专业的脑力风暴式趋势报告。
-
-趋势分析：
-${JSON.stringify(analyzedTrends, null, 2)}
-
-请生成以下格式的报告：
-
-## 【最新 AI Agent 创新方向】
-
-### 1. [方向名称]
-- 典型案例: [案例列表]
-- 适用场景: [场景列表]
-- 客户痛点: [痛点列表]
-- 市场趋势: [趋势描述]
-- 机会等级: [高/中/低]
-
-### 2. ...
-
-## 【建议关注的新方向】
-
-请以专业的顾问视角给出建议。
-
-报告：`;
+  private async generateTrendReport(analyzedTrends: AnalyzedTrend[], locale?: string): Promise<string> {
+    const prompt = this.renderPrompt('trend.report', { analyzedTrends }, locale);
 
     try {
-      return await callQwen(prompt, 'qwen-plus');
+      return await this.callLLM(prompt, 'qwen-plus');
     } catch (error) {
       return '趋势报告生成失败';
     }
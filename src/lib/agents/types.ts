@@ -9,7 +9,9 @@
 export interface AgentContext {
   userId?: string;
   sessionId?: string;
-  conversationHistory: ConversationMessage[];
+  locale?: string;  // 提示词语言（如 zh、en），缺省读 PROMPT_LOCALE
+  conversationHistory: ConversationMessage[];  // 按 token 预算截取的最近对话
+  summary?: string;  // 更早对话的摘要
   metadata?: Record<string, any>;
 }
 
@@ -64,6 +66,11 @@ export interface BaseAgent {
    */
   execute(input: AgentInput): Promise<AgentOutput>;
 
+  /**
+   * 执行任务并附上 LLM 调用统计
+   */
+  run(input: AgentInput): Promise<AgentOutput>;
+
   /**
    * 检查是否可以处理该任务
    */
@@ -5,7 +5,6 @@
 
 import { BaseAgentClass } from './base-agent';
 import { AgentInput, AgentOutput } from './types';
-import { callQwen } from '../llm';
 
 /**
  * 价值主张
@@ -126,7 +125,7 @@ ${caseInfo ? JSON.stringify(caseInfo) : '无'}
 
 请用专业的 B2B 销售语言生成。`;
 
-    const result = await callQwen(prompt, 'qwen-plus');
+    const result = await this.callLLM(prompt, 'qwen-plus');
 
     return {
       id: 'vp-1',
@@ -157,7 +156,7 @@ ${caseInfo ? JSON.stringify(caseInfo) : '无'}
 
 JSON数组格式：`;
 
-    const result = await callQwen(prompt, 'qwen-turbo');
+    const result = await this.callLLM(prompt, 'qwen-turbo');
     try {
       const match = result.match(/\[[\s\S]*\]/);
       if (match) {
@@ -197,7 +196,7 @@ ${caseInfo ? JSON.stringify(caseInfo) : '无具体案例'}
 
 JSON数组格式：`;
 
-    const result = await callQwen(prompt, 'qwen-turbo');
+    const result = await this.callLLM(prompt, 'qwen-turbo');
     try {
       const match = result.match(/\[[\s\S]*\]/);
       if (match) {
@@ -236,7 +235,7 @@ JSON数组格式：`;
 
 JSON数组格式：`;
 
-    const result = await callQwen(prompt, 'qwen-turbo');
+    const result = await this.callLLM(prompt, 'qwen-turbo');
     try {
       const match = result.match(/\[[\s\S]*\]/);
       if (match) {
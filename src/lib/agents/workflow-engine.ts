@@ -0,0 +1,409 @@
+/**
+ * Workflow Engine
+ * 工作流引擎 - 流程声明为 Agent 步骤组成的 DAG，按依赖并行执行
+ *
+ * 每个步骤声明：
+ * - agent + input：调用 Agent，input 从流程参数和上游步骤输出映射出 AgentInput
+ * - run：不经过 Agent 的自定义步骤（如数据入库）
+ * - dependsOn：上游步骤，全部结束后才执行；没有依赖关系的步骤并行执行
+ * - when：条件为 false 时跳过
+ * - retries / retryDelayMs / timeoutMs：失败重试（指数退避）和超时
+ * - optional：失败不影响整个流程，下游步骤照常执行（拿到的输出为 undefined）
+ * - preview：从步骤输出提取展示用的摘要（如已发现的趋势标题），随进度推送
+ *
+ * 必需步骤失败时流程失败，不再启动新的步骤。
+ * 传入 signal 时可取消：进行中的 LLM 调用被中止，不再启动新的步骤，流程返回 cancelled。
+ * 步骤超时时同样中止该次执行（不会与重试的执行同时运行）。
+ * 传入 completed 时，其中已成功的步骤直接复用输出（断点续跑 / 重放，见 workflow-runs.ts）
+ */
+
+import { AgentInput, BaseAgent } from './types';
+import { listPrompts, summarizeUsage, trackLLMCalls } from '../llm-tracking';
+import { runWithSignal } from '../cancellation';
+
+/**
+ * 步骤执行上下文
+ */
+export interface WorkflowContext<P = any> {
+  params: P;
+  outputs: Record<string, any>;  // 已完成步骤的输出（Agent 步骤为 AgentOutput.data）
+  signal?: AbortSignal;  // 本次执行的取消信号（流程取消或步骤超时），范围内的 LLM 调用已自动带上
+}
+
+/**
+ * 步骤定义
+ */
+export interface WorkflowStep<P = any> {
+  id: string;
+  agent?: BaseAgent;
+  input?: (ctx: WorkflowContext<P>) => AgentInput;
+  run?: (ctx: WorkflowContext<P>) => Promise<any>;
+  dependsOn?: string[];
+  when?: (ctx: WorkflowContext<P>) => boolean;
+  retries?: number;       // 失败后重试次数，默认 0
+  retryDelayMs?: number;  // 首次重试等待，之后翻倍，默认 500
+  timeoutMs?: number;     // 单次执行超时
+  optional?: boolean;
+  preview?: (output: any) => any;  // 步骤成功后的部分结果摘要，需可序列化且足够小
+}
+
+/**
+ * 流程定义
+ */
+export interface WorkflowDefinition<P = any, T = any> {
+  name: string;
+  steps: WorkflowStep<P>[];
+  output: (ctx: WorkflowContext<P>) => T;  // 由各步骤输出组装流程结果
+}
+
+export type StepStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+/**
+ * 步骤执行结果
+ */
+export interface StepResult {
+  id: string;
+  status: StepStatus;
+  input?: AgentInput;  // Agent 步骤映射出的输入
+  output?: any;
+  error?: string;
+  attempts: number;
+  optional: boolean;
+  restored?: boolean;  // 复用了之前运行的输出，本次未执行
+  preview?: any;       // 步骤定义了 preview 时的输出摘要
+  startedAt?: string;
+  durationMs: number;
+}
+
+/**
+ * 流程执行结果
+ */
+export interface WorkflowRunResult<T = any> {
+  workflow: string;
+  runId?: string;  // 保存了检查点时的运行 ID
+  success: boolean;
+  cancelled?: boolean;  // 通过 signal 取消
+  data?: T;
+  error?: string;
+  steps: StepResult[];  // 按定义顺序
+  metadata: Record<string, any>;  // timestamp、durationMs、usage、prompts 等
+}
+
+/**
+ * 流程进度（随步骤回调传入）
+ */
+export interface WorkflowProgress {
+  finished: number;  // 已结束（成功 / 失败 / 跳过）的步骤数
+  total: number;
+  percent: number;   // 0 - 100
+}
+
+export interface WorkflowRunOptions {
+  onStep?: (step: StepResult, progress: WorkflowProgress) => void;  // 步骤开始 / 结束 / 复用时回调（进度展示、保存检查点）
+  metadata?: Record<string, any>;       // 附加到结果 metadata
+  completed?: Record<string, StepResult>;  // 之前运行的步骤结果，成功的步骤不再执行
+  signal?: AbortSignal;  // 取消信号，步骤内的 LLM 调用自动带上
+}
+
+/**
+ * 流程定义错误（重复的步骤、未知依赖、循环依赖等）
+ */
+export class WorkflowDefinitionError extends Error {
+  constructor(public workflow: string, message: string) {
+    super(`Invalid workflow ${workflow}: ${message}`);
+    this.name = 'WorkflowDefinitionError';
+  }
+}
+
+/**
+ * 步骤超时
+ */
+export class WorkflowStepTimeoutError extends Error {
+  constructor(public step: string, public timeoutMs: number) {
+    super(`Step ${step} timed out after ${timeoutMs}ms`);
+    this.name = 'WorkflowStepTimeoutError';
+  }
+}
+
+/**
+ * 定义流程，检查步骤和依赖关系
+ */
+export function defineWorkflow<P, T>(definition: WorkflowDefinition<P, T>): WorkflowDefinition<P, T> {
+  const ids = new Set<string>();
+
+  for (const step of definition.steps) {
+    if (ids.has(step.id)) {
+      throw new WorkflowDefinitionError(definition.name, `duplicate step ${step.id}`);
+    }
+    if (!step.run && !(step.agent && step.input)) {
+      throw new WorkflowDefinitionError(definition.name, `step ${step.id} needs run or agent + input`);
+    }
+    ids.add(step.id);
+  }
+
+  for (const step of definition.steps) {
+    for (const dep of step.dependsOn || []) {
+      if (!ids.has(dep)) {
+        throw new WorkflowDefinitionError(definition.name, `step ${step.id} depends on unknown step ${dep}`);
+      }
+    }
+  }
+
+  // 按依赖逐层消去，剩下的即为环
+  const remaining = new Map(definition.steps.map(s => [s.id, new Set(s.dependsOn || [])]));
+  let progressed = true;
+  while (remaining.size > 0 && progressed) {
+    progressed = false;
+    for (const [id, deps] of Array.from(remaining.entries())) {
+      if (Array.from(deps).every(dep => !remaining.has(dep))) {
+        remaining.delete(id);
+        progressed = true;
+      }
+    }
+  }
+  if (remaining.size > 0) {
+    throw new WorkflowDefinitionError(
+      definition.name,
+      `cyclic dependencies between ${Array.from(remaining.keys()).join(', ')}`
+    );
+  }
+
+  return definition;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * 在独立的取消范围内执行一次步骤：流程取消或超时时中止（进行中的 LLM 调用随之中止）
+ */
+async function withTimeout<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  step: string,
+  timeoutMs: number | undefined,
+  parent?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) onAbort();
+  parent?.addEventListener('abort', onAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    if (!timeoutMs) return;
+    timer = setTimeout(() => {
+      const error = new WorkflowStepTimeoutError(step, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([runWithSignal(controller.signal, () => run(controller.signal)), timeout]);
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * 执行一次步骤：Agent 返回 success: false 视为失败
+ */
+async function executeStep<P>(
+  step: WorkflowStep<P>,
+  ctx: WorkflowContext<P>,
+  result: StepResult,
+  signal: AbortSignal
+): Promise<any> {
+  const stepCtx = { ...ctx, signal };
+  if (step.run) {
+    return step.run(stepCtx);
+  }
+
+  result.input = step.input!(stepCtx);
+  const output = await step.agent!.run(result.input);
+  if (!output.success) {
+    throw new Error(output.error || `${step.agent!.name} failed`);
+  }
+  return output.data;
+}
+
+const CANCELLED = 'Workflow cancelled';
+
+/**
+ * 执行步骤（含重试）
+ * 取消后不再重试；执行期间被取消的步骤即使返回了结果（Agent 内部可能降级处理）也视为失败，续跑时重新执行
+ */
+async function runStep<P>(
+  step: WorkflowStep<P>,
+  ctx: WorkflowContext<P>,
+  result: StepResult,
+  signal?: AbortSignal
+): Promise<void> {
+  const retries = step.retries || 0;
+  const baseDelay = step.retryDelayMs ?? 500;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    result.attempts = attempt + 1;
+    try {
+      // 超时的执行已被中止，重试不会与它同时运行
+      const output = await withTimeout(
+        attemptSignal => executeStep(step, ctx, result, attemptSignal),
+        step.id,
+        step.timeoutMs,
+        signal
+      );
+      if (signal?.aborted) break;
+      result.output = output;
+      result.status = 'succeeded';
+      result.error = undefined;
+      return;
+    } catch (error: any) {
+      result.error = error.message || String(error);
+      if (signal?.aborted) break;
+      if (attempt < retries) {
+        console.warn(`[Workflow] Step ${step.id} failed (attempt ${attempt + 1}), retrying:`, result.error);
+        await sleep(baseDelay * Math.pow(2, attempt));
+      }
+    }
+  }
+
+  result.status = 'failed';
+  if (signal?.aborted) result.error = CANCELLED;
+}
+
+/**
+ * 提取步骤输出摘要，失败时只记录日志
+ */
+function previewOf<P>(step: WorkflowStep<P>, output: any): any {
+  if (!step.preview) return undefined;
+  try {
+    return step.preview(output);
+  } catch (error: any) {
+    console.warn(`[Workflow] Preview of step ${step.id} failed:`, error.message);
+    return undefined;
+  }
+}
+
+/**
+ * 执行流程：依赖全部结束的步骤立即启动，metadata 附上整个流程的 LLM 用量和用到的模板版本
+ */
+export async function runWorkflow<P, T>(
+  definition: WorkflowDefinition<P, T>,
+  params: P,
+  options: WorkflowRunOptions = {}
+): Promise<WorkflowRunResult<T>> {
+  const startTime = Date.now();
+
+  const { signal } = options;
+
+  const { result, records } = await trackLLMCalls(() => runWithSignal(signal, async () => {
+    const ctx: WorkflowContext<P> = { params, outputs: {} };
+    const results = new Map<string, StepResult>(definition.steps.map(step => [step.id, {
+      id: step.id,
+      status: 'pending' as StepStatus,
+      attempts: 0,
+      optional: !!step.optional,
+      durationMs: 0
+    }]));
+    const running = new Map<string, Promise<void>>();
+    let failure: StepResult | undefined;
+
+    const isDone = (id: string) => {
+      const status = results.get(id)!.status;
+      return status === 'succeeded' || status === 'failed' || status === 'skipped';
+    };
+
+    const report = (stepResult: StepResult) => {
+      if (!options.onStep) return;
+      const total = definition.steps.length;
+      const finished = definition.steps.filter(s => isDone(s.id)).length;
+      options.onStep({ ...stepResult }, { finished, total, percent: Math.round((finished / total) * 100) });
+    };
+
+    const launch = (step: WorkflowStep<P>) => {
+      const stepResult = results.get(step.id)!;
+      const previous = options.completed?.[step.id];
+
+      if (previous?.status === 'succeeded') {
+        Object.assign(stepResult, previous, { restored: true });
+        ctx.outputs[step.id] = previous.output;
+        report(stepResult);
+        return;
+      }
+
+      if (step.when && !step.when(ctx)) {
+        stepResult.status = 'skipped';
+        report(stepResult);
+        return;
+      }
+
+      stepResult.status = 'running';
+      stepResult.startedAt = new Date().toISOString();
+      report(stepResult);
+      console.log(`[Workflow] ${definition.name}: ${step.id}...`);
+
+      running.set(step.id, runStep(step, ctx, stepResult, signal).then(() => {
+        stepResult.durationMs = Date.now() - new Date(stepResult.startedAt!).getTime();
+        running.delete(step.id);
+
+        if (stepResult.status === 'succeeded') {
+          ctx.outputs[step.id] = stepResult.output;
+          stepResult.preview = previewOf(step, stepResult.output);
+        } else if (step.optional) {
+          console.warn(`[Workflow] Optional step ${step.id} failed:`, stepResult.error);
+        } else if (!failure) {
+          failure = stepResult;
+        }
+        report(stepResult);
+      }));
+    };
+
+    while (true) {
+      // 跳过的步骤立即结束，可能让下游步骤就绪，所以反复扫描直到没有新步骤启动
+      let launched = true;
+      while (!failure && !signal?.aborted && launched) {
+        launched = false;
+        for (const step of definition.steps) {
+          const status = results.get(step.id)!.status;
+          if (status === 'pending' && (step.dependsOn || []).every(isDone)) {
+            launch(step);
+            launched = true;
+          }
+        }
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(Array.from(running.values()));
+    }
+
+    // 必需步骤失败后未启动的步骤标记为跳过
+    for (const stepResult of Array.from(results.values())) {
+      if (stepResult.status === 'pending') stepResult.status = 'skipped';
+    }
+
+    const steps = definition.steps.map(step => results.get(step.id)!);
+    if (signal?.aborted) {
+      return { success: false, cancelled: true, error: CANCELLED, steps };
+    }
+    if (failure) {
+      return { success: false, error: `${failure.id}: ${failure.error}`, steps };
+    }
+    return { success: true, data: definition.output(ctx), steps };
+  }));
+
+  return {
+    workflow: definition.name,
+    success: result.success,
+    cancelled: result.cancelled,
+    data: result.data,
+    error: result.error,
+    steps: result.steps,
+    metadata: {
+      ...options.metadata,
+      timestamp: new Date().toISOString(),
+      durationMs: Date.now() - startTime,
+      usage: summarizeUsage(records),
+      prompts: listPrompts(records)
+    }
+  };
+}
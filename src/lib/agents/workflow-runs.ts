@@ -0,0 +1,600 @@
+/**
+ * Workflow Runs
+ * 工作流运行记录 - 每个步骤的输入和输出作为检查点保存，失败或中断的运行可以从最后成功的步骤续跑，
+ * 历史运行可以替换部分步骤重放（例如换了销售话术模板，只重跑话术步骤，复用趋势发现和数据采集的结果）
+ *
+ * 存储：配置了 Supabase 时写 workflow_runs / workflow_run_steps 表，否则写本地 SQLite 文件（同样的两张表）
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { Database } from 'better-sqlite3';
+import { AgentInput } from './types';
+import {
+  StepResult,
+  WorkflowDefinition,
+  WorkflowRunOptions,
+  WorkflowRunResult,
+  WorkflowStep,
+  runWorkflow
+} from './workflow-engine';
+
+export type WorkflowRunStatus = 'running' | 'succeeded' | 'failed';
+
+/**
+ * 运行记录
+ */
+export interface WorkflowRunRecord {
+  id: string;
+  workflow: string;
+  params: any;
+  status: WorkflowRunStatus;
+  error?: string;
+  parentRunId?: string;  // 重放时指向原运行
+  steps: Record<string, StepResult>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 运行记录存储接口
+ */
+export interface RunStore {
+  name: string;
+  create(run: WorkflowRunRecord): Promise<void>;
+  saveStep(runId: string, step: StepResult): Promise<void>;
+  update(runId: string, patch: { status: WorkflowRunStatus; error?: string }): Promise<void>;
+  get(runId: string): Promise<WorkflowRunRecord | null>;
+  list(filter?: { workflow?: string; status?: WorkflowRunStatus; limit?: number }): Promise<WorkflowRunRecord[]>;
+}
+
+/**
+ * 运行记录配置
+ */
+export interface RunStoreConfig {
+  store: 'memory' | 'sqlite' | 'supabase';
+  sqlitePath: string;
+}
+
+/**
+ * 从环境变量读取配置（配置了 Supabase 时默认写数据库）
+ */
+export function getRunStoreConfig(): RunStoreConfig {
+  const env = process.env;
+  const store = env.WORKFLOW_RUN_STORE || (env.NEXT_PUBLIC_SUPABASE_URL ? 'supabase' : 'sqlite');
+  return {
+    store: store === 'supabase' || store === 'memory' ? store : 'sqlite',
+    sqlitePath: env.WORKFLOW_RUN_SQLITE_PATH || path.join(process.cwd(), '.data', 'workflow-runs.db')
+  };
+}
+
+/**
+ * 运行记录不存在，或与流程定义不匹配
+ */
+export class WorkflowRunError extends Error {
+  constructor(public runId: string, message: string) {
+    super(message);
+    this.name = 'WorkflowRunError';
+  }
+}
+
+function applyUpdate(run: WorkflowRunRecord, patch: { status: WorkflowRunStatus; error?: string }): void {
+  run.status = patch.status;
+  run.error = patch.error;
+  run.updatedAt = new Date().toISOString();
+}
+
+function filterRuns(
+  runs: WorkflowRunRecord[],
+  filter: { workflow?: string; status?: WorkflowRunStatus; limit?: number } = {}
+): WorkflowRunRecord[] {
+  return runs
+    .filter(r => (!filter.workflow || r.workflow === filter.workflow) && (!filter.status || r.status === filter.status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, filter.limit || 50);
+}
+
+/**
+ * 内存存储（进程重启后丢失）
+ */
+export class MemoryRunStore implements RunStore {
+  name = 'memory';
+  private runs = new Map<string, WorkflowRunRecord>();
+
+  async create(run: WorkflowRunRecord): Promise<void> {
+    this.runs.set(run.id, structuredClone(run));
+  }
+
+  async saveStep(runId: string, step: StepResult): Promise<void> {
+    const run = this.runs.get(runId);
+    if (!run) return;
+    run.steps[step.id] = structuredClone(step);
+    run.updatedAt = new Date().toISOString();
+  }
+
+  async update(runId: string, patch: { status: WorkflowRunStatus; error?: string }): Promise<void> {
+    const run = this.runs.get(runId);
+    if (run) applyUpdate(run, patch);
+  }
+
+  async get(runId: string): Promise<WorkflowRunRecord | null> {
+    const run = this.runs.get(runId);
+    return run ? structuredClone(run) : null;
+  }
+
+  async list(filter?: { workflow?: string; status?: WorkflowRunStatus; limit?: number }): Promise<WorkflowRunRecord[]> {
+    return filterRuns(Array.from(this.runs.values()), filter).map(r => structuredClone(r));
+  }
+}
+
+/**
+ * SQLite 存储（本地文件，步骤按 run_id + step_id 覆盖写入，同一进程内复用连接）
+ */
+export class SqliteRunStore implements RunStore {
+  name = 'sqlite';
+  private db?: Database;
+
+  constructor(private file: string) {}
+
+  private async connect(): Promise<Database> {
+    if (!this.db) {
+      const { default: Sqlite } = await import('better-sqlite3');
+      if (this.file !== ':memory:') fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const db = new Sqlite(this.file);
+      db.pragma('journal_mode = WAL');
+      db.pragma('foreign_keys = ON');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS workflow_runs (
+          id TEXT PRIMARY KEY,
+          workflow TEXT NOT NULL,
+          params TEXT NOT NULL DEFAULT '{}',
+          status TEXT NOT NULL,
+          error TEXT,
+          parent_run_id TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS workflow_run_steps (
+          run_id TEXT NOT NULL REFERENCES workflow_runs(id) ON DELETE CASCADE,
+          step_id TEXT NOT NULL,
+          status TEXT NOT NULL,
+          input TEXT,
+          output TEXT,
+          error TEXT,
+          attempts INTEGER DEFAULT 0,
+          optional INTEGER DEFAULT 0,
+          restored INTEGER DEFAULT 0,
+          preview TEXT,
+          started_at TEXT,
+          duration_ms INTEGER DEFAULT 0,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (run_id, step_id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_workflow_runs_workflow ON workflow_runs(workflow, created_at DESC);
+      `);
+      this.db = db;
+    }
+    return this.db;
+  }
+
+  async create(run: WorkflowRunRecord): Promise<void> {
+    const db = await this.connect();
+    const insert = db.prepare(`
+      INSERT INTO workflow_runs (id, workflow, params, status, error, parent_run_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    db.transaction(() => {
+      insert.run(
+        run.id, run.workflow, JSON.stringify(run.params ?? {}), run.status,
+        run.error || null, run.parentRunId || null, run.createdAt, run.updatedAt
+      );
+      for (const step of Object.values(run.steps)) this.writeStep(db, run.id, step);
+    })();
+  }
+
+  private writeStep(db: Database, runId: string, step: StepResult): void {
+    const json = (value: any) => value === undefined ? null : JSON.stringify(value);
+    db.prepare(`
+      INSERT INTO workflow_run_steps
+        (run_id, step_id, status, input, output, error, attempts, optional, restored, preview, started_at, duration_ms, updated_at)
+      VALUES (@run_id, @step_id, @status, @input, @output, @error, @attempts, @optional, @restored, @preview, @started_at, @duration_ms, @updated_at)
+      ON CONFLICT(run_id, step_id) DO UPDATE SET
+        status = excluded.status, input = excluded.input, output = excluded.output, error = excluded.error,
+        attempts = excluded.attempts, optional = excluded.optional, restored = excluded.restored,
+        preview = excluded.preview, started_at = excluded.started_at, duration_ms = excluded.duration_ms,
+        updated_at = excluded.updated_at
+    `).run({
+      run_id: runId,
+      step_id: step.id,
+      status: step.status,
+      input: json(step.input),
+      output: json(step.output),
+      error: step.error || null,
+      attempts: step.attempts,
+      optional: step.optional ? 1 : 0,
+      restored: step.restored ? 1 : 0,
+      preview: json(step.preview),
+      started_at: step.startedAt || null,
+      duration_ms: step.durationMs,
+      updated_at: new Date().toISOString()
+    });
+  }
+
+  async saveStep(runId: string, step: StepResult): Promise<void> {
+    const db = await this.connect();
+    const now = new Date().toISOString();
+    db.transaction(() => {
+      // 运行记录不存在时不写入（与其他存储一致）
+      const updated = db.prepare('UPDATE workflow_runs SET updated_at = ? WHERE id = ?').run(now, runId);
+      if (updated.changes > 0) this.writeStep(db, runId, step);
+    })();
+  }
+
+  async update(runId: string, patch: { status: WorkflowRunStatus; error?: string }): Promise<void> {
+    const db = await this.connect();
+    db.prepare('UPDATE workflow_runs SET status = ?, error = ?, updated_at = ? WHERE id = ?')
+      .run(patch.status, patch.error || null, new Date().toISOString(), runId);
+  }
+
+  async get(runId: string): Promise<WorkflowRunRecord | null> {
+    const db = await this.connect();
+    const row = db.prepare('SELECT * FROM workflow_runs WHERE id = ?').get(runId);
+    if (!row) return null;
+    const steps = db.prepare('SELECT * FROM workflow_run_steps WHERE run_id = ?').all(runId);
+    return toRunRecord({ ...(row as any), workflow_run_steps: steps }, true);
+  }
+
+  async list(filter: { workflow?: string; status?: WorkflowRunStatus; limit?: number } = {}): Promise<WorkflowRunRecord[]> {
+    const db = await this.connect();
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.workflow) {
+      conditions.push('workflow = ?');
+      params.push(filter.workflow);
+    }
+    if (filter.status) {
+      conditions.push('status = ?');
+      params.push(filter.status);
+    }
+
+    const rows = db.prepare(`
+      SELECT * FROM workflow_runs
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at DESC
+      LIMIT ?
+    `).all(...params, filter.limit || 50) as any[];
+    const stepsOf = db.prepare('SELECT * FROM workflow_run_steps WHERE run_id = ?');
+    return rows.map(row => toRunRecord({ ...row, workflow_run_steps: stepsOf.all(row.id) }, true));
+  }
+}
+
+/**
+ * Supabase 存储（workflow_runs + workflow_run_steps 表，步骤按 run_id + step_id 覆盖写入）
+ */
+export class SupabaseRunStore implements RunStore {
+  name = 'supabase';
+
+  private async client() {
+    return (await import('../db')).supabaseAdmin;
+  }
+
+  async create(run: WorkflowRunRecord): Promise<void> {
+    const supabaseAdmin = await this.client();
+    const { error } = await supabaseAdmin.from('workflow_runs').insert({
+      id: run.id,
+      workflow: run.workflow,
+      params: run.params,
+      status: run.status,
+      error: run.error || null,
+      parent_run_id: run.parentRunId || null,
+      created_at: run.createdAt,
+      updated_at: run.updatedAt
+    });
+    if (error) throw error;
+
+    for (const step of Object.values(run.steps)) {
+      await this.saveStep(run.id, step);
+    }
+  }
+
+  async saveStep(runId: string, step: StepResult): Promise<void> {
+    const supabaseAdmin = await this.client();
+    const { error } = await supabaseAdmin.from('workflow_run_steps').upsert({
+      run_id: runId,
+      step_id: step.id,
+      status: step.status,
+      input: step.input ?? null,
+      output: step.output ?? null,
+      error: step.error || null,
+      attempts: step.attempts,
+      optional: step.optional,
+      restored: !!step.restored,
+      preview: step.preview ?? null,
+      started_at: step.startedAt || null,
+      duration_ms: step.durationMs,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'run_id,step_id' });
+    if (error) throw error;
+  }
+
+  async update(runId: string, patch: { status: WorkflowRunStatus; error?: string }): Promise<void> {
+    const supabaseAdmin = await this.client();
+    const { error } = await supabaseAdmin
+      .from('workflow_runs')
+      .update({ status: patch.status, error: patch.error || null, updated_at: new Date().toISOString() })
+      .eq('id', runId);
+    if (error) throw error;
+  }
+
+  async get(runId: string): Promise<WorkflowRunRecord | null> {
+    const supabaseAdmin = await this.client();
+    const { data, error } = await supabaseAdmin
+      .from('workflow_runs')
+      .select('*, workflow_run_steps(*)')
+      .eq('id', runId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toRunRecord(data) : null;
+  }
+
+  async list(filter: { workflow?: string; status?: WorkflowRunStatus; limit?: number } = {}): Promise<WorkflowRunRecord[]> {
+    const supabaseAdmin = await this.client();
+    let query = supabaseAdmin
+      .from('workflow_runs')
+      .select('*, workflow_run_steps(*)')
+      .order('created_at', { ascending: false })
+      .limit(filter.limit || 50);
+
+    if (filter.workflow) query = query.eq('workflow', filter.workflow);
+    if (filter.status) query = query.eq('status', filter.status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map((row: any) => toRunRecord(row));
+  }
+}
+
+/**
+ * 表行转换为运行记录（SQLite 的 JSON 字段为字符串，parseJson 为 true）
+ */
+function toRunRecord(row: any, parseJson = false): WorkflowRunRecord {
+  const json = (value: any) => value == null ? undefined : parseJson ? JSON.parse(value) : value;
+  const steps: Record<string, StepResult> = {};
+  for (const step of row.workflow_run_steps || []) {
+    steps[step.step_id] = {
+      id: step.step_id,
+      status: step.status,
+      input: json(step.input),
+      output: json(step.output),
+      error: step.error || undefined,
+      attempts: step.attempts,
+      optional: !!step.optional,
+      restored: !!step.restored || undefined,
+      preview: json(step.preview),
+      startedAt: step.started_at ? new Date(step.started_at).toISOString() : undefined,
+      durationMs: step.duration_ms
+    };
+  }
+
+  return {
+    id: row.id,
+    workflow: row.workflow,
+    params: json(row.params),
+    status: row.status,
+    error: row.error || undefined,
+    parentRunId: row.parent_run_id || undefined,
+    steps,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+let runStore: RunStore | undefined;
+
+/**
+ * 获取全局运行记录存储
+ */
+export function getRunStore(): RunStore {
+  if (!runStore) {
+    const config = getRunStoreConfig();
+    runStore = config.store === 'supabase'
+      ? new SupabaseRunStore()
+      : config.store === 'memory'
+        ? new MemoryRunStore()
+        : new SqliteRunStore(config.sqlitePath);
+  }
+  return runStore;
+}
+
+/**
+ * 执行流程并保存检查点，存储失败只记录日志，不影响流程
+ */
+async function runWithCheckpoints<P, T>(
+  definition: WorkflowDefinition<P, T>,
+  run: WorkflowRunRecord,
+  options: WorkflowRunOptions,
+  isNew: boolean
+): Promise<WorkflowRunResult<T>> {
+  const store = getRunStore();
+
+  // 检查点按顺序写入，避免并行步骤的写入互相覆盖
+  let pending: Promise<void> = Promise.resolve();
+  const persist = (fn: () => Promise<void>) => {
+    pending = pending.then(fn).catch((error: any) => {
+      console.error(`[WorkflowRuns] ${store.name} write failed:`, error.message);
+    });
+  };
+
+  persist(() => isNew
+    ? store.create({ ...run, params: stripContext(run.params) })
+    : store.update(run.id, { status: 'running' }));
+
+  const result = await runWorkflow(definition, run.params, {
+    ...options,
+    metadata: { ...options.metadata, runId: run.id, parentRunId: run.parentRunId },
+    onStep: (step, progress) => {
+      // 运行中的状态不落盘，只保存结束（或复用）的步骤
+      if (step.status !== 'running') {
+        persist(() => store.saveStep(run.id, { ...step, input: stripContext(step.input) }));
+      }
+      options.onStep?.(step, progress);
+    }
+  });
+
+  persist(() => store.update(run.id, {
+    status: result.success ? 'succeeded' : 'failed',
+    error: result.error
+  }));
+  await pending;
+
+  return { ...result, runId: run.id };
+}
+
+/**
+ * 落盘前去掉会话上下文（对话历史、摘要、用户 ID），只保留会话 ID 和语言；续跑 / 重放时不带对话历史
+ */
+function stripContext<T>(value: T): T {
+  const context = (value as any)?.context;
+  if (!context || typeof context !== 'object') return value;
+  return { ...value, context: { sessionId: context.sessionId, locale: context.locale, conversationHistory: [] } };
+}
+
+function newRun(workflow: string, params: any, parentRunId?: string): WorkflowRunRecord {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    workflow,
+    params,
+    status: 'running',
+    parentRunId,
+    steps: {},
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+async function loadRun(runId: string, workflow: string): Promise<WorkflowRunRecord> {
+  const run = await getRunStore().get(runId);
+  if (!run) {
+    throw new WorkflowRunError(runId, `Workflow run ${runId} not found`);
+  }
+  if (run.workflow !== workflow) {
+    throw new WorkflowRunError(runId, `Workflow run ${runId} belongs to ${run.workflow}, not ${workflow}`);
+  }
+  return run;
+}
+
+/**
+ * 执行流程，每个步骤结束后保存检查点
+ */
+export async function startRun<P, T>(
+  definition: WorkflowDefinition<P, T>,
+  params: P,
+  options: WorkflowRunOptions = {}
+): Promise<WorkflowRunResult<T>> {
+  return runWithCheckpoints(definition, newRun(definition.name, params), options, true);
+}
+
+/**
+ * 续跑失败或中断的运行：已成功的步骤复用输出，其余步骤重新执行（同一个运行 ID）
+ */
+export async function resumeRun<P, T>(
+  definition: WorkflowDefinition<P, T>,
+  runId: string,
+  options: WorkflowRunOptions = {}
+): Promise<WorkflowRunResult<T>> {
+  const run = await loadRun(runId, definition.name);
+  return runWithCheckpoints(definition, run, { ...options, completed: run.steps }, false);
+}
+
+/**
+ * 重放选项
+ */
+export interface ReplayOptions<P = any> extends WorkflowRunOptions {
+  rerun: string[];  // 需要重新执行的步骤，下游步骤一并重跑
+  replace?: Record<string, Partial<WorkflowStep<P>>>;  // 替换步骤定义（如换 Agent 或输入映射）
+  inputs?: Record<string, Partial<AgentInput>>;  // 覆盖 Agent 步骤的输入（可序列化，API 使用）：task 替换，params / context 浅合并
+  params?: Partial<P>;  // 覆盖部分流程参数
+}
+
+/**
+ * 重放历史运行：复用未受影响步骤的输出，重新执行指定步骤及其下游，结果保存为新运行
+ */
+export async function replayRun<P, T>(
+  definition: WorkflowDefinition<P, T>,
+  runId: string,
+  options: ReplayOptions<P>
+): Promise<WorkflowRunResult<T>> {
+  const source = await loadRun(runId, definition.name);
+  const ids = new Set(definition.steps.map(s => s.id));
+
+  const changed = options.rerun.concat(Object.keys(options.replace || {}), Object.keys(options.inputs || {}));
+  for (const id of changed) {
+    if (!ids.has(id)) {
+      throw new WorkflowRunError(runId, `Unknown step ${id} in workflow ${definition.name}`);
+    }
+  }
+
+  // 覆盖输入转换为替换输入映射
+  const replace: Record<string, Partial<WorkflowStep<P>>> = { ...options.replace };
+  for (const [id, override] of Object.entries(options.inputs || {})) {
+    const step = { ...definition.steps.find(s => s.id === id)!, ...replace[id] };
+    if (!step.agent || !step.input) {
+      throw new WorkflowRunError(runId, `Step ${id} is not an agent step, its input cannot be overridden`);
+    }
+    const input = step.input;
+    replace[id] = {
+      ...replace[id],
+      input: (ctx) => {
+        const original = input(ctx);
+        return {
+          ...original,
+          task: override.task ?? original.task,
+          params: { ...original.params, ...override.params },
+          context: override.context ? { ...original.context, ...override.context } : original.context
+        };
+      }
+    };
+  }
+
+  // 替换的步骤也需要重跑；再按依赖关系找出全部下游步骤
+  const dirty = new Set(changed);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const step of definition.steps) {
+      if (!dirty.has(step.id) && (step.dependsOn || []).some(dep => dirty.has(dep))) {
+        dirty.add(step.id);
+        grew = true;
+      }
+    }
+  }
+
+  const completed: Record<string, StepResult> = {};
+  for (const [id, step] of Object.entries(source.steps)) {
+    if (!dirty.has(id)) completed[id] = step;
+  }
+
+  const replayed: WorkflowDefinition<P, T> = {
+    ...definition,
+    steps: definition.steps.map(step => ({ ...step, ...replace[step.id], id: step.id }))
+  };
+
+  const run = newRun(definition.name, { ...source.params, ...options.params }, source.id);
+  return runWithCheckpoints(replayed, run, { ...options, completed }, true);
+}
+
+/**
+ * 查询运行记录
+ */
+export async function getRun(runId: string): Promise<WorkflowRunRecord | null> {
+  return getRunStore().get(runId);
+}
+
+export async function listRuns(
+  filter?: { workflow?: string; status?: WorkflowRunStatus; limit?: number }
+): Promise<WorkflowRunRecord[]> {
+  return getRunStore().list(filter);
+}
@@ -1,138 +1,182 @@
 /**
  * Agent Workflows
  * Agent 工作流 - 协调多个 Agent 完成复杂任务
+ * 流程声明为 DAG（workflow-engine.ts），没有依赖关系的步骤并行执行；
+ * 每次运行保存检查点（workflow-runs.ts），可续跑和重放
  */
 
-import {
-  trendFinderAgent,
-  sourceCollectorAgent,
-  sceneTranslatorAgent,
-  insightSummarizerAgent,
-  salesScriptGeneratorAgent,
-  valuePropositionAgent,
-  dataIngestionAgent
-} from './index';
-import { AgentInput } from './types';
+// 流程定义在加载时引用 Agent 单例，直接从各模块导入（index 会导入本模块）
+import { trendFinderAgent } from './trend-finder';
+import { sourceCollectorAgent } from './source-collector';
+import { sceneTranslatorAgent } from './scene-translator';
+import { insightSummarizerAgent } from './insight-summarizer';
+import { salesScriptGeneratorAgent } from './sales-generator';
+import { valuePropositionAgent } from './value-proposition';
+import { dataIngestionAgent } from './data-ingestion';
+import { AgentContext } from './types';
+import { WorkflowDefinition, WorkflowRunOptions, WorkflowRunResult, defineWorkflow } from './workflow-engine';
+import { ReplayOptions, WorkflowRunError, getRun, replayRun, resumeRun, startRun } from './workflow-runs';
 
 /**
- * 执行脑力风暴流程
- * 完整的脑力风暴工作流：趋势发现 → 数据采集 → 场景转化 → 洞察生成 → 话术生成 → 数据入库
+ * 脑力风暴流程参数
  */
-export async function runBrainstormFlow(params: {
+export interface BrainstormFlowParams {
   query: string;
   industry?: string;
   timeRange?: string;
   autoIngest?: boolean; // 是否自动入库
-}): Promise<any> {
-  const { query, industry, timeRange = '7d', autoIngest = true } = params;
-
-  // Step 1: 趋势发现
-  console.log('[BrainstormFlow] Step 1: 趋势发现...');
-  const trendResult = await trendFinderAgent.execute({
-    task: query,
-    params: { timeRange }
-  });
-
-  if (!trendResult.success) {
-    throw new Error('趋势发现失败: ' + trendResult.error);
-  }
-
-  // Step 2: 数据采集
-  console.log('[BrainstormFlow] Step 2: 数据采集...');
-  const collectResult = await sourceCollectorAgent.execute({
-    task: query,
-    params: {
-      sources: ['producthunt', 'twitter', 'reddit', 'github'],
-      keywords: ['ai agent', 'automation', 'copilot'],
-      limit: 20
-    }
-  });
-
-  if (!collectResult.success) {
-    console.warn('[BrainstormFlow] 数据采集失败，使用默认数据');
-  }
-
-  // Step 3: 场景转化
-  console.log('[BrainstormFlow] Step 3: 场景转化...');
-  const sceneResult = await sceneTranslatorAgent.execute({
-    task: query,
-    params: {
-      cases: collectResult.data?.cases || [],
-      industry
-    }
-  });
-
-  if (!sceneResult.success) {
-    console.warn('[BrainstormFlow] 场景转化失败');
-  }
+}
 
-  // Step 4: 洞察生成
-  console.log('[BrainstormFlow] Step 4: 洞察生成...');
-  const insightResult = await insightSummarizerAgent.execute({
-    task: query,
-    params: {
-      trends: trendResult.data?.trends || [],
-      scenes: sceneResult.data?.scenes || [],
-      context: { query, industry }
-    }
-  });
+export interface BrainstormFlowData {
+  trends: any;
+  cases?: any[];
+  scenes?: any[];
+  insights: any;
+  salesScript?: any;
+  valueProposition?: any;
+  suggestions?: any;
+  ingestion: any;
+}
 
-  if (!insightResult.success) {
-    throw new Error('洞察生成失败: ' + insightResult.error);
-  }
+/**
+ * 步骤输出摘要：列表条目的标题和总数
+ */
+function previewList(items: any[] | undefined, limit = 5): { count: number; titles: string[] } {
+  const list = items || [];
+  return {
+    count: list.length,
+    titles: list.slice(0, limit).map((item: any) => item.title || item.name || item.trend || '')
+  };
+}
 
-  // Step 5: 销售话术生成
-  console.log('[BrainstormFlow] Step 5: 销售话术生成...');
-  const scene = sceneResult.data?.scenes?.[0];
-  const scriptResult = await salesScriptGeneratorAgent.execute({
-    task: '生成销售话术',
-    params: {
-      type: 'cold_call',
-      scene,
-      customer: { industry: industry || '通用', companySize: '中大型', role: '决策者' }
+/**
+ * 脑力风暴流程
+ *
+ *   trend ───────────────────────┐
+ *   collect → translate ─┬→ insight
+ *                        ├→ script
+ *                        └→ value
+ *   trend + collect + translate → ingest（autoIngest）
+ *
+ * 趋势发现和洞察生成是必需步骤，其余步骤失败时流程继续；
+ * 各步骤的 preview 是推送给前端的部分结果（已发现的趋势、案例、场景等）
+ */
+export const brainstormWorkflow = defineWorkflow<BrainstormFlowParams, BrainstormFlowData>({
+  name: 'brainstorm',
+  steps: [
+    {
+      id: 'trend',
+      agent: trendFinderAgent,
+      input: ({ params }) => ({ task: params.query, params: { timeRange: params.timeRange || '7d' } }),
+      preview: (output) => ({ trends: previewList(output?.trends) }),
+      retries: 1
+    },
+    {
+      id: 'collect',
+      agent: sourceCollectorAgent,
+      input: ({ params }) => ({
+        task: params.query,
+        params: {
+          sources: ['producthunt', 'twitter', 'reddit', 'github'],
+          keywords: ['ai agent', 'automation', 'copilot'],
+          limit: 20
+        }
+      }),
+      preview: (output) => ({ cases: previewList(output?.cases) }),
+      retries: 1,
+      optional: true
+    },
+    {
+      id: 'translate',
+      agent: sceneTranslatorAgent,
+      dependsOn: ['collect'],
+      input: ({ params, outputs }) => ({
+        task: params.query,
+        params: { cases: outputs.collect?.cases || [], industry: params.industry }
+      }),
+      preview: (output) => ({ scenes: previewList(output?.scenes) }),
+      optional: true
+    },
+    {
+      id: 'insight',
+      agent: insightSummarizerAgent,
+      dependsOn: ['trend', 'translate'],
+      input: ({ params, outputs }) => ({
+        task: params.query,
+        params: {
+          trends: outputs.trend?.trends || [],
+          scenes: outputs.translate?.scenes || [],
+          context: { query: params.query, industry: params.industry }
+        }
+      }),
+      preview: (output) => ({ opportunities: previewList(output?.opportunities) }),
+      retries: 1
+    },
+    {
+      id: 'script',
+      agent: salesScriptGeneratorAgent,
+      dependsOn: ['translate'],
+      input: ({ params, outputs }) => ({
+        task: '生成销售话术',
+        params: {
+          type: 'cold_call',
+          scene: outputs.translate?.scenes?.[0],
+          customer: { industry: params.industry || '通用', companySize: '中大型', role: '决策者' }
+        }
+      }),
+      preview: (output) => ({ title: output?.primaryScript?.title }),
+      optional: true
+    },
+    {
+      id: 'value',
+      agent: valuePropositionAgent,
+      dependsOn: ['translate'],
+      input: ({ params, outputs }) => ({
+        task: '生成价值主张',
+        params: {
+          scene: outputs.translate?.scenes?.[0],
+          customer: { industry: params.industry || '通用' }
+        }
+      }),
+      optional: true
+    },
+    {
+      id: 'ingest',
+      dependsOn: ['trend', 'collect', 'translate'],
+      when: ({ params }) => params.autoIngest !== false,
+      run: ({ outputs }) => ingestBrainstormData({
+        trends: outputs.trend?.trends || [],
+        cases: outputs.collect?.cases || [],
+        scenes: outputs.translate?.scenes || []
+      }),
+      preview: (output) => ({ totalNodes: output?.totalNodes || 0, totalEdges: output?.totalEdges || 0 }),
+      optional: true
     }
-  });
+  ],
+  output: ({ outputs }) => ({
+    trends: outputs.trend,
+    cases: outputs.collect?.cases,
+    scenes: outputs.translate?.scenes,
+    insights: outputs.insight,
+    salesScript: outputs.script,
+    valueProposition: outputs.value,
+    suggestions: outputs.translate?.suggestions,
+    ingestion: outputs.ingest || null
+  })
+});
 
-  // Step 6: 价值主张生成
-  console.log('[BrainstormFlow] Step 6: 价值主张生成...');
-  const valueResult = await valuePropositionAgent.execute({
-    task: '生成价值主张',
-    params: {
-      scene,
-      customer: { industry: industry || '通用' }
-    }
+/**
+ * 执行脑力风暴流程
+ * 完整的脑力风暴工作流：趋势发现 → 数据采集 → 场景转化 → 洞察生成 → 话术生成 → 数据入库
+ */
+export async function runBrainstormFlow(
+  params: BrainstormFlowParams,
+  options: WorkflowRunOptions = {}
+): Promise<WorkflowRunResult<BrainstormFlowData>> {
+  return startRun(brainstormWorkflow, params, {
+    ...options,
+    metadata: { ...options.metadata, autoIngest: params.autoIngest !== false }
   });
-
-  // Step 7: 数据入库（新增）
-  let ingestionResult = null;
-  if (autoIngest) {
-    console.log('[BrainstormFlow] Step 7: 数据入库...');
-    ingestionResult = await ingestBrainstormData({
-      trends: trendResult.data?.trends || [],
-      cases: collectResult.data?.cases || [],
-      scenes: sceneResult.data?.scenes || []
-    });
-  }
-
-  // 汇总结果
-  return {
-    success: true,
-    data: {
-      trends: trendResult.data,
-      cases: collectResult.data?.cases,
-      scenes: sceneResult.data?.scenes,
-      insights: insightResult.data,
-      salesScript: scriptResult.data,
-      valueProposition: valueResult.data,
-      suggestions: sceneResult.data?.suggestions,
-      ingestion: ingestionResult
-    },
-    metadata: {
-      steps: ['trend', 'collect', 'translate', 'insight', 'script', 'value', 'ingest'],
-      timestamp: new Date().toISOString(),
-      autoIngest
-    }
-  };
 }
 
 /**
@@ -152,7 +196,7 @@ async function ingestBrainstormData(data: {
 
   // 导入趋势数据
   if (data.trends?.length > 0) {
-    const trendIngest = await dataIngestionAgent.execute({
+    const trendIngest = await dataIngestionAgent.run({
       task: '导入趋势数据',
       params: { data: data.trends, dataType: 'trends' }
     });
@@ -163,7 +207,7 @@ async function ingestBrainstormData(data: {
 
   // 导入案例数据
   if (data.cases?.length > 0) {
-    const caseIngest = await dataIngestionAgent.execute({
+    const caseIngest = await dataIngestionAgent.run({
       task: '导入案例数据',
       params: { data: data.cases, dataType: 'cases' }
     });
@@ -174,7 +218,7 @@ async function ingestBrainstormData(data: {
 
   // 导入场景数据
   if (data.scenes?.length > 0) {
-    const sceneIngest = await dataIngestionAgent.execute({
+    const sceneIngest = await dataIngestionAgent.run({
       task: '导入场景数据',
       params: { data: data.scenes, dataType: 'scenes' }
     });
@@ -196,46 +240,65 @@ async function ingestBrainstormData(data: {
 }
 
 /**
- * 执行案例搜索流程
+ * 案例搜索流程参数
  */
-export async function runCaseSearchFlow(params: {
+export interface CaseSearchFlowParams {
   keyword: string;
   industry?: string;
   limit?: number;
-}): Promise<any> {
-  const { keyword, industry, limit = 10 } = params;
+}
 
-  // 数据采集
-  const collectResult = await sourceCollectorAgent.execute({
-    task: keyword,
-    params: {
-      keywords: [keyword],
-      limit
-    }
-  });
+export interface CaseSearchFlowData {
+  cases?: any[];
+  scenes?: any[];
+}
 
-  // 场景转化
-  const sceneResult = await sceneTranslatorAgent.execute({
-    task: keyword,
-    params: {
-      cases: collectResult.data?.cases || [],
-      industry
+/**
+ * 案例搜索流程：数据采集 → 场景转化（可选）
+ */
+export const caseSearchWorkflow = defineWorkflow<CaseSearchFlowParams, CaseSearchFlowData>({
+  name: 'case_search',
+  steps: [
+    {
+      id: 'collect',
+      agent: sourceCollectorAgent,
+      input: ({ params }) => ({
+        task: params.keyword,
+        params: { keywords: [params.keyword], limit: params.limit || 10 }
+      }),
+      retries: 1
+    },
+    {
+      id: 'translate',
+      agent: sceneTranslatorAgent,
+      dependsOn: ['collect'],
+      input: ({ params, outputs }) => ({
+        task: params.keyword,
+        params: { cases: outputs.collect?.cases || [], industry: params.industry }
+      }),
+      optional: true
     }
-  });
+  ],
+  output: ({ outputs }) => ({
+    cases: outputs.collect?.cases,
+    scenes: outputs.translate?.scenes
+  })
+});
 
-  return {
-    success: true,
-    data: {
-      cases: collectResult.data?.cases,
-      scenes: sceneResult.data?.scenes
-    }
-  };
+/**
+ * 执行案例搜索流程
+ */
+export async function runCaseSearchFlow(
+  params: CaseSearchFlowParams,
+  options: WorkflowRunOptions = {}
+): Promise<WorkflowRunResult<CaseSearchFlowData>> {
+  return startRun(caseSearchWorkflow, params, options);
 }
 
 /**
- * 执行销售话术生成流程
+ * 销售话术流程参数
  */
-export async function runSalesScriptFlow(params: {
+export interface SalesScriptFlowParams {
   scene?: any;
   caseInfo?: any;
   customer: {
@@ -244,34 +307,92 @@ export async function runSalesScriptFlow(params: {
     role?: string;
   };
   type?: 'cold_call' | 'follow_up' | 'demo' | 'objection_handling' | 'closing';
-}): Promise<any> {
-  const { scene, caseInfo, customer, type = 'cold_call' } = params;
+  context?: AgentContext;  // 会话上下文（多轮对话）
+}
 
-  // 生成销售话术
-  const scriptResult = await salesScriptGeneratorAgent.execute({
-    task: `生成${type}话术`,
-    params: {
-      type,
-      scene,
-      caseInfo,
-      customer
-    }
-  });
+export interface SalesScriptFlowData {
+  script: any;
+  valueProposition?: any;
+}
 
-  // 生成价值主张
-  const valueResult = await valuePropositionAgent.execute({
-    task: '生成价值主张',
-    params: {
-      scene,
-      customer
+/**
+ * 销售话术流程：话术和价值主张并行生成，价值主张可选
+ */
+export const salesScriptWorkflow = defineWorkflow<SalesScriptFlowParams, SalesScriptFlowData>({
+  name: 'sales_script',
+  steps: [
+    {
+      id: 'script',
+      agent: salesScriptGeneratorAgent,
+      input: ({ params }) => {
+        const type = params.type || 'cold_call';
+        return {
+          task: `生成${type}话术`,
+          context: params.context,
+          params: { type, scene: params.scene, caseInfo: params.caseInfo, customer: params.customer }
+        };
+      },
+      retries: 1
+    },
+    {
+      id: 'value',
+      agent: valuePropositionAgent,
+      input: ({ params }) => ({
+        task: '生成价值主张',
+        context: params.context,
+        params: { scene: params.scene, customer: params.customer }
+      }),
+      optional: true
     }
-  });
+  ],
+  output: ({ outputs }) => ({
+    script: outputs.script,
+    valueProposition: outputs.value
+  })
+});
 
-  return {
-    success: true,
-    data: {
-      script: scriptResult.data,
-      valueProposition: valueResult.data
-    }
-  };
+/**
+ * 执行销售话术生成流程
+ */
+export async function runSalesScriptFlow(
+  params: SalesScriptFlowParams,
+  options: WorkflowRunOptions = {}
+): Promise<WorkflowRunResult<SalesScriptFlowData>> {
+  return startRun(salesScriptWorkflow, params, options);
+}
+
+/**
+ * 已注册的流程（按名称续跑 / 重放）
+ */
+export const workflows: Record<string, WorkflowDefinition> = {
+  [brainstormWorkflow.name]: brainstormWorkflow,
+  [caseSearchWorkflow.name]: caseSearchWorkflow,
+  [salesScriptWorkflow.name]: salesScriptWorkflow
+};
+
+async function findWorkflow(runId: string): Promise<WorkflowDefinition> {
+  const run = await getRun(runId);
+  if (!run) {
+    throw new WorkflowRunError(runId, `Workflow run ${runId} not found`);
+  }
+  const definition = workflows[run.workflow];
+  if (!definition) {
+    throw new WorkflowRunError(runId, `Unknown workflow ${run.workflow}`);
+  }
+  return definition;
+}
+
+/**
+ * 续跑失败或中断的运行
+ */
+export async function resumeFlow(runId: string, options: WorkflowRunOptions = {}): Promise<WorkflowRunResult> {
+  return resumeRun(await findWorkflow(runId), runId, options);
+}
+
+/**
+ * 重放历史运行，只重新执行指定步骤及其下游
+ * 例如换了话术模板后：replayFlow(runId, { rerun: ['script'] })
+ */
+export async function replayFlow(runId: string, options: ReplayOptions): Promise<WorkflowRunResult> {
+  return replayRun(await findWorkflow(runId), runId, options);
 }
@@ -0,0 +1,119 @@
+/**
+ * BM25 Keyword Index
+ * BM25 关键词索引 - 补充向量检索对专有名词（如 FinGPT、ChatGPT-Next-Web）的召回
+ *
+ * 分词：Intl.Segmenter 按词典切分中文，中文连续片段另加二元组（弥补词典未收录的词，如"客服"）；
+ * 英文转小写，连字符 / 点号连接的名称同时保留整体和各部分
+ */
+
+const STOP_WORDS = new Set([
+  '的', '了', '和', '是', '在', '有', '与', '及', '或', '等', '把', '被', '对', '为', '中', '上', '也', '都', '就',
+  '我', '你', '他', '她', '它', '们', '这', '那', '个', '吗', '呢', '吧', '啊',
+  '什么', '怎么', '如何', '哪些', '一个', '可以', '我们', '你们', '他们', '这个', '那个',
+  'a', 'an', 'the', 'is', 'are', 'was', 'be', 'of', 'in', 'on', 'for', 'to', 'and', 'or', 'with', 'by', 'at', 'as',
+  'it', 'this', 'that', 'from', 'how', 'what', 'which'
+]);
+
+const CJK = /[㐀-鿿豈-﫿]/;
+const CJK_RUN = /[㐀-鿿豈-﫿]+/g;
+const COMPOUND = /[a-z0-9]+(?:[-_.][a-z0-9]+)+/g;
+
+const segmenter = new Intl.Segmenter('zh', { granularity: 'word' });
+
+/**
+ * 分词（中英文混合）
+ */
+export function tokenize(text: string): string[] {
+  const normalized = (text || '').toLowerCase();
+  const tokens: string[] = [];
+
+  for (const { segment, isWordLike } of Array.from(segmenter.segment(normalized))) {
+    if (!isWordLike || STOP_WORDS.has(segment)) continue;
+    // 单个英文字母或数字没有区分度
+    if (segment.length === 1 && !CJK.test(segment)) continue;
+    tokens.push(segment);
+  }
+
+  for (const run of normalized.match(CJK_RUN) || []) {
+    for (let i = 0; i < run.length - 1; i++) {
+      tokens.push(run.slice(i, i + 2));
+    }
+  }
+
+  tokens.push(...(normalized.match(COMPOUND) || []));
+  return tokens;
+}
+
+/**
+ * 检索结果
+ */
+export interface BM25Match {
+  id: string;
+  score: number;
+}
+
+interface IndexedDocument {
+  id: string;
+  length: number;
+  termFrequency: Map<string, number>;
+}
+
+/**
+ * BM25 索引（内存）
+ */
+export class BM25Index {
+  private documents: IndexedDocument[] = [];
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(private k1: number = 1.2, private b: number = 0.75) {}
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  add(id: string, text: string): void {
+    const tokens = tokenize(text);
+    const termFrequency = new Map<string, number>();
+    for (const token of tokens) {
+      termFrequency.set(token, (termFrequency.get(token) || 0) + 1);
+    }
+    termFrequency.forEach((_, term) => {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+    });
+
+    this.documents.push({ id, length: tokens.length, termFrequency });
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * 按 BM25 得分降序返回匹配的文档，filter 为 false 的文档不参与排序
+   */
+  search(query: string, limit: number, filter?: (id: string) => boolean): BM25Match[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.documents.length === 0) return [];
+
+    const count = this.documents.length;
+    const averageLength = this.totalLength / count || 1;
+    const matches: BM25Match[] = [];
+
+    for (const document of this.documents) {
+      if (filter && !filter(document.id)) continue;
+
+      let score = 0;
+      for (const term of terms) {
+        const frequency = document.termFrequency.get(term);
+        if (!frequency) continue;
+        const df = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + this.b * document.length / averageLength));
+      }
+      if (score > 0) {
+        matches.push({ id: document.id, score });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Cancellation
+ * 取消信号 - 在执行范围内传递 AbortSignal，范围内的 LLM 调用（包括 Agent 内部的 callQwen）
+ * 自动带上信号，取消后进行中的请求被中止，不需要逐层传参
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+const storage = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * 在带取消信号的范围内执行 fn，signal 为空时沿用外层范围
+ */
+export function runWithSignal<T>(signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+  return signal ? storage.run(signal, fn) : fn();
+}
+
+/**
+ * 当前范围的取消信号
+ */
+export function getAbortSignal(): AbortSignal | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,212 @@
+/**
+ * Chunking
+ * 文本分块 - 把案例的 README 和描述按 Markdown 标题切分为带重叠的块，用于块级检索
+ *
+ * - 每个块记录所在章节（标题路径，如"Features > Memory"），回答可以引用具体章节
+ * - 超过 maxChars 的章节按段落 / 句子切分，相邻块重叠 overlap 个字符
+ * - 案例的第 0 块是结构化摘要（描述、用例、痛点、方案、效果）
+ */
+
+import crypto from 'crypto';
+
+/**
+ * 分块配置
+ */
+export interface ChunkingConfig {
+  maxChars: number;  // 单块最大字符数
+  overlap: number;   // 相邻块的重叠字符数
+  minChars: number;  // 短于该长度的章节并入下一章节
+}
+
+/**
+ * 从环境变量读取配置
+ */
+export function getChunkingConfig(): ChunkingConfig {
+  const env = process.env;
+  return {
+    maxChars: parseInt(env.CHUNK_MAX_CHARS || '1200'),
+    overlap: parseInt(env.CHUNK_OVERLAP || '150'),
+    minChars: parseInt(env.CHUNK_MIN_CHARS || '80')
+  };
+}
+
+/**
+ * 文本块
+ */
+export interface TextChunk {
+  section: string;  // 标题路径，无标题时为空
+  content: string;
+}
+
+/**
+ * 案例块（case_chunks 表的一行）
+ */
+export interface CaseChunkRow {
+  id: string;  // `${case_id}#${chunk_index}`
+  case_id: string;
+  chunk_index: number;
+  kind: 'summary' | 'description' | 'readme';
+  section: string | null;
+  content: string;
+  project_name: string;
+  industry: string | null;
+  source: string | null;  // 案例来源（GitHub、Reddit 等）
+  source_url: string | null;
+  technology: string[] | null;
+  content_hash: string;
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * 去掉对检索无用的内容：HTML 注释、只有图片 / 徽章的行、多余空行
+ */
+function clean(text: string): string {
+  return text
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .split('\n')
+    .filter(line => !/^\s*(\[?!\[[^\]]*\]\([^)]*\)\]?(\([^)]*\))?\s*)+$/.test(line))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * 按 Markdown 标题切分章节（代码块内的 # 不视为标题）
+ */
+function splitSections(text: string): TextChunk[] {
+  const sections: TextChunk[] = [];
+  const path: string[] = [];
+  let lines: string[] = [];
+  let inCode = false;
+
+  const flush = () => {
+    const content = lines.join('\n').trim();
+    if (content) sections.push({ section: path.filter(Boolean).join(' > '), content });
+    lines = [];
+  };
+
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inCode = !inCode;
+    const heading = inCode ? null : line.match(HEADING);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      path.length = level - 1;
+      path[level - 1] = heading[2].replace(/[*_`]/g, '').trim();
+      continue;
+    }
+    lines.push(line);
+  }
+  flush();
+  return sections;
+}
+
+/**
+ * 把过长的文本按段落、句子切分为不超过 maxChars 的片段，相邻片段重叠 overlap 个字符
+ */
+function splitLong(text: string, maxChars: number, overlap: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  // 段落 → 句子 → 硬切
+  const units = text
+    .split(/\n{2,}/)
+    .flatMap(paragraph => paragraph.length <= maxChars
+      ? [paragraph]
+      : paragraph.split(/(?<=[。！？.!?])\s*/).flatMap(sentence => {
+        const pieces: string[] = [];
+        for (let i = 0; i < sentence.length; i += maxChars) pieces.push(sentence.slice(i, i + maxChars));
+        return pieces;
+      }));
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const unit of units) {
+    if (current && current.length + unit.length + 2 > maxChars) {
+      pieces.push(current);
+      // 重叠部分从词边界开始
+      const tail = current.slice(-overlap).replace(/^\S*\s+/, '');
+      current = tail.length + unit.length + 2 <= maxChars ? `${tail}\n\n${unit}` : unit;
+    } else {
+      current = current ? `${current}\n\n${unit}` : unit;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Markdown 分块
+ */
+export function chunkMarkdown(text: string, config: ChunkingConfig = getChunkingConfig()): TextChunk[] {
+  const sections = splitSections(clean(text || ''));
+
+  // 过短的章节（如只有一行的标题说明）并入下一章节
+  const merged: TextChunk[] = [];
+  let pending: TextChunk | null = null;
+  for (const section of sections) {
+    const current: TextChunk = pending
+      ? {
+        // 章节名取内容较多的一方
+        section: pending.content.length > section.content.length ? pending.section : section.section,
+        content: `${pending.content}\n\n${section.content}`
+      }
+      : section;
+    pending = null;
+    if (current.content.length < config.minChars) {
+      pending = current;
+    } else {
+      merged.push(current);
+    }
+  }
+  if (pending) merged.push(pending);
+
+  return merged.flatMap(section =>
+    splitLong(section.content, config.maxChars, config.overlap).map(content => ({ section: section.section, content }))
+  );
+}
+
+/**
+ * 案例分块：结构化摘要 + 描述 + README
+ * README 取 readme_content 或 raw_data.readme_content，描述取 description 或 raw_data.description
+ */
+export function chunkCase(row: any, config: ChunkingConfig = getChunkingConfig()): CaseChunkRow[] {
+  const raw = row.raw_data || {};
+  const description: string = row.description || raw.description || '';
+  const readme: string = row.readme_content || raw.readme_content || '';
+
+  const summary = [
+    description.length <= config.maxChars ? description : '',
+    row.use_case_summary,
+    row.use_case,
+    row.pain_point,
+    row.solution_approach,
+    row.outcome
+  ].filter(Boolean).join('\n');
+
+  const chunks: { kind: CaseChunkRow['kind']; section: string; content: string }[] = [
+    { kind: 'summary', section: '', content: summary || row.project_name || '' },
+    ...(description.length > config.maxChars
+      ? splitLong(description, config.maxChars, config.overlap).map(content => ({ kind: 'description' as const, section: '', content }))
+      : []),
+    ...chunkMarkdown(readme, config).map(chunk => ({ kind: 'readme' as const, ...chunk }))
+  ];
+
+  const industry = row.industry || null;
+  return chunks.map((chunk, index) => ({
+    id: `${row.id}#${index}`,
+    case_id: String(row.id),
+    chunk_index: index,
+    kind: chunk.kind,
+    section: chunk.section || null,
+    content: chunk.content,
+    project_name: row.project_name || '',
+    industry,
+    source: row.source || null,
+    source_url: row.source_url || null,
+    technology: row.technology || null,
+    content_hash: crypto.createHash('sha256')
+      .update([row.project_name, industry, chunk.section, chunk.content].join('\n'))
+      .digest('hex')
+  }));
+}
@@ -0,0 +1,291 @@
+/**
+ * Citation Verification
+ * 引用校验 - 检查 RAG 回答中的编号引用（[1]、[2][3]、[1, 3]）是否有来源支撑
+ *
+ * 回答按句切分为论断，每个论断：
+ * - uncited：没有引用任何来源
+ * - invalid：引用了不存在的来源编号
+ * - unsupported：引用的来源不支持该论断（数字不在来源中，或内容与来源不符）
+ * - supported：至少一个引用的来源支持该论断
+ *
+ * 校验方式：lexical（默认）按词覆盖率和数字比对；llm 由模型逐条判断（跨语言时更准，失败时回退到 lexical）
+ */
+
+import { z } from 'zod';
+import { tokenize } from './bm25';
+import { callStructured } from './llm';
+import { renderPrompt } from './prompts';
+
+/**
+ * 校验配置
+ */
+export interface CitationConfig {
+  verifier: 'lexical' | 'llm';
+  supportThreshold: number;  // lexical：论断的词在来源中出现的比例下限
+  minClaimChars: number;     // 短于该长度的句子（标题、过渡语）不视为论断
+}
+
+/**
+ * 从环境变量读取配置
+ */
+export function getCitationConfig(): CitationConfig {
+  const env = process.env;
+  return {
+    verifier: env.CITATION_VERIFIER === 'llm' ? 'llm' : 'lexical',
+    supportThreshold: parseFloat(env.CITATION_SUPPORT_THRESHOLD || '0.35'),
+    minClaimChars: parseInt(env.CITATION_MIN_CLAIM_CHARS || '8')
+  };
+}
+
+/**
+ * 被引用的来源（编号从 1 开始，与上下文中的 [n] 对应）
+ */
+export interface CitableSource {
+  id: string;
+  title: string;
+  content: string;
+}
+
+/**
+ * 一处引用
+ */
+export interface Citation {
+  source: number;     // 来源编号
+  sourceId?: string;  // 编号有效时为来源 ID
+  start: number;      // 引用标记在回答中的位置
+  end: number;
+  claim: number;      // 所在论断的下标
+  supported: boolean;
+  support: number;    // 词覆盖率（0-1）
+}
+
+export type ClaimStatus = 'supported' | 'uncited' | 'unsupported' | 'invalid';
+
+/**
+ * 一条论断
+ */
+export interface ClaimCheck {
+  text: string;     // 去掉引用标记后的句子
+  start: number;    // 在回答中的位置
+  end: number;
+  sources: number[];
+  status: ClaimStatus;
+  reason?: string;
+}
+
+/**
+ * 校验结果
+ */
+export interface CitationReport {
+  citations: Citation[];
+  claims: ClaimCheck[];
+  flagged: ClaimCheck[];  // uncited / invalid / unsupported 的论断
+  grounded: number;       // 有来源支撑的论断占比（0-1），没有论断时为 1
+  citedSources: number[]; // 被引用过的有效来源编号
+  verifier: CitationConfig['verifier'];
+}
+
+const CITATION_GROUP = /\[(\d+(?:\s*[,，、]\s*\d+)*)\]/g;
+const SENTENCE_END = /[。！？!?；;\n]/;
+const NUMBER = /\d+(?:\.\d+)?%?/g;
+
+/**
+ * 是否为句末：英文句号后须有空白或位于末尾（小数点、版本号不算），行首的列表序号（“1. ”）不算
+ */
+function isSentenceEnd(answer: string, i: number): boolean {
+  if (SENTENCE_END.test(answer[i])) return true;
+  if (answer[i] !== '.' || (i + 1 < answer.length && !/\s/.test(answer[i + 1]))) return false;
+  const lineStart = answer.lastIndexOf('\n', i) + 1;
+  return !/^[ \t]*\d+$/.test(answer.slice(lineStart, i));
+}
+
+/**
+ * 按句切分，句末之后紧跟的引用标记归入该句
+ */
+function splitSentences(answer: string): { start: number; end: number }[] {
+  const sentences: { start: number; end: number }[] = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < answer.length) {
+    if (isSentenceEnd(answer, i)) {
+      let end = i + 1;
+      const trailing = answer.slice(end).match(/^[ \t]*(\[\d+(?:\s*[,，、]\s*\d+)*\][ \t]*)+/);
+      if (trailing) end += trailing[0].length;
+      sentences.push({ start, end });
+      start = end;
+      i = end;
+    } else {
+      i++;
+    }
+  }
+  if (start < answer.length) sentences.push({ start, end: answer.length });
+  return sentences;
+}
+
+/**
+ * 去掉引用标记和 Markdown 符号
+ */
+function claimText(sentence: string): string {
+  return sentence
+    .replace(CITATION_GROUP, '')
+    .replace(/^[\s>*\-#]+/, '')
+    .replace(/^\d+(?:[.)]\s+|[、）]\s*)/, '')
+    .replace(/[*_`]/g, '')
+    .trim();
+}
+
+/**
+ * 论断的词在来源中出现的比例
+ */
+function lexicalSupport(claim: string, source: CitableSource): number {
+  const claimTokens = Array.from(new Set(tokenize(claim)));
+  if (claimTokens.length === 0) return 0;
+  const sourceTokens = new Set(tokenize(`${source.title}\n${source.content}`));
+  return claimTokens.filter(token => sourceTokens.has(token)).length / claimTokens.length;
+}
+
+/**
+ * 论断中不在任何引用来源里出现的数字（编造的数据最常见的形式）
+ */
+function unmatchedNumbers(claim: string, sources: CitableSource[]): string[] {
+  const text = sources.map(source => `${source.title}\n${source.content}`).join('\n');
+  return (claim.match(NUMBER) || []).filter(number => !text.includes(number.replace(/%$/, '')));
+}
+
+const VerdictSchema = z.array(z.object({
+  claim: z.number().int(),
+  supported: z.boolean()
+}));
+
+/**
+ * LLM 判断引用的来源是否支持论断，返回 claim 下标 → 是否支持；失败时返回 null
+ */
+async function llmVerdicts(
+  claims: { index: number; text: string; sources: CitableSource[] }[]
+): Promise<Map<number, boolean> | null> {
+  if (claims.length === 0) return new Map();
+
+  const items = claims.map(claim => ({
+    claim: claim.index,
+    text: claim.text,
+    sources: claim.sources.map(source => `${source.title}: ${source.content.slice(0, 800)}`)
+  }));
+  const result = await callStructured(renderPrompt('rag.verify', { claims: items }), VerdictSchema, {
+    agent: 'citation',
+    model: 'qwen-turbo',
+    temperature: 0,
+    fallback: () => null
+  });
+  if (!result.data) return null;
+  return new Map(result.data.map(verdict => [verdict.claim, verdict.supported]));
+}
+
+/**
+ * 校验回答中的引用，sources[i] 对应编号 i + 1
+ */
+export async function verifyCitations(
+  answer: string,
+  sources: CitableSource[],
+  config: CitationConfig = getCitationConfig()
+): Promise<CitationReport> {
+  const citations: Citation[] = [];
+  const claims: ClaimCheck[] = [];
+
+  for (const sentence of splitSentences(answer)) {
+    const raw = answer.slice(sentence.start, sentence.end);
+    const text = claimText(raw);
+    if (text.replace(/\s/g, '').length < config.minClaimChars || /[:：]$/.test(text)) continue;
+
+    const claimIndex = claims.length;
+    const numbers: number[] = [];
+    for (const match of Array.from(raw.matchAll(CITATION_GROUP))) {
+      const start = sentence.start + (match.index ?? 0);
+      for (const value of match[1].split(/\s*[,，、]\s*/)) {
+        const source = parseInt(value);
+        numbers.push(source);
+        citations.push({
+          source,
+          sourceId: sources[source - 1]?.id,
+          start,
+          end: start + match[0].length,
+          claim: claimIndex,
+          supported: false,
+          support: 0
+        });
+      }
+    }
+
+    claims.push({
+      text,
+      start: sentence.start,
+      end: sentence.end,
+      sources: Array.from(new Set(numbers)),
+      status: 'uncited'
+    });
+  }
+
+  // lexical：词覆盖率 + 数字比对
+  for (const citation of citations) {
+    const source = sources[citation.source - 1];
+    if (!source) continue;
+    const claim = claims[citation.claim];
+    citation.support = lexicalSupport(claim.text, source);
+    citation.supported = citation.support >= config.supportThreshold && unmatchedNumbers(claim.text, [source]).length === 0;
+  }
+
+  let verifier = config.verifier;
+  if (verifier === 'llm') {
+    const verdicts = await llmVerdicts(claims
+      .map((claim, index) => ({
+        index,
+        text: claim.text,
+        sources: claim.sources.map(n => sources[n - 1]).filter((source): source is CitableSource => !!source)
+      }))
+      .filter(claim => claim.sources.length > 0));
+
+    if (verdicts) {
+      for (const citation of citations) {
+        if (sources[citation.source - 1] && verdicts.has(citation.claim)) {
+          citation.supported = verdicts.get(citation.claim)!;
+        }
+      }
+    } else {
+      console.warn('[Citations] LLM verification failed, using lexical check');
+      verifier = 'lexical';
+    }
+  }
+
+  claims.forEach((claim, index) => {
+    const claimCitations = citations.filter(citation => citation.claim === index);
+    if (claim.sources.length === 0) {
+      claim.status = 'uncited';
+      claim.reason = '没有引用来源';
+    } else if (claimCitations.some(citation => citation.supported)) {
+      claim.status = 'supported';
+    } else if (claim.sources.every(n => !sources[n - 1])) {
+      claim.status = 'invalid';
+      claim.reason = `引用的来源不存在：${claim.sources.map(n => `[${n}]`).join('')}`;
+    } else {
+      const cited = claim.sources.map(n => sources[n - 1]).filter((source): source is CitableSource => !!source);
+      const numbers = unmatchedNumbers(claim.text, cited);
+      claim.status = 'unsupported';
+      claim.reason = numbers.length > 0
+        ? `来源中没有这些数据：${numbers.join('、')}`
+        : '引用的来源不支持该内容';
+    }
+  });
+
+  const flagged = claims.filter(claim => claim.status !== 'supported');
+  const citedSources = Array.from(new Set(citations.filter(c => sources[c.source - 1]).map(c => c.source)))
+    .sort((a, b) => a - b);
+
+  return {
+    citations,
+    claims,
+    flagged,
+    grounded: claims.length === 0 ? 1 : (claims.length - flagged.length) / claims.length,
+    citedSources,
+    verifier
+  };
+}
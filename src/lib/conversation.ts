@@ -0,0 +1,271 @@
+/**
+ * Conversation Memory
+ * 多轮对话记忆 - 按会话保存对话记录（conversations 表），按 token 预算取最近的对话，
+ * 更早的对话由 LLM 压缩为摘要，摘要也保存在会话中复用
+ */
+
+import { ConversationMessage } from './agents/types';
+import { callQwen } from './llm';
+import { estimateTokens } from './providers';
+
+/**
+ * 保存的对话记录
+ */
+export interface StoredMessage extends ConversationMessage {
+  sessionId: string;
+  userId?: string;
+  metadata?: Record<string, any>;  // 摘要记录带 { summary: true, summarizedCount }
+}
+
+/**
+ * 对话存储接口
+ */
+export interface ConversationStore {
+  name: string;
+  append(message: StoredMessage): Promise<void>;
+  list(sessionId: string): Promise<StoredMessage[]>;  // 按时间升序
+}
+
+/**
+ * 会话记忆配置
+ */
+export interface ConversationConfig {
+  store: 'memory' | 'supabase';
+  historyTokens: number;  // 注入提示词的最近对话 token 预算
+}
+
+/**
+ * 从环境变量读取配置（配置了 Supabase 时默认使用 conversations 表）
+ */
+export function getConversationConfig(): ConversationConfig {
+  const env = process.env;
+  const store = env.CONVERSATION_STORE || (env.NEXT_PUBLIC_SUPABASE_URL ? 'supabase' : 'memory');
+  return {
+    store: store === 'supabase' ? 'supabase' : 'memory',
+    historyTokens: parseInt(env.CONVERSATION_HISTORY_TOKENS || '1500')
+  };
+}
+
+/**
+ * 会话属于其他用户
+ */
+export class ConversationAccessError extends Error {
+  constructor(public sessionId: string) {
+    super(`Session ${sessionId} belongs to another user`);
+    this.name = 'ConversationAccessError';
+  }
+}
+
+/**
+ * 内存存储（未配置数据库时使用，进程重启后丢失）
+ */
+export class MemoryConversationStore implements ConversationStore {
+  name = 'memory';
+  private sessions = new Map<string, StoredMessage[]>();
+
+  async append(message: StoredMessage): Promise<void> {
+    const messages = this.sessions.get(message.sessionId) || [];
+    messages.push(message);
+    this.sessions.set(message.sessionId, messages);
+  }
+
+  async list(sessionId: string): Promise<StoredMessage[]> {
+    return [...(this.sessions.get(sessionId) || [])];
+  }
+}
+
+/**
+ * Supabase 存储（conversations 表）
+ */
+export class SupabaseConversationStore implements ConversationStore {
+  name = 'supabase';
+
+  private async client() {
+    return (await import('./db')).supabaseAdmin;
+  }
+
+  async append(message: StoredMessage): Promise<void> {
+    const supabaseAdmin = await this.client();
+    const { error } = await supabaseAdmin.from('conversations').insert({
+      session_id: message.sessionId,
+      user_id: message.userId || null,
+      role: message.role,
+      content: message.content,
+      metadata: message.metadata || null,
+      created_at: new Date(message.timestamp).toISOString()
+    });
+    if (error) throw error;
+  }
+
+  async list(sessionId: string): Promise<StoredMessage[]> {
+    const supabaseAdmin = await this.client();
+    const { data, error } = await supabaseAdmin
+      .from('conversations')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      sessionId: row.session_id,
+      userId: row.user_id || undefined,
+      role: row.role,
+      content: row.content,
+      metadata: row.metadata || undefined,
+      timestamp: new Date(row.created_at).getTime()
+    }));
+  }
+}
+
+let conversationStore: ConversationStore | undefined;
+
+/**
+ * 获取全局对话存储
+ */
+export function getConversationStore(): ConversationStore {
+  if (!conversationStore) {
+    conversationStore = getConversationConfig().store === 'supabase'
+      ? new SupabaseConversationStore()
+      : new MemoryConversationStore();
+  }
+  return conversationStore;
+}
+
+/**
+ * 加载结果：摘要 + 预算内的最近对话
+ */
+export interface ConversationMemory {
+  sessionId: string;
+  summary?: string;
+  messages: ConversationMessage[];
+  lastMetadata?: Record<string, any>;  // 上一条助手消息的 metadata（如 mode）
+}
+
+/**
+ * 把较早的对话压缩为摘要（合并上一次的摘要）
+ */
+async function summarizeTurns(previous: string | undefined, turns: StoredMessage[]): Promise<string> {
+  const prompt = `请把以下销售助手与用户的对话压缩为一段简洁的摘要（200字以内），
+保留用户的行业、客户、需求、已讨论的案例和结论，供后续对话参考。
+
+${previous ? `已有摘要：\n${previous}\n\n` : ''}新的对话：
+${formatTurns(turns)}
+
+摘要：`;
+
+  return (await callQwen(prompt, 'qwen-turbo', { agent: 'memory' })).trim();
+}
+
+function formatTurns(turns: ConversationMessage[]): string {
+  return turns
+    .map(m => `${m.role === 'user' ? '用户' : '助手'}：${m.content}`)
+    .join('\n');
+}
+
+/**
+ * 加载会话记忆
+ * 最近的对话按 token 预算保留原文，超出部分（尚未摘要的）压缩进摘要并保存
+ */
+export async function loadConversation(
+  sessionId: string,
+  options: { userId?: string; historyTokens?: number } = {}
+): Promise<ConversationMemory> {
+  const store = getConversationStore();
+  const budget = options.historyTokens ?? getConversationConfig().historyTokens;
+  const all = await store.list(sessionId);
+
+  // 会话归属第一条记录的 userId（没有时为匿名会话），请求方必须是同一身份
+  if (all.length > 0 && all[0].userId !== options.userId) {
+    throw new ConversationAccessError(sessionId);
+  }
+
+  const summaries = all.filter(m => m.metadata?.summary);
+  const turns = all.filter(m => !m.metadata?.summary);
+  const lastSummary = summaries[summaries.length - 1];
+  const summarizedCount: number = lastSummary?.metadata?.summarizedCount || 0;
+  const pending = turns.slice(summarizedCount);
+
+  // 从最新往前取，直到用完预算（摘要也占预算）
+  let remaining = budget - (lastSummary ? estimateTokens(lastSummary.content) : 0);
+  let keepFrom = pending.length;
+  while (keepFrom > 0) {
+    const cost = estimateTokens(pending[keepFrom - 1].content);
+    if (cost > remaining) break;
+    remaining -= cost;
+    keepFrom--;
+  }
+
+  let summary = lastSummary?.content;
+  const overflow = pending.slice(0, keepFrom);
+
+  if (overflow.length > 0) {
+    try {
+      summary = await summarizeTurns(summary, overflow);
+      await store.append({
+        sessionId,
+        userId: options.userId,
+        role: 'system',
+        content: summary,
+        timestamp: Date.now(),
+        metadata: { summary: true, summarizedCount: summarizedCount + overflow.length }
+      });
+    } catch (error: any) {
+      // 摘要失败不影响对话，沿用旧摘要
+      console.error('[Conversation] Summarize failed:', error.message);
+    }
+  }
+
+  const lastAssistant = [...turns].reverse().find(m => m.role === 'assistant');
+
+  return {
+    sessionId,
+    summary,
+    messages: pending.slice(keepFrom).map(({ role, content, timestamp }) => ({ role, content, timestamp })),
+    lastMetadata: lastAssistant?.metadata
+  };
+}
+
+/**
+ * 保存一轮对话
+ */
+export async function saveTurn(
+  sessionId: string,
+  turn: {
+    userId?: string;
+    user: string;
+    assistant: string;
+    metadata?: Record<string, any>;
+  }
+): Promise<void> {
+  const store = getConversationStore();
+  const now = Date.now();
+
+  try {
+    await store.append({ sessionId, userId: turn.userId, role: 'user', content: turn.user, timestamp: now });
+    await store.append({
+      sessionId,
+      userId: turn.userId,
+      role: 'assistant',
+      content: turn.assistant,
+      timestamp: now + 1,
+      metadata: turn.metadata
+    });
+  } catch (error: any) {
+    console.error(`[Conversation] ${store.name} append failed:`, error.message);
+  }
+}
+
+/**
+ * 格式化为提示词中的对话上下文，没有历史时返回空字符串
+ */
+export function formatConversation(memory: { summary?: string; messages: ConversationMessage[] }): string {
+  const parts: string[] = [];
+  if (memory.summary) {
+    parts.push(`之前的对话摘要：\n${memory.summary}`);
+  }
+  if (memory.messages.length > 0) {
+    parts.push(`最近的对话：\n${formatTurns(memory.messages)}`);
+  }
+  return parts.join('\n\n');
+}
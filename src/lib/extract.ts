@@ -3,45 +3,23 @@
  * 从项目 README 和描述中提取销售相关的结构化信息
  */
 
-import axios from 'axios';
-
-const DASHSCOPE_API_KEY = process.env.DASHSCOPE_API_KEY;
-const DASHSCOPE_BASE_URL = 'https://dashscope.aliyuncs.com/api/v1';
+import { z } from 'zod';
+import { callStructured, StructuredResult } from './llm';
 
 /**
- * 调用 Qwen 进行结构化抽取
+ * 销售相关的结构化数据
  */
-async function callQwen(prompt: string): Promise<string> {
-  if (!DASHSCOPE_API_KEY) {
-    throw new Error('DASHSCOPE_API_KEY is not configured');
-  }
-
-  try {
-    const response = await axios.post(
-      `${DASHSCOPE_BASE_URL}/services/aigc/text-generation/generation`,
-      {
-        model: 'qwen-plus',
-        input: {
-          prompt: prompt,
-        },
-        parameters: {
-          result_format: 'message',
-        },
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${DASHSCOPE_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    return response.data.output.choices[0].message.content;
-  } catch (error: any) {
-    console.error('Qwen API Error:', error.response?.data || error.message);
-    throw new Error('Failed to call Qwen API');
-  }
-}
+const CaseStructuredDataSchema = z.object({
+  pain_point: z.string().min(1),
+  solution_approach: z.string().min(1),
+  business_function: z.string().min(1),
+  target_company: z.string().min(1),
+  implementation_complexity: z.enum(['低', '中', '高']),
+  competitive_advantage: z.string().min(1),
+  use_case_summary: z.string().min(1)
+});
+
+export type CaseStructuredData = z.infer<typeof CaseStructuredDataSchema>;
 
 /**
  * 从项目信息中提取销售相关的结构化数据
@@ -51,7 +29,7 @@ export async function extractCaseStructuredData(
   description: string,
   readmeContent: string | null,
   topics: string[]
-): Promise<any> {
+): Promise<StructuredResult<CaseStructuredData>> {
   const content = `
 项目名称: ${projectName}
 项目描述: ${description}
@@ -79,35 +57,16 @@ ${content}
 
 JSON输出：`;
 
-  const result = await callQwen(prompt);
-
-  try {
-    const jsonMatch = result.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      // 验证返回的数据
-      return {
-        pain_point: parsed.pain_point || '自动化任务处理',
-        solution_approach: parsed.solution_approach || 'AI Agent 技术',
-        business_function: parsed.business_function || '通用',
-        target_company: parsed.target_company || '各行业企业',
-        implementation_complexity: parsed.implementation_complexity || '中',
-        competitive_advantage: parsed.competitive_advantage || '开源可定制',
-        use_case_summary: parsed.use_case_summary || `${projectName} - ${description || 'AI Agent 项目'}`,
-      };
-    }
-    throw new Error('No JSON found in response');
-  } catch (error) {
-    console.error('Failed to parse structured data:', error);
-    // 返回默认值
-    return getDefaultStructuredData(projectName, description);
-  }
+  return await callStructured(prompt, CaseStructuredDataSchema, {
+    agent: 'extract',
+    fallback: () => getDefaultStructuredData(projectName, description)
+  });
 }
 
 /**
  * 获取默认的结构化数据
  */
-function getDefaultStructuredData(projectName: string, description: string): any {
+function getDefaultStructuredData(projectName: string, description: string): CaseStructuredData {
   return {
     pain_point: '自动化任务处理效率低',
     solution_approach: '基于 AI Agent 的自动化解决方案',
@@ -120,7 +79,7 @@ function getDefaultStructuredData(projectName: string, description: string): any
 }
 
 /**
- * 批量处理项目数据
+ * 批量处理项目数据（限流由 LLM 层按 Retry-After / 指数退避重试处理）
  */
 export async function batchExtractStructuredData(
   projects: any[],
@@ -140,17 +99,18 @@ export async function batchExtractStructuredData(
         project.topics || []
       );
 
+      if (structured.usedFallback) {
+        console.warn(`项目 ${project.project_name} 结构化抽取失败，使用默认值`);
+      }
+
       results.push({
         ...project,
-        ...structured,
+        ...structured.data,
       });
 
       if (onProgress) {
         onProgress(i + 1, total);
       }
-
-      // 避免 API 限流
-      await new Promise(resolve => setTimeout(resolve, 300));
     } catch (error) {
       console.error(`处理项目 ${project.project_name} 失败:`, error);
       results.push({
@@ -0,0 +1,457 @@
+/**
+ * Knowledge Graph Query
+ * 知识图谱查询 - 邻居展开、路径查找、行业热门技术、按类型 / 时间筛选（/api/graph 使用）
+ *
+ * 返回格式固定为 { nodes, edges, page }（路径、排行另有 paths / industries），
+ * 节点、边按固定顺序排列，分页结果可以直接交给前端绘制
+ */
+
+import {
+  GraphEdge,
+  GraphNode,
+  GraphNodeType,
+  GraphRelation,
+  NODE_TYPES,
+  RELATION_TYPES,
+  getGraphStore,
+  nodeId
+} from './graph-store';
+
+// 单次查询最多展开的节点数（行业等高连接度节点的邻居很多）
+const MAX_NODES = 500;
+// 路径查找最多枚举的路径数
+const MAX_PATHS = 1000;
+
+export const MAX_DEPTH = 3;
+export const MAX_PATH_LENGTH = 4;
+export const MAX_PAGE_SIZE = 200;
+
+/**
+ * 查询参数无效
+ */
+export class GraphQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GraphQueryError';
+  }
+}
+
+/**
+ * 分页信息；total 为 null 时总数未知（按时间筛选节点），以 hasMore 判断是否还有下一页
+ */
+export interface GraphPage {
+  limit: number;
+  offset: number;
+  total: number | null;
+  hasMore: boolean;
+}
+
+export interface PageOptions {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * 节点筛选：类型和入库时间
+ */
+export interface NodeFilter {
+  types?: GraphNodeType[];
+  since?: string;
+  until?: string;
+}
+
+/**
+ * 带深度的节点（邻居展开时为到中心节点的跳数）
+ */
+export type GraphNodeView = GraphNode & { depth?: number };
+
+/**
+ * 子图
+ */
+export interface GraphView {
+  nodes: GraphNodeView[];
+  edges: GraphEdge[];
+  page: GraphPage;
+}
+
+/**
+ * 一条路径（节点 ID、边 ID 按顺序排列；weight 为各边权重之积）
+ */
+export interface GraphPath {
+  nodes: string[];
+  edges: string[];
+  length: number;
+  weight: number;
+}
+
+export interface GraphPathsView extends GraphView {
+  paths: GraphPath[];
+}
+
+/**
+ * 行业的热门技术（count 为该行业的案例 / 趋势关联该技术的边数）
+ */
+export interface TechnologyRanking {
+  industry: GraphNode;
+  edgeCount: number;
+  technologies: { technology: GraphNode; count: number; weight: number }[];
+}
+
+export interface TechnologyRankingView {
+  industries: TechnologyRanking[];
+  page: GraphPage;
+}
+
+/**
+ * 校验节点类型
+ */
+export function parseNodeTypes(values: string[]): GraphNodeType[] {
+  const invalid = values.filter(value => !NODE_TYPES.includes(value as GraphNodeType));
+  if (invalid.length > 0) {
+    throw new GraphQueryError(`Unknown node type: ${invalid.join(', ')}（可选：${NODE_TYPES.join(', ')}）`);
+  }
+  return values as GraphNodeType[];
+}
+
+/**
+ * 校验关系类型
+ */
+export function parseRelations(values: string[]): GraphRelation[] {
+  const relations = Object.keys(RELATION_TYPES);
+  const invalid = values.filter(value => !relations.includes(value));
+  if (invalid.length > 0) {
+    throw new GraphQueryError(`Unknown relation: ${invalid.join(', ')}（可选：${relations.join(', ')}）`);
+  }
+  return values as GraphRelation[];
+}
+
+/**
+ * 节点 ID 或 "类型:名称"；只有名称时按 defaultType 生成 ID
+ */
+export function resolveNodeId(value: string, defaultType?: GraphNodeType): string {
+  const [type, ...rest] = value.split(':');
+  if (rest.length > 0 && NODE_TYPES.includes(type as GraphNodeType)) {
+    return nodeId(type as GraphNodeType, rest.join(':'));
+  }
+  if (!defaultType) {
+    throw new GraphQueryError(`Node id must be <type>:<name>: ${value}`);
+  }
+  return nodeId(defaultType, value);
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDate(value: string, endOfDay: boolean): string {
+  const date = new Date(DATE_ONLY.test(value) && endOfDay ? `${value}T23:59:59.999Z` : value);
+  if (isNaN(date.getTime())) throw new GraphQueryError(`Invalid date: ${value}`);
+  return date.toISOString();
+}
+
+/**
+ * 从查询参数读取筛选和分页：type=case,trend&since=2024-01-01&until=2024-01-31&limit=50&offset=0
+ * （until 只写日期时包含当天）
+ */
+export function parseNodeFilter(searchParams: URLSearchParams): NodeFilter & PageOptions {
+  const list = (name: string) => (searchParams.get(name) || '').split(',').map(value => value.trim()).filter(Boolean);
+  const since = searchParams.get('since');
+  const until = searchParams.get('until');
+  const types = list('type');
+  return {
+    types: types.length > 0 ? parseNodeTypes(types) : undefined,
+    since: since ? parseDate(since, false) : undefined,
+    until: until ? parseDate(until, true) : undefined,
+    limit: searchParams.has('limit') ? parseInt(searchParams.get('limit')!) : undefined,
+    offset: searchParams.has('offset') ? parseInt(searchParams.get('offset')!) : undefined
+  };
+}
+
+/**
+ * 逗号分隔的关系类型参数
+ */
+export function parseRelationParam(value: string | null): GraphRelation[] | undefined {
+  const values = (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  return values.length > 0 ? parseRelations(values) : undefined;
+}
+
+function normalizePage(options: PageOptions): { limit: number; offset: number } {
+  const limit = Number.isFinite(options.limit) ? Math.floor(options.limit!) : 50;
+  const offset = Number.isFinite(options.offset) ? Math.floor(options.offset!) : 0;
+  return {
+    limit: Math.min(Math.max(limit, 1), MAX_PAGE_SIZE),
+    offset: Math.max(offset, 0)
+  };
+}
+
+function paginate<T>(items: T[], options: PageOptions): { items: T[]; page: GraphPage } {
+  const { limit, offset } = normalizePage(options);
+  return {
+    items: items.slice(offset, offset + limit),
+    page: { limit, offset, total: items.length, hasMore: offset + limit < items.length }
+  };
+}
+
+function matchesFilter(node: GraphNode, filter: NodeFilter): boolean {
+  if (filter.types?.length && !filter.types.includes(node.type)) return false;
+  if (filter.since && node.collectedAt < filter.since) return false;
+  if (filter.until && node.collectedAt > filter.until) return false;
+  return true;
+}
+
+function byId<T extends { id: string }>(a: T, b: T): number {
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * 两端都在节点集合中的边，按 ID 排序
+ */
+function edgesWithin(edges: Iterable<GraphEdge>, ids: Set<string>): GraphEdge[] {
+  return Array.from(edges).filter(edge => ids.has(edge.from) && ids.has(edge.to)).sort(byId);
+}
+
+/**
+ * 按类型、入库时间筛选节点（入库时间降序），附带节点之间的边
+ */
+export async function listNodes(filter: NodeFilter & PageOptions = {}): Promise<GraphView> {
+  const { limit, offset } = normalizePage(filter);
+  const store = getGraphStore();
+  // 多取一条判断是否还有下一页
+  const found = await store.findNodes({
+    types: filter.types,
+    since: filter.since,
+    until: filter.until,
+    limit: limit + 1,
+    offset
+  });
+  const nodes = found.slice(0, limit);
+  const ids = new Set(nodes.map(node => node.id));
+  const edges = await store.getEdges({ nodeIds: Array.from(ids), direction: 'out' });
+
+  return {
+    nodes,
+    edges: edgesWithin(edges, ids),
+    page: { limit, offset, total: null, hasMore: found.length > limit }
+  };
+}
+
+/**
+ * 节点及其 depth 跳以内的邻居
+ *
+ * 筛选条件作用于邻居（不满足的节点不返回，也不再从它展开）；节点按深度、ID 排序后分页，
+ * 中心节点总是返回，边只包含两端都在本页节点（含中心节点）中的
+ */
+export async function getNeighborhood(
+  id: string,
+  options: NodeFilter & PageOptions & {
+    depth?: number;
+    direction?: 'out' | 'in' | 'both';
+    relations?: GraphRelation[];
+  } = {}
+): Promise<(GraphView & { root: GraphNode }) | null> {
+  const depth = options.depth ?? 1;
+  if (!Number.isInteger(depth) || depth < 1 || depth > MAX_DEPTH) {
+    throw new GraphQueryError(`depth must be between 1 and ${MAX_DEPTH}`);
+  }
+
+  const store = getGraphStore();
+  const [root] = await store.getNodes([id]);
+  if (!root) return null;
+
+  const visited = new Map<string, GraphNodeView>([[root.id, { ...root, depth: 0 }]]);
+  const edges = new Map<string, GraphEdge>();
+  let frontier = [root.id];
+
+  for (let level = 1; level <= depth && frontier.length > 0 && visited.size < MAX_NODES; level++) {
+    const frontierIds = new Set(frontier);
+    const found = await store.getEdges({ nodeIds: frontier, direction: options.direction, relations: options.relations });
+    const neighborIds = Array.from(new Set(found
+      .map(edge => frontierIds.has(edge.from) ? edge.to : edge.from)
+      .filter(neighbor => !visited.has(neighbor))))
+      .sort()
+      .slice(0, MAX_NODES - visited.size);
+
+    const neighbors = (await store.getNodes(neighborIds)).filter(node => matchesFilter(node, options));
+    for (const node of neighbors) visited.set(node.id, { ...node, depth: level });
+    for (const edge of found) {
+      if (visited.has(edge.from) && visited.has(edge.to)) edges.set(edge.id, edge);
+    }
+    frontier = neighbors.map(node => node.id);
+  }
+
+  const sorted = Array.from(visited.values())
+    .filter(node => node.id !== root.id)
+    .sort((a, b) => (a.depth! - b.depth!) || byId(a, b));
+  const { items, page } = paginate(sorted, options);
+  const nodes = [visited.get(root.id)!, ...items];
+
+  return {
+    root,
+    nodes,
+    edges: edgesWithin(edges.values(), new Set(nodes.map(node => node.id))),
+    page
+  };
+}
+
+/**
+ * 两个节点之间的路径（不区分边的方向，如痛点 ← 案例 → 技术）
+ *
+ * 终点为 to 节点，或 toType 类型的任意节点（如痛点到解决它的案例）；
+ * 路径按长度升序、权重降序排列后分页，nodes / edges 为本页路径经过的节点和边
+ */
+export async function findPaths(
+  from: string,
+  options: PageOptions & {
+    to?: string;
+    toType?: GraphNodeType;
+    maxLength?: number;
+    relations?: GraphRelation[];
+  }
+): Promise<GraphPathsView | null> {
+  const maxLength = options.maxLength ?? 3;
+  if (!Number.isInteger(maxLength) || maxLength < 1 || maxLength > MAX_PATH_LENGTH) {
+    throw new GraphQueryError(`maxLength must be between 1 and ${MAX_PATH_LENGTH}`);
+  }
+  if (!options.to && !options.toType) {
+    throw new GraphQueryError('Either to or toType is required');
+  }
+
+  const store = getGraphStore();
+  const ids = options.to ? [from, options.to] : [from];
+  const endpoints = await store.getNodes(ids);
+  if (endpoints.length < ids.length) return null;
+
+  const isTarget = (node: GraphNode) => options.to ? node.id === options.to : node.type === options.toType;
+
+  // 逐层展开邻接表（终点不再向外展开）
+  const nodes = new Map<string, GraphNode>(endpoints.map(node => [node.id, node]));
+  const adjacency = new Map<string, GraphEdge[]>();
+  const addEdge = (key: string, edge: GraphEdge) => {
+    const list = adjacency.get(key) || [];
+    if (!list.some(existing => existing.id === edge.id)) list.push(edge);
+    adjacency.set(key, list);
+  };
+  let frontier = [from];
+  const expanded = new Set<string>();
+
+  for (let level = 0; level < maxLength && frontier.length > 0 && nodes.size < MAX_NODES; level++) {
+    frontier.forEach(id => expanded.add(id));
+    const found = await store.getEdges({ nodeIds: frontier, relations: options.relations });
+    for (const edge of found) {
+      addEdge(edge.from, edge);
+      addEdge(edge.to, edge);
+    }
+
+    const newIds = Array.from(new Set(found.flatMap(edge => [edge.from, edge.to])))
+      .filter(id => !nodes.has(id))
+      .sort()
+      .slice(0, MAX_NODES - nodes.size);
+    for (const node of await store.getNodes(newIds)) nodes.set(node.id, node);
+
+    frontier = Array.from(new Set(found.flatMap(edge => [edge.from, edge.to])))
+      .filter(id => !expanded.has(id) && nodes.has(id) && !isTarget(nodes.get(id)!));
+  }
+
+  // 枚举简单路径
+  const paths: GraphPath[] = [];
+  const walk = (current: string, nodePath: string[], edgePath: GraphEdge[]) => {
+    if (paths.length >= MAX_PATHS) return;
+    const node = nodes.get(current);
+    if (edgePath.length > 0 && node && isTarget(node)) {
+      paths.push({
+        nodes: nodePath,
+        edges: edgePath.map(edge => edge.id),
+        length: edgePath.length,
+        weight: Math.round(edgePath.reduce((product, edge) => product * edge.weight, 1) * 10000) / 10000
+      });
+      return;
+    }
+    if (edgePath.length >= maxLength) return;
+    for (const edge of adjacency.get(current) || []) {
+      const next = edge.from === current ? edge.to : edge.from;
+      if (!nodes.has(next) || nodePath.includes(next)) continue;
+      walk(next, [...nodePath, next], [...edgePath, edge]);
+    }
+  };
+  walk(from, [from], []);
+
+  paths.sort((a, b) =>
+    (a.length - b.length) ||
+    (b.weight - a.weight) ||
+    a.nodes.join('>').localeCompare(b.nodes.join('>'))
+  );
+  const { items, page } = paginate(paths, options);
+
+  const edgeById = new Map<string, GraphEdge>();
+  adjacency.forEach(list => list.forEach(edge => edgeById.set(edge.id, edge)));
+  const nodeIds = new Set(items.flatMap(path => path.nodes));
+  const edgeIds = new Set(items.flatMap(path => path.edges));
+
+  return {
+    paths: items,
+    nodes: Array.from(nodeIds).map(id => nodes.get(id)!).sort(byId),
+    edges: Array.from(edgeIds).map(id => edgeById.get(id)!).sort(byId),
+    page
+  };
+}
+
+/**
+ * 各行业关联边数最多的技术（行业 ← 案例 / 趋势 → 技术）
+ *
+ * 行业按技术关联边总数降序排列后分页；指定 industry 时只返回该行业
+ */
+export async function topTechnologies(
+  options: PageOptions & { industry?: string; top?: number } = {}
+): Promise<TechnologyRankingView> {
+  const top = Number.isFinite(options.top) ? Math.min(Math.max(Math.floor(options.top!), 1), 50) : 5;
+  const store = getGraphStore();
+
+  const industries = options.industry
+    ? await store.getNodes([resolveNodeId(options.industry, 'industry')])
+    : await store.findNodes({ types: ['industry'], limit: MAX_NODES });
+  const industryIds = industries.map(industry => industry.id);
+
+  // 行业成员（案例、趋势）→ 所属行业
+  const membership = await store.getEdges({ nodeIds: industryIds, direction: 'in', relations: ['in_industry'] });
+  const memberIndustries = new Map<string, string[]>();
+  for (const edge of membership) {
+    memberIndustries.set(edge.from, [...(memberIndustries.get(edge.from) || []), edge.to]);
+  }
+
+  const usage = await store.getEdges({
+    nodeIds: Array.from(memberIndustries.keys()),
+    direction: 'out',
+    relations: ['uses_technology']
+  });
+  const counts = new Map<string, Map<string, { count: number; weight: number }>>();
+  for (const edge of usage) {
+    for (const industryId of memberIndustries.get(edge.from) || []) {
+      const technologies = counts.get(industryId) || new Map();
+      const current = technologies.get(edge.to) || { count: 0, weight: 0 };
+      technologies.set(edge.to, { count: current.count + 1, weight: current.weight + edge.weight });
+      counts.set(industryId, technologies);
+    }
+  }
+
+  const technologyIds = Array.from(new Set(usage.map(edge => edge.to)));
+  const technologyNodes = new Map((await store.getNodes(technologyIds)).map(node => [node.id, node]));
+
+  const rankings: TechnologyRanking[] = industries.map(industry => {
+    const technologies = Array.from(counts.get(industry.id)?.entries() || [])
+      .filter(([id]) => technologyNodes.has(id))
+      .map(([id, stats]) => ({
+        technology: technologyNodes.get(id)!,
+        count: stats.count,
+        weight: Math.round(stats.weight * 10000) / 10000
+      }));
+    return {
+      industry,
+      edgeCount: technologies.reduce((sum, technology) => sum + technology.count, 0),
+      technologies: technologies
+        .sort((a, b) => (b.count - a.count) || (b.weight - a.weight) || byId(a.technology, b.technology))
+        .slice(0, top)
+    };
+  });
+  rankings.sort((a, b) => (b.edgeCount - a.edgeCount) || byId(a.industry, b.industry));
+
+  const { items, page } = paginate(rankings, options);
+  return { industries: items, page };
+}
@@ -0,0 +1,558 @@
+/**
+ * Knowledge Graph Store
+ * 知识图谱存储 - 节点（案例、趋势、场景、行业、技术、痛点）和带类型、权重、来源的边
+ *
+ * - supabase：graph_nodes / graph_edges 表（配置了 Supabase 时默认使用）
+ * - sqlite：本地文件（.data/graph.db），未配置数据库时使用
+ *
+ * 节点 ID 由类型和名称生成（同名节点合并），边 ID 由两端和关系生成（重复关联覆盖权重和来源）
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Database } from 'better-sqlite3';
+
+export type GraphNodeType = 'case' | 'trend' | 'scenario' | 'industry' | 'pain_point' | 'technology';
+
+export const NODE_TYPES: GraphNodeType[] = ['case', 'trend', 'scenario', 'industry', 'pain_point', 'technology'];
+
+export type GraphRelation =
+  | 'in_industry'      // 案例 / 趋势 / 场景 → 行业
+  | 'uses_technology'  // 案例 / 趋势 → 技术
+  | 'has_pain_point'   // 案例 → 痛点
+  | 'features_case'    // 趋势 → 典型案例
+  | 'implemented_by';  // 场景 → 实现该场景的案例
+
+/**
+ * 每种关系允许的两端节点类型
+ */
+export const RELATION_TYPES: Record<GraphRelation, { from: GraphNodeType[]; to: GraphNodeType[] }> = {
+  in_industry: { from: ['case', 'trend', 'scenario'], to: ['industry'] },
+  uses_technology: { from: ['case', 'trend'], to: ['technology'] },
+  has_pain_point: { from: ['case'], to: ['pain_point'] },
+  features_case: { from: ['trend'], to: ['case'] },
+  implemented_by: { from: ['scenario'], to: ['case'] }
+};
+
+/**
+ * 图谱节点
+ */
+export interface GraphNode {
+  id: string;
+  type: GraphNodeType;
+  name: string;
+  description: string;
+  metadata: Record<string, any>;
+  source: string;
+  qualityScore: number;
+  collectedAt: string;  // 首次入库时间（ISO）
+}
+
+/**
+ * 边的来源：哪份数据、用什么方法得出的关联
+ */
+export interface EdgeProvenance {
+  source: string;  // 数据来源（案例 / 趋势的 source）
+  method: 'llm_extraction' | 'llm_fallback' | 'input' | 'name_match' | 'attribute_match';
+  agent?: string;
+  evidence?: string;  // 关联依据（如匹配到的名称）
+}
+
+/**
+ * 图谱边
+ */
+export interface GraphEdge {
+  id: string;
+  from: string;
+  to: string;
+  relation: GraphRelation;
+  weight: number;  // 关联强度（0-1）
+  provenance: EdgeProvenance;
+  createdAt: string;
+}
+
+/**
+ * 节点查询
+ */
+export interface NodeQuery {
+  types?: GraphNodeType[];
+  metadata?: Record<string, string>;  // metadata 字段等值匹配
+  since?: string;  // collectedAt 下限（ISO）
+  until?: string;  // collectedAt 上限（ISO）
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * 边查询：与 nodeIds 相连的边
+ */
+export interface EdgeQuery {
+  nodeIds: string[];
+  direction?: 'out' | 'in' | 'both';  // 默认 both
+  relations?: GraphRelation[];
+}
+
+/**
+ * 图谱存储接口
+ */
+export interface GraphStore {
+  name: string;
+  upsertNodes(nodes: GraphNode[]): Promise<void>;
+  insertNode(node: GraphNode): Promise<boolean>;  // 已存在（占位节点除外）时不写入，返回是否写入
+  upsertEdges(edges: GraphEdge[]): Promise<void>;
+  getNodes(ids: string[]): Promise<GraphNode[]>;
+  findNodes(query: NodeQuery): Promise<GraphNode[]>;  // 按 collectedAt 降序、id 升序
+  getEdges(query: EdgeQuery): Promise<GraphEdge[]>;
+}
+
+/**
+ * 图谱存储配置
+ */
+export interface GraphStoreConfig {
+  store: 'supabase' | 'sqlite';
+  sqlitePath: string;
+}
+
+/**
+ * 从环境变量读取配置（配置了 Supabase 时默认使用 graph_nodes / graph_edges 表）
+ */
+export function getGraphStoreConfig(): GraphStoreConfig {
+  const env = process.env;
+  const store = env.GRAPH_STORE || (env.NEXT_PUBLIC_SUPABASE_URL ? 'supabase' : 'sqlite');
+  return {
+    store: store === 'supabase' ? 'supabase' : 'sqlite',
+    sqlitePath: env.GRAPH_SQLITE_PATH || path.join(process.cwd(), '.data', 'graph.db')
+  };
+}
+
+/**
+ * 关系与两端节点类型不符
+ */
+export class InvalidRelationError extends Error {
+  constructor(public relation: string, fromType: string, toType: string) {
+    super(`Relation ${relation} cannot connect ${fromType} to ${toType}`);
+    this.name = 'InvalidRelationError';
+  }
+}
+
+/**
+ * 节点 ID：类型 + 规范化的名称
+ */
+export function nodeId(type: GraphNodeType, name: string): string {
+  return `${type}:${name.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+}
+
+/**
+ * 创建边（检查关系的两端类型，权重限制在 0-1）
+ */
+export function createEdge(
+  from: Pick<GraphNode, 'id' | 'type'>,
+  relation: GraphRelation,
+  to: Pick<GraphNode, 'id' | 'type'>,
+  weight: number,
+  provenance: EdgeProvenance
+): GraphEdge {
+  const allowed = RELATION_TYPES[relation];
+  if (!allowed || !allowed.from.includes(from.type) || !allowed.to.includes(to.type)) {
+    throw new InvalidRelationError(relation, from.type, to.type);
+  }
+  return {
+    id: `${from.id}|${relation}|${to.id}`,
+    from: from.id,
+    to: to.id,
+    relation,
+    weight: Math.min(Math.max(weight, 0), 1),
+    provenance,
+    createdAt: new Date().toISOString()
+  };
+}
+
+// ID 列表分批查询：PostgREST 的过滤条件在 URL 中，SQLite 的参数个数也有上限
+const ID_BATCH_SIZE = 200;
+
+function batches<T>(items: T[], size: number = ID_BATCH_SIZE): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) result.push(items.slice(i, i + size));
+  return result;
+}
+
+/**
+ * 合并分批查询的边（两端分在不同批次的边会重复），按 ID 排序
+ */
+function mergeEdges(lists: GraphEdge[][]): GraphEdge[] {
+  if (lists.length === 1) return lists[0];
+  const edges = new Map<string, GraphEdge>();
+  for (const edge of lists.flat()) edges.set(edge.id, edge);
+  return Array.from(edges.values()).sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+/**
+ * Supabase 存储（graph_nodes / graph_edges 表）
+ */
+export class SupabaseGraphStore implements GraphStore {
+  name = 'supabase';
+
+  private async client() {
+    return (await import('./db')).supabaseAdmin;
+  }
+
+  async upsertNodes(nodes: GraphNode[]): Promise<void> {
+    if (nodes.length === 0) return;
+    const supabaseAdmin = await this.client();
+    const now = new Date().toISOString();
+    const { error } = await supabaseAdmin.from('graph_nodes').upsert(nodes.map(node => ({
+      id: node.id,
+      type: node.type,
+      name: node.name,
+      description: node.description,
+      metadata: node.metadata,
+      source: node.source,
+      quality_score: node.qualityScore,
+      collected_at: node.collectedAt,
+      updated_at: now
+    })));
+    if (error) throw error;
+  }
+
+  /**
+   * 插入节点：先按主键插入（冲突时忽略），未插入时只替换占位节点，两步都是单条语句的条件写入
+   */
+  async insertNode(node: GraphNode): Promise<boolean> {
+    const supabaseAdmin = await this.client();
+    const now = new Date().toISOString();
+    const row = {
+      id: node.id,
+      type: node.type,
+      name: node.name,
+      description: node.description,
+      metadata: node.metadata,
+      source: node.source,
+      quality_score: node.qualityScore,
+      updated_at: now
+    };
+
+    const { data: inserted, error } = await supabaseAdmin
+      .from('graph_nodes')
+      .upsert({ ...row, collected_at: node.collectedAt }, { onConflict: 'id', ignoreDuplicates: true })
+      .select('id');
+    if (error) throw error;
+    if (inserted?.length) return true;
+
+    // 替换占位节点，保留首次入库时间
+    const { data: replaced, error: updateError } = await supabaseAdmin
+      .from('graph_nodes')
+      .update(row)
+      .eq('id', node.id)
+      .eq('metadata->>placeholder', 'true')
+      .select('id');
+    if (updateError) throw updateError;
+    return !!replaced?.length;
+  }
+
+  async upsertEdges(edges: GraphEdge[]): Promise<void> {
+    if (edges.length === 0) return;
+    const supabaseAdmin = await this.client();
+    const now = new Date().toISOString();
+    const { error } = await supabaseAdmin.from('graph_edges').upsert(edges.map(edge => ({
+      id: edge.id,
+      from_id: edge.from,
+      to_id: edge.to,
+      relation: edge.relation,
+      weight: edge.weight,
+      provenance: edge.provenance,
+      created_at: edge.createdAt,
+      updated_at: now
+    })));
+    if (error) throw error;
+  }
+
+  async getNodes(ids: string[]): Promise<GraphNode[]> {
+    if (ids.length === 0) return [];
+    const supabaseAdmin = await this.client();
+    const results = await Promise.all(batches(ids).map(async batch => {
+      const { data, error } = await supabaseAdmin.from('graph_nodes').select('*').in('id', batch);
+      if (error) throw error;
+      return (data || []).map(toNode);
+    }));
+    return results.flat();
+  }
+
+  async findNodes(query: NodeQuery): Promise<GraphNode[]> {
+    const supabaseAdmin = await this.client();
+    let request = supabaseAdmin.from('graph_nodes').select('*');
+    if (query.types?.length) request = request.in('type', query.types);
+    if (query.metadata) request = request.contains('metadata', query.metadata);
+    if (query.since) request = request.gte('collected_at', query.since);
+    if (query.until) request = request.lte('collected_at', query.until);
+
+    const offset = query.offset || 0;
+    const { data, error } = await request
+      .order('collected_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(offset, offset + (query.limit ?? 1000) - 1);
+    if (error) throw error;
+    return (data || []).map(toNode);
+  }
+
+  async getEdges(query: EdgeQuery): Promise<GraphEdge[]> {
+    if (query.nodeIds.length === 0) return [];
+    const supabaseAdmin = await this.client();
+    const direction = query.direction || 'both';
+
+    const results = await Promise.all(batches(query.nodeIds).map(async batch => {
+      const ids = batch.map(id => `"${id.replace(/"/g, '\\"')}"`).join(',');
+      const conditions = [
+        direction !== 'in' ? `from_id.in.(${ids})` : '',
+        direction !== 'out' ? `to_id.in.(${ids})` : ''
+      ].filter(Boolean).join(',');
+
+      let request = supabaseAdmin.from('graph_edges').select('*').or(conditions);
+      if (query.relations?.length) request = request.in('relation', query.relations);
+      const { data, error } = await request.order('id', { ascending: true });
+      if (error) throw error;
+      return (data || []).map(toEdge);
+    }));
+    return mergeEdges(results);
+  }
+}
+
+/**
+ * SQLite 存储（本地文件，同一进程内复用连接）
+ */
+export class SqliteGraphStore implements GraphStore {
+  name = 'sqlite';
+  private db?: Database;
+
+  constructor(private file: string) {}
+
+  private async connect(): Promise<Database> {
+    if (!this.db) {
+      const { default: Sqlite } = await import('better-sqlite3');
+      if (this.file !== ':memory:') fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const db = new Sqlite(this.file);
+      db.pragma('journal_mode = WAL');
+      db.pragma('foreign_keys = ON');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS graph_nodes (
+          id TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          metadata TEXT NOT NULL DEFAULT '{}',
+          source TEXT,
+          quality_score REAL DEFAULT 0,
+          collected_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS graph_edges (
+          id TEXT PRIMARY KEY,
+          from_id TEXT NOT NULL REFERENCES graph_nodes(id) ON DELETE CASCADE,
+          to_id TEXT NOT NULL REFERENCES graph_nodes(id) ON DELETE CASCADE,
+          relation TEXT NOT NULL,
+          weight REAL NOT NULL DEFAULT 1,
+          provenance TEXT NOT NULL DEFAULT '{}',
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_graph_nodes_type ON graph_nodes(type, collected_at);
+        CREATE INDEX IF NOT EXISTS idx_graph_edges_from ON graph_edges(from_id, relation);
+        CREATE INDEX IF NOT EXISTS idx_graph_edges_to ON graph_edges(to_id, relation);
+      `);
+      this.db = db;
+    }
+    return this.db;
+  }
+
+  async upsertNodes(nodes: GraphNode[]): Promise<void> {
+    if (nodes.length === 0) return;
+    const db = await this.connect();
+    const statement = db.prepare(`
+      INSERT INTO graph_nodes (id, type, name, description, metadata, source, quality_score, collected_at, updated_at)
+      VALUES (@id, @type, @name, @description, @metadata, @source, @quality_score, @collected_at, @updated_at)
+      ON CONFLICT(id) DO UPDATE SET
+        type = excluded.type, name = excluded.name, description = excluded.description,
+        metadata = excluded.metadata, source = excluded.source, quality_score = excluded.quality_score,
+        updated_at = excluded.updated_at
+    `);
+    const now = new Date().toISOString();
+    db.transaction(() => {
+      for (const node of nodes) {
+        statement.run({
+          id: node.id,
+          type: node.type,
+          name: node.name,
+          description: node.description,
+          metadata: JSON.stringify(node.metadata),
+          source: node.source,
+          quality_score: node.qualityScore,
+          collected_at: node.collectedAt,
+          updated_at: now
+        });
+      }
+    })();
+  }
+
+  async insertNode(node: GraphNode): Promise<boolean> {
+    const db = await this.connect();
+    // 冲突时只替换占位节点，保留首次入库时间
+    const { changes } = db.prepare(`
+      INSERT INTO graph_nodes (id, type, name, description, metadata, source, quality_score, collected_at, updated_at)
+      VALUES (@id, @type, @name, @description, @metadata, @source, @quality_score, @collected_at, @updated_at)
+      ON CONFLICT(id) DO UPDATE SET
+        type = excluded.type, name = excluded.name, description = excluded.description,
+        metadata = excluded.metadata, source = excluded.source, quality_score = excluded.quality_score,
+        updated_at = excluded.updated_at
+      WHERE json_extract(graph_nodes.metadata, '$.placeholder') = 1
+    `).run({
+      id: node.id,
+      type: node.type,
+      name: node.name,
+      description: node.description,
+      metadata: JSON.stringify(node.metadata),
+      source: node.source,
+      quality_score: node.qualityScore,
+      collected_at: node.collectedAt,
+      updated_at: new Date().toISOString()
+    });
+    return changes > 0;
+  }
+
+  async upsertEdges(edges: GraphEdge[]): Promise<void> {
+    if (edges.length === 0) return;
+    const db = await this.connect();
+    const statement = db.prepare(`
+      INSERT INTO graph_edges (id, from_id, to_id, relation, weight, provenance, created_at, updated_at)
+      VALUES (@id, @from_id, @to_id, @relation, @weight, @provenance, @created_at, @updated_at)
+      ON CONFLICT(id) DO UPDATE SET
+        weight = excluded.weight, provenance = excluded.provenance, updated_at = excluded.updated_at
+    `);
+    const now = new Date().toISOString();
+    db.transaction(() => {
+      for (const edge of edges) {
+        statement.run({
+          id: edge.id,
+          from_id: edge.from,
+          to_id: edge.to,
+          relation: edge.relation,
+          weight: edge.weight,
+          provenance: JSON.stringify(edge.provenance),
+          created_at: edge.createdAt,
+          updated_at: now
+        });
+      }
+    })();
+  }
+
+  async getNodes(ids: string[]): Promise<GraphNode[]> {
+    if (ids.length === 0) return [];
+    const db = await this.connect();
+    return batches(ids).flatMap(batch =>
+      db.prepare(`SELECT * FROM graph_nodes WHERE id IN (${batch.map(() => '?').join(',')})`).all(...batch).map(toNode)
+    );
+  }
+
+  async findNodes(query: NodeQuery): Promise<GraphNode[]> {
+    const db = await this.connect();
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (query.types?.length) {
+      conditions.push(`type IN (${query.types.map(() => '?').join(',')})`);
+      params.push(...query.types);
+    }
+    for (const [key, value] of Object.entries(query.metadata || {})) {
+      conditions.push('json_extract(metadata, ?) = ?');
+      params.push(`$."${key.replace(/"/g, '')}"`, value);
+    }
+    if (query.since) {
+      conditions.push('collected_at >= ?');
+      params.push(query.since);
+    }
+    if (query.until) {
+      conditions.push('collected_at <= ?');
+      params.push(query.until);
+    }
+
+    const rows = db.prepare(`
+      SELECT * FROM graph_nodes
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY collected_at DESC, id ASC
+      LIMIT ? OFFSET ?
+    `).all(...params, query.limit ?? 1000, query.offset || 0);
+    return rows.map(toNode);
+  }
+
+  async getEdges(query: EdgeQuery): Promise<GraphEdge[]> {
+    if (query.nodeIds.length === 0) return [];
+    const db = await this.connect();
+    const direction = query.direction || 'both';
+
+    return mergeEdges(batches(query.nodeIds).map(batch => {
+      const placeholders = batch.map(() => '?').join(',');
+      const sides: string[] = [];
+      const params: any[] = [];
+
+      if (direction !== 'in') {
+        sides.push(`from_id IN (${placeholders})`);
+        params.push(...batch);
+      }
+      if (direction !== 'out') {
+        sides.push(`to_id IN (${placeholders})`);
+        params.push(...batch);
+      }
+      let sql = `SELECT * FROM graph_edges WHERE (${sides.join(' OR ')})`;
+      if (query.relations?.length) {
+        sql += ` AND relation IN (${query.relations.map(() => '?').join(',')})`;
+        params.push(...query.relations);
+      }
+
+      return db.prepare(`${sql} ORDER BY id ASC`).all(...params).map(toEdge);
+    }));
+  }
+}
+
+/**
+ * 表行转换为节点（SQLite 的 JSON 字段为字符串）
+ */
+function toNode(row: any): GraphNode {
+  return {
+    id: row.id,
+    type: row.type,
+    name: row.name,
+    description: row.description || '',
+    metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata || {},
+    source: row.source || '',
+    qualityScore: row.quality_score ?? 0,
+    collectedAt: new Date(row.collected_at).toISOString()
+  };
+}
+
+/**
+ * 表行转换为边
+ */
+function toEdge(row: any): GraphEdge {
+  return {
+    id: row.id,
+    from: row.from_id,
+    to: row.to_id,
+    relation: row.relation,
+    weight: row.weight,
+    provenance: typeof row.provenance === 'string' ? JSON.parse(row.provenance) : row.provenance || {},
+    createdAt: new Date(row.created_at).toISOString()
+  };
+}
+
+let graphStore: GraphStore | undefined;
+
+/**
+ * 获取全局图谱存储
+ */
+export function getGraphStore(): GraphStore {
+  if (!graphStore) {
+    const config = getGraphStoreConfig();
+    graphStore = config.store === 'supabase'
+      ? new SupabaseGraphStore()
+      : new SqliteGraphStore(config.sqlitePath);
+  }
+  return graphStore;
+}
@@ -0,0 +1,181 @@
+/**
+ * Hybrid Search
+ * 混合检索 - BM25 关键词检索与向量检索的结果按加权 RRF（Reciprocal Rank Fusion）融合
+ *
+ *   score(d) = Σ weight_i / (k + rank_i(d))
+ *
+ * 关键词检索覆盖项目名、描述、痛点和用例摘要，弥补向量检索对专有名词和中文短查询的不足
+ */
+
+import { BM25Index } from './bm25';
+import { DocumentType, KnowledgeDocument, VectorMatch, loadDocuments } from './vector-store';
+
+/**
+ * 两路检索的权重，权重为 0 时跳过该路检索
+ */
+export interface HybridWeights {
+  vector: number;
+  keyword: number;
+}
+
+/**
+ * 混合检索配置
+ */
+export interface HybridSearchConfig {
+  weights: HybridWeights;
+  rrfK: number;        // RRF 平滑常数，越大排名靠后的结果权重衰减越慢
+  candidates: number;  // 每路检索的候选数
+  ttlMs: number;       // 关键词索引的重建间隔
+}
+
+/**
+ * 从环境变量读取配置
+ */
+export function getHybridSearchConfig(): HybridSearchConfig {
+  const env = process.env;
+  return {
+    weights: {
+      vector: parseFloat(env.HYBRID_VECTOR_WEIGHT || '1'),
+      keyword: parseFloat(env.HYBRID_KEYWORD_WEIGHT || '1')
+    },
+    rrfK: parseInt(env.HYBRID_RRF_K || '60'),
+    candidates: parseInt(env.HYBRID_CANDIDATES || '20'),
+    ttlMs: parseInt(env.KEYWORD_INDEX_TTL_MS || String(10 * 60 * 1000))
+  };
+}
+
+/**
+ * 关键词检索结果，score 为 BM25 得分
+ */
+export interface KeywordMatch {
+  document: KnowledgeDocument;
+  score: number;
+}
+
+/**
+ * 融合后的结果
+ */
+export interface HybridMatch {
+  document: KnowledgeDocument;
+  score: number;         // RRF 得分
+  similarity: number;    // 余弦相似度，仅关键词命中时为 0
+  keywordScore: number;  // BM25 得分，仅向量命中时为 0
+}
+
+function documentKey(document: KnowledgeDocument): string {
+  return `${document.type}:${document.id}`;
+}
+
+/**
+ * 参与 BM25 的字段：项目名、描述、痛点、用例摘要；案例块为项目名、章节和块内容
+ */
+export function keywordText(document: KnowledgeDocument): string {
+  if (document.parentId) {
+    return [document.title, document.section, document.content].filter(Boolean).join('\n');
+  }
+  return [
+    document.title,
+    document.description,
+    document.metadata.painPoints,
+    document.metadata.useCaseSummary
+  ].filter(Boolean).join('\n');
+}
+
+interface KeywordIndex {
+  index: BM25Index;
+  documents: Map<string, KnowledgeDocument>;
+  builtAt: number;
+}
+
+let keywordIndex: KeywordIndex | undefined;
+let building: Promise<KeywordIndex> | undefined;
+
+async function buildKeywordIndex(): Promise<KeywordIndex> {
+  const index = new BM25Index();
+  const documents = new Map<string, KnowledgeDocument>();
+  for (const document of await loadDocuments()) {
+    const key = documentKey(document);
+    documents.set(key, document);
+    index.add(key, keywordText(document));
+  }
+  return { index, documents, builtAt: Date.now() };
+}
+
+/**
+ * 获取关键词索引（内存），超过 ttlMs 后重建，重建失败时继续使用旧索引
+ */
+async function getKeywordIndex(): Promise<KeywordIndex> {
+  const { ttlMs } = getHybridSearchConfig();
+  if (keywordIndex && Date.now() - keywordIndex.builtAt <= ttlMs) {
+    return keywordIndex;
+  }
+
+  if (!building) {
+    building = buildKeywordIndex().finally(() => {
+      building = undefined;
+    });
+  }
+  try {
+    keywordIndex = await building;
+  } catch (error: any) {
+    if (!keywordIndex) throw error;
+    console.error('[HybridSearch] Rebuilding keyword index failed:', error.message);
+  }
+  return keywordIndex;
+}
+
+/**
+ * 清空关键词索引（数据更新后下次检索时重建）
+ */
+export function resetKeywordIndex(): void {
+  keywordIndex = undefined;
+}
+
+/**
+ * BM25 关键词检索
+ */
+export async function keywordSearch(
+  query: string,
+  options: { types: DocumentType[]; industry?: string; limit: number }
+): Promise<KeywordMatch[]> {
+  const { index, documents } = await getKeywordIndex();
+  const matches = index.search(query, options.limit, key => {
+    const document = documents.get(key)!;
+    return options.types.includes(document.type) &&
+      (!options.industry || document.metadata.industry === options.industry);
+  });
+
+  return matches.map(match => ({ document: documents.get(match.id)!, score: match.score }));
+}
+
+/**
+ * 加权 RRF 融合两路结果（各自已按相关度降序）
+ */
+export function fuseResults(
+  vectorMatches: VectorMatch[],
+  keywordMatches: KeywordMatch[],
+  weights: HybridWeights,
+  rrfK: number
+): HybridMatch[] {
+  const fused = new Map<string, HybridMatch>();
+  const entry = (document: KnowledgeDocument): HybridMatch => {
+    const key = documentKey(document);
+    if (!fused.has(key)) {
+      fused.set(key, { document, score: 0, similarity: 0, keywordScore: 0 });
+    }
+    return fused.get(key)!;
+  };
+
+  vectorMatches.forEach((match, rank) => {
+    const result = entry(match.document);
+    result.similarity = match.similarity;
+    result.score += weights.vector / (rrfK + rank + 1);
+  });
+  keywordMatches.forEach((match, rank) => {
+    const result = entry(match.document);
+    result.keywordScore = match.score;
+    result.score += weights.keyword / (rrfK + rank + 1);
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
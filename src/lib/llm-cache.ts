@@ -0,0 +1,239 @@
+/**
+ * LLM Response Cache
+ * LLM 响应缓存 - 按 提供方 + 模型 + 参数 + prompt 内容寻址
+ * 内存 LRU 为第一层，可选 Supabase 持久层（表 llm_cache）
+ */
+
+import crypto from 'crypto';
+
+/**
+ * 缓存条目
+ */
+export interface CacheEntry {
+  content: string;
+  model: string;
+  provider: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * 缓存层接口
+ */
+export interface CacheTier {
+  name: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * 缓存配置
+ */
+export interface CacheConfig {
+  mode: 'all' | 'deterministic' | 'off';  // deterministic：只缓存 temperature 为 0 的调用和结构化输出
+  ttlMs: number;
+  maxEntries: number;
+  persistentTier: 'none' | 'supabase';
+}
+
+/**
+ * 从环境变量读取缓存配置
+ * LLM_CACHE_ENABLED 未设置时只缓存确定性的调用，销售话术、脑力风暴等生成内容每次重新生成
+ */
+export function getCacheConfig(): CacheConfig {
+  const env = process.env;
+  return {
+    mode: env.LLM_CACHE_ENABLED === 'true' ? 'all' : env.LLM_CACHE_ENABLED === 'false' ? 'off' : 'deterministic',
+    ttlMs: parseInt(env.LLM_CACHE_TTL_MS || String(60 * 60 * 1000)),
+    maxEntries: parseInt(env.LLM_CACHE_MAX_ENTRIES || '500'),
+    persistentTier: env.LLM_CACHE_TIER === 'supabase' ? 'supabase' : 'none'
+  };
+}
+
+/**
+ * 调用方未指定时是否使用缓存
+ */
+export function shouldCache(options: { temperature?: number; structured?: boolean }, config = getCacheConfig()): boolean {
+  if (config.mode === 'off') return false;
+  if (config.mode === 'all') return true;
+  return options.temperature === 0 || !!options.structured;
+}
+
+/**
+ * 计算缓存键（内容寻址）
+ */
+export function cacheKey(parts: Record<string, unknown>): string {
+  const normalized = Object.keys(parts)
+    .sort()
+    .map(key => [key, parts[key] ?? null]);
+  return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/**
+ * 内存 LRU 缓存层（Map 保持插入顺序，命中时移到末尾）
+ */
+export class MemoryCacheTier implements CacheTier {
+  name = 'memory';
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Supabase 持久缓存层
+ * 延迟加载 db 模块，未启用时不需要 Supabase 配置
+ */
+export class SupabaseCacheTier implements CacheTier {
+  name = 'supabase';
+
+  private async client() {
+    return (await import('./db')).supabaseAdmin;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const supabaseAdmin = await this.client();
+    const { data, error } = await supabaseAdmin
+      .from('llm_cache')
+      .select('value, expires_at')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error || !data) return undefined;
+    if (new Date(data.expires_at).getTime() <= Date.now()) return undefined;
+
+    return data.value as CacheEntry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const supabaseAdmin = await this.client();
+    const { error } = await supabaseAdmin
+      .from('llm_cache')
+      .upsert({
+        key,
+        value: entry,
+        expires_at: new Date(entry.expiresAt).toISOString()
+      });
+
+    if (error) throw error;
+  }
+
+  async delete(key: string): Promise<void> {
+    const supabaseAdmin = await this.client();
+    const { error } = await supabaseAdmin.from('llm_cache').delete().eq('key', key);
+    if (error) throw error;
+  }
+
+  async clear(): Promise<void> {
+    const supabaseAdmin = await this.client();
+    const { error } = await supabaseAdmin.from('llm_cache').delete().neq('key', '');
+    if (error) throw error;
+  }
+}
+
+/**
+ * 分层缓存：依次查询各层，命中后回填更靠前的层
+ * 持久层出错只记录日志，不影响调用
+ */
+export class LLMCache {
+  constructor(private tiers: CacheTier[], private ttlMs: number) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    for (let i = 0; i < this.tiers.length; i++) {
+      try {
+        const entry = await this.tiers[i].get(key);
+        if (entry) {
+          await Promise.all(this.tiers.slice(0, i).map(t => t.set(key, entry)));
+          return entry;
+        }
+      } catch (error: any) {
+        console.error(`[LLMCache] ${this.tiers[i].name} get failed:`, error.message);
+      }
+    }
+    return undefined;
+  }
+
+  async set(key: string, value: Omit<CacheEntry, 'createdAt' | 'expiresAt'>): Promise<void> {
+    const now = Date.now();
+    const entry: CacheEntry = { ...value, createdAt: now, expiresAt: now + this.ttlMs };
+
+    await Promise.all(this.tiers.map(async tier => {
+      try {
+        await tier.set(key, entry);
+      } catch (error: any) {
+        console.error(`[LLMCache] ${tier.name} set failed:`, error.message);
+      }
+    }));
+  }
+
+  /**
+   * 删除条目（例如结构化输出校验失败的结果）
+   */
+  async delete(key: string): Promise<void> {
+    await Promise.all(this.tiers.map(async tier => {
+      try {
+        await tier.delete(key);
+      } catch (error: any) {
+        console.error(`[LLMCache] ${tier.name} delete failed:`, error.message);
+      }
+    }));
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all(this.tiers.map(t => t.clear()));
+  }
+}
+
+let llmCache: LLMCache | undefined;
+
+/**
+ * 获取全局缓存实例
+ */
+export function getLLMCache(): LLMCache {
+  if (!llmCache) {
+    const config = getCacheConfig();
+    const tiers: CacheTier[] = [new MemoryCacheTier(config.maxEntries)];
+    if (config.persistentTier === 'supabase') {
+      tiers.push(new SupabaseCacheTier());
+    }
+    llmCache = new LLMCache(tiers, config.ttlMs);
+  }
+  return llmCache;
+}
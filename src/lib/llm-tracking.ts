@@ -0,0 +1,148 @@
+/**
+ * LLM Call Tracking
+ * LLM 调用追踪 - 按执行范围（Agent 执行、工作流、API 请求）汇总调用次数、token 用量和费用
+ * 范围可以嵌套，一次调用会计入所有外层范围
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ToolInvocation } from './tools';
+
+/**
+ * 单次 LLM 调用记录
+ */
+export interface LLMCallRecord {
+  agent?: string;
+  promptId?: string;  // 模板版本，如 sales.cold_call@v1/zh
+  provider: string;
+  model: string;
+  cached: boolean;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost: number;       // 估算费用（人民币），命中缓存时为 0
+  timestamp: string;  // ISO 时间
+}
+
+/**
+ * 调用汇总
+ */
+export interface LLMCallSummary {
+  calls: number;
+  cacheHits: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost: number;
+}
+
+/**
+ * 追踪范围
+ */
+class TrackingScope {
+  records: LLMCallRecord[] = [];
+  toolCalls: ToolInvocation[] = [];
+
+  constructor(public parent?: TrackingScope) {}
+}
+
+const storage = new AsyncLocalStorage<TrackingScope>();
+
+/**
+ * 在新的追踪范围内执行 fn，返回结果和范围内的全部 LLM 调用、工具调用记录
+ */
+export async function trackLLMCalls<T>(
+  fn: () => Promise<T>
+): Promise<{ result: T; records: LLMCallRecord[]; toolCalls: ToolInvocation[] }> {
+  const scope = new TrackingScope(storage.getStore());
+  const result = await storage.run(scope, fn);
+  return { result, records: scope.records, toolCalls: scope.toolCalls };
+}
+
+/**
+ * 记录一次调用（计入当前范围及所有外层范围）
+ */
+export function recordLLMCall(record: LLMCallRecord): void {
+  let scope = storage.getStore();
+  while (scope) {
+    scope.records.push(record);
+    scope = scope.parent;
+  }
+}
+
+/**
+ * 记录一次工具调用（计入当前范围及所有外层范围）
+ */
+export function recordToolCall(invocation: ToolInvocation): void {
+  let scope = storage.getStore();
+  while (scope) {
+    scope.toolCalls.push(invocation);
+    scope = scope.parent;
+  }
+}
+
+/**
+ * 汇总调用记录
+ */
+export function summarizeLLMCalls(records: LLMCallRecord[]): LLMCallSummary {
+  const summary: LLMCallSummary = {
+    calls: 0,
+    cacheHits: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    latencyMs: 0,
+    cost: 0
+  };
+
+  for (const record of records) {
+    summary.calls++;
+    summary.cacheHits += record.cached ? 1 : 0;
+    summary.inputTokens += record.inputTokens;
+    summary.outputTokens += record.outputTokens;
+    summary.latencyMs += record.latencyMs;
+    summary.cost += record.cost;
+  }
+
+  summary.cost = Math.round(summary.cost * 1e6) / 1e6;
+  return summary;
+}
+
+/**
+ * 按字段分组汇总（如按 agent / model）
+ */
+export function groupLLMCalls(
+  records: LLMCallRecord[],
+  keyOf: (record: LLMCallRecord) => string
+): Record<string, LLMCallSummary> {
+  const groups: Record<string, LLMCallRecord[]> = {};
+  for (const record of records) {
+    const key = keyOf(record);
+    (groups[key] = groups[key] || []).push(record);
+  }
+
+  const result: Record<string, LLMCallSummary> = {};
+  for (const [key, group] of Object.entries(groups)) {
+    result[key] = summarizeLLMCalls(group);
+  }
+  return result;
+}
+
+/**
+ * 本范围内用到的模板版本（去重）
+ */
+export function listPrompts(records: LLMCallRecord[]): string[] {
+  return Array.from(new Set(
+    records.map(r => r.promptId).filter((id): id is string => !!id)
+  ));
+}
+
+/**
+ * 工作流 / API 请求的用量：总计 + 按 Agent 分组
+ */
+export function summarizeUsage(records: LLMCallRecord[]): LLMCallSummary & {
+  byAgent: Record<string, LLMCallSummary>;
+} {
+  return {
+    ...summarizeLLMCalls(records),
+    byAgent: groupLLMCalls(records, r => r.agent || 'unknown')
+  };
+}
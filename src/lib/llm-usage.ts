@@ -0,0 +1,187 @@
+/**
+ * LLM Usage Store
+ * LLM 用量记录 - 保存每次调用的 token、延迟和费用，按天 / 模型 / Agent 出报表
+ * 默认保存在进程内存，LLM_USAGE_STORE=supabase 时写入 llm_usage 表
+ */
+
+import { LLMCallRecord, LLMCallSummary, groupLLMCalls, summarizeLLMCalls } from './llm-tracking';
+
+/**
+ * 用量存储接口
+ */
+export interface UsageStore {
+  name: string;
+  add(record: LLMCallRecord): Promise<void>;
+  list(from?: string, to?: string): Promise<LLMCallRecord[]>;
+}
+
+/**
+ * 用量配置
+ */
+export interface UsageConfig {
+  store: 'memory' | 'supabase';
+  maxRecords: number;  // 内存存储最多保留的记录数
+}
+
+/**
+ * 从环境变量读取用量配置
+ */
+export function getUsageConfig(): UsageConfig {
+  const env = process.env;
+  return {
+    store: env.LLM_USAGE_STORE === 'supabase' ? 'supabase' : 'memory',
+    maxRecords: parseInt(env.LLM_USAGE_MAX_RECORDS || '10000')
+  };
+}
+
+/**
+ * 内存存储，超出上限时丢弃最早的记录
+ */
+export class MemoryUsageStore implements UsageStore {
+  name = 'memory';
+  private records: LLMCallRecord[] = [];
+
+  constructor(private maxRecords: number) {}
+
+  async add(record: LLMCallRecord): Promise<void> {
+    this.records.push(record);
+    if (this.records.length > this.maxRecords) {
+      this.records.splice(0, this.records.length - this.maxRecords);
+    }
+  }
+
+  async list(from?: string, to?: string): Promise<LLMCallRecord[]> {
+    return this.records.filter(r =>
+      (!from || r.timestamp >= from) && (!to || r.timestamp <= to)
+    );
+  }
+}
+
+/**
+ * Supabase 存储（llm_usage 表）
+ */
+export class SupabaseUsageStore implements UsageStore {
+  name = 'supabase';
+
+  private async client() {
+    return (await import('./db')).supabaseAdmin;
+  }
+
+  async add(record: LLMCallRecord): Promise<void> {
+    const supabaseAdmin = await this.client();
+    const { error } = await supabaseAdmin.from('llm_usage').insert({
+      agent: record.agent || null,
+      prompt_id: record.promptId || null,
+      provider: record.provider,
+      model: record.model,
+      cached: record.cached,
+      input_tokens: record.inputTokens,
+      output_tokens: record.outputTokens,
+      latency_ms: record.latencyMs,
+      cost: record.cost,
+      created_at: record.timestamp
+    });
+    if (error) throw error;
+  }
+
+  async list(from?: string, to?: string): Promise<LLMCallRecord[]> {
+    const supabaseAdmin = await this.client();
+    let query = supabaseAdmin
+      .from('llm_usage')
+      .select('*')
+      .order('created_at', { ascending: true })
+      .limit(getUsageConfig().maxRecords);
+
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lte('created_at', to);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      agent: row.agent || undefined,
+      promptId: row.prompt_id || undefined,
+      provider: row.provider,
+      model: row.model,
+      cached: row.cached,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      latencyMs: row.latency_ms,
+      cost: Number(row.cost),
+      timestamp: new Date(row.created_at).toISOString()
+    }));
+  }
+}
+
+let usageStore: UsageStore | undefined;
+
+/**
+ * 获取全局用量存储
+ */
+export function getUsageStore(): UsageStore {
+  if (!usageStore) {
+    const config = getUsageConfig();
+    usageStore = config.store === 'supabase'
+      ? new SupabaseUsageStore()
+      : new MemoryUsageStore(config.maxRecords);
+  }
+  return usageStore;
+}
+
+/**
+ * 保存一次调用的用量，失败只记录日志，不影响调用
+ */
+export async function saveUsage(record: LLMCallRecord): Promise<void> {
+  const store = getUsageStore();
+  try {
+    await store.add(record);
+  } catch (error: any) {
+    console.error(`[LLMUsage] ${store.name} add failed:`, error.message);
+  }
+}
+
+/**
+ * 用量报表
+ */
+export interface UsageReport {
+  from?: string;
+  to?: string;
+  total: LLMCallSummary;
+  byDay: Array<LLMCallSummary & { day: string }>;
+  byModel: Array<LLMCallSummary & { model: string }>;
+  byAgent: Array<LLMCallSummary & { agent: string }>;
+  byPrompt: Array<LLMCallSummary & { prompt: string }>;  // 按模板版本，用于 A/B 对比
+}
+
+/**
+ * 生成用量报表（按天升序，按模型 / Agent 费用降序，按模板版本名称升序）
+ */
+export async function getUsageReport(options: { from?: string; to?: string } = {}): Promise<UsageReport> {
+  const records = await getUsageStore().list(options.from, options.to);
+
+  const byDay = Object.entries(groupLLMCalls(records, r => r.timestamp.slice(0, 10)))
+    .map(([day, summary]) => ({ day, ...summary }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+
+  const byModel = Object.entries(groupLLMCalls(records, r => `${r.provider}:${r.model}`))
+    .map(([model, summary]) => ({ model, ...summary }))
+    .sort((a, b) => b.cost - a.cost || a.model.localeCompare(b.model));
+
+  const byAgent = Object.entries(groupLLMCalls(records, r => r.agent || 'unknown'))
+    .map(([agent, summary]) => ({ agent, ...summary }))
+    .sort((a, b) => b.cost - a.cost || a.agent.localeCompare(b.agent));
+
+  const byPrompt = Object.entries(groupLLMCalls(records.filter(r => r.promptId), r => r.promptId!))
+    .map(([prompt, summary]) => ({ prompt, ...summary }))
+    .sort((a, b) => a.prompt.localeCompare(b.prompt));
+
+  return {
+    from: options.from,
+    to: options.to,
+    total: summarizeLLMCalls(records),
+    byDay,
+    byModel,
+    byAgent,
+    byPrompt
+  };
+}
@@ -1,50 +1,487 @@
-import axios from 'axios';
+import { z } from 'zod';
+import {
+  LLMAbortedError,
+  LLMMessage,
+  LLMUsage,
+  ModelTier,
+  estimateCost,
+  estimateTokens,
+  getLLMConfig,
+  getProvider,
+  resolveModel,
+  withResilience
+} from './providers';
+import { cacheKey, getLLMCache, shouldCache } from './llm-cache';
+import { getAbortSignal } from './cancellation';
+import { LLMCallRecord, recordLLMCall, recordToolCall } from './llm-tracking';
+import { saveUsage } from './llm-usage';
+import { RenderedPrompt, renderPrompt } from './prompts';
+import { AgentTool, ToolInvocation, toToolDefinition } from './tools';
 
-const DASHSCOPE_API_KEY = process.env.DASHSCOPE_API_KEY;
-const DASHSCOPE_BASE_URL = 'https://dashscope.aliyuncs.com/api/v1';
+export type { ModelTier } from './providers';
 
 /**
- * 调用阿里云 Qwen3 模型进行推理
+ * 提示词：纯文本，或模板注册表渲染结果（会记录模板版本）
+ */
+export type PromptInput = string | RenderedPrompt;
+
+/**
+ * LLM 调用选项
+ */
+export interface LLMCallOptions {
+  agent?: string;  // 调用方 Agent 名称，用于按 Agent 选择模型
+  temperature?: number;
+  maxTokens?: number;
+  onToken?: (token: string) => void;  // 提供时使用流式输出，逐段回调增量文本
+  timeoutMs?: number;   // 单次请求超时，默认读 LLM_TIMEOUT_MS
+  maxRetries?: number;  // 可重试错误的最大重试次数，默认读 LLM_MAX_RETRIES
+  cache?: boolean;      // 是否使用响应缓存（默认按 LLM_CACHE_ENABLED：未设置时只缓存 temperature 为 0 的调用）
+  promptId?: string;    // 模板版本（如 sales.cold_call@v1/zh），传入 RenderedPrompt 时自动填写
+  signal?: AbortSignal; // 取消信号，默认使用当前范围的信号（runWithSignal）
+}
+
+/**
+ * LLM 调用结果
+ */
+export interface LLMResult {
+  content: string;
+  model: string;
+  provider: string;
+  cached: boolean;
+  cacheKey?: string;  // 启用缓存时的缓存键
+  usage: LLMUsage;
+  latencyMs: number;
+  cost: number;       // 估算费用（人民币），命中缓存时为 0
+}
+
+/**
+ * 记录一次调用：计入当前追踪范围并保存到用量存储
+ */
+function logCall(record: Omit<LLMCallRecord, 'timestamp'>): void {
+  const full: LLMCallRecord = { ...record, timestamp: new Date().toISOString() };
+  recordLLMCall(full);
+  // 用量持久化不阻塞调用
+  void saveUsage(full);
+}
+
+/**
+ * 调用 LLM 进行推理，返回内容及调用信息
+ * 相同 提供方 + 模型 + 参数 + prompt 的结果会被缓存（默认只缓存 temperature 为 0 的调用）
+ */
+export async function generateText(
+  input: PromptInput,
+  model: ModelTier = 'qwen-plus',
+  options: LLMCallOptions = {}
+): Promise<LLMResult> {
+  const prompt = typeof input === 'string' ? input : input.text;
+  const promptId = typeof input === 'string' ? options.promptId : input.id;
+  const ref = resolveModel(model, options.agent);
+  const provider = getProvider(ref.provider);
+  const request = {
+    prompt,
+    model: ref.model,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens,
+    timeoutMs: options.timeoutMs ?? getLLMConfig().resilience.timeoutMs,
+    signal: options.signal ?? getAbortSignal()
+  };
+
+  const startedAt = Date.now();
+  const useCache = options.cache ?? shouldCache({ temperature: request.temperature });
+  const key = cacheKey({
+    provider: provider.name,
+    model: request.model,
+    prompt,
+    temperature: request.temperature,
+    maxTokens: request.maxTokens
+  });
+
+  if (useCache) {
+    const hit = await getLLMCache().get(key);
+    if (hit) {
+      // 流式调用命中缓存时一次性输出
+      options.onToken?.(hit.content);
+      const usage = { inputTokens: 0, outputTokens: 0 };
+      const latencyMs = Date.now() - startedAt;
+      logCall({ agent: options.agent, promptId, provider: hit.provider, model: hit.model, cached: true, ...usage, latencyMs, cost: 0 });
+      return {
+        content: hit.content,
+        model: hit.model,
+        provider: hit.provider,
+        cached: true,
+        cacheKey: key,
+        usage,
+        latencyMs,
+        cost: 0
+      };
+    }
+  }
+
+  // 流式输出已开始后不再重试，避免重复输出
+  let streamed = false;
+  const onToken = options.onToken && ((token: string) => {
+    streamed = true;
+    options.onToken!(token);
+  });
+
+  const response = await withResilience(
+    provider.name,
+    () => onToken ? provider.stream(request, onToken) : provider.generate(request),
+    { maxRetries: options.maxRetries, shouldRetry: () => !streamed, signal: request.signal }
+  );
+
+  if (useCache) {
+    await getLLMCache().set(key, {
+      content: response.content,
+      model: response.model,
+      provider: response.provider
+    });
+  }
+
+  // 提供方未返回用量时按文本长度估算
+  const usage = response.usage || {
+    inputTokens: estimateTokens(prompt),
+    outputTokens: estimateTokens(response.content)
+  };
+  const latencyMs = Date.now() - startedAt;
+  const cost = estimateCost(response.model, usage);
+
+  logCall({ agent: options.agent, promptId, provider: response.provider, model: response.model, cached: false, ...usage, latencyMs, cost });
+  return {
+    content: response.content,
+    model: response.model,
+    provider: response.provider,
+    cached: false,
+    cacheKey: useCache ? key : undefined,
+    usage,
+    latencyMs,
+    cost
+  };
+}
+
+/**
+ * 调用 LLM 进行推理
+ * 名称沿用 Qwen，实际提供方和模型由 providers 配置决定
  */
 export async function callQwen(
-  prompt: string,
-  model: 'qwen-turbo' | 'qwen-plus' | 'qwen-max' = 'qwen-plus'
+  prompt: PromptInput,
+  model: ModelTier = 'qwen-plus',
+  options: LLMCallOptions = {}
 ): Promise<string> {
-  if (!DASHSCOPE_API_KEY) {
-    throw new Error('DASHSCOPE_API_KEY is not configured');
+  return (await generateText(prompt, model, options)).content;
+}
+
+/**
+ * 文本嵌入向量
+ */
+export async function embedText(text: string): Promise<number[]> {
+  const config = getLLMConfig();
+  const provider = getProvider(config.provider);
+  return await withResilience(provider.name, () =>
+    provider.embed(text, config.embeddingModel, config.resilience.timeoutMs)
+  );
+}
+
+/**
+ * 工具调用选项
+ */
+export interface ToolLoopOptions extends Omit<LLMCallOptions, 'onToken' | 'cache'> {
+  model?: ModelTier;
+  system?: string;     // 系统提示词
+  maxSteps?: number;   // 最多发起工具调用的模型轮数，默认读 LLM_TOOL_MAX_STEPS
+}
+
+/**
+ * 工具调用结果
+ */
+export interface ToolLoopResult {
+  content: string;
+  toolCalls: ToolInvocation[];
+  steps: number;            // 模型调用次数
+  stoppedByLimit: boolean;  // 达到轮数上限后被要求直接回答
+}
+
+const TOOL_RESULT_MAX_LENGTH = 4000;
+
+/**
+ * 执行一次工具调用，出错时把错误作为结果交还模型
+ */
+async function invokeTool(
+  tools: AgentTool[],
+  name: string,
+  rawArguments: string,
+  step: number
+): Promise<ToolInvocation> {
+  const startedAt = Date.now();
+  let args: unknown = rawArguments;
+
+  try {
+    const tool = tools.find(t => t.name === name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    args = rawArguments ? JSON.parse(rawArguments) : {};
+    const parsed = tool.schema.safeParse(args);
+    if (!parsed.success) {
+      throw new Error(`Invalid arguments:\n${formatIssues(parsed.error)}`);
+    }
+
+    const result = await tool.execute(parsed.data);
+    return { tool: name, arguments: args, result, durationMs: Date.now() - startedAt, step };
+  } catch (error: any) {
+    return { tool: name, arguments: args, error: error.message, durationMs: Date.now() - startedAt, step };
   }
+}
+
+/**
+ * 带工具调用的 LLM 推理：模型请求调用工具时执行并回传结果，直到模型给出回答
+ * 超过 maxSteps 轮仍在调用工具时，不再提供工具，要求模型直接回答
+ */
+export async function callWithTools(
+  input: PromptInput,
+  tools: AgentTool[],
+  options: ToolLoopOptions = {}
+): Promise<ToolLoopResult> {
+  const config = getLLMConfig();
+  const { model = 'qwen-plus', system, maxSteps = config.toolMaxSteps, ...callOptions } = options;
+  const ref = resolveModel(model, callOptions.agent);
+  const provider = getProvider(ref.provider);
+  const promptId = typeof input === 'string' ? callOptions.promptId : input.id;
+  const definitions = tools.map(toToolDefinition);
+  const signal = callOptions.signal ?? getAbortSignal();
+
+  const messages: LLMMessage[] = [
+    ...(system ? [{ role: 'system' as const, content: system }] : []),
+    { role: 'user', content: typeof input === 'string' ? input : input.text }
+  ];
+  const toolCalls: ToolInvocation[] = [];
+
+  for (let step = 1; ; step++) {
+    const stoppedByLimit = step > maxSteps;
+    const startedAt = Date.now();
+
+    const response = await withResilience(
+      provider.name,
+      () => provider.chat({
+        messages,
+        tools: stoppedByLimit ? undefined : definitions,
+        model: ref.model,
+        temperature: callOptions.temperature,
+        maxTokens: callOptions.maxTokens,
+        timeoutMs: callOptions.timeoutMs ?? config.resilience.timeoutMs,
+        signal
+      }),
+      { maxRetries: callOptions.maxRetries, signal }
+    );
+
+    const usage = response.usage || {
+      inputTokens: estimateTokens(messages.map(m => m.content).join('\n')),
+      outputTokens: estimateTokens(response.content)
+    };
+    logCall({
+      agent: callOptions.agent,
+      promptId,
+      provider: response.provider,
+      model: response.model,
+      cached: false,
+      ...usage,
+      latencyMs: Date.now() - startedAt,
+      cost: estimateCost(response.model, usage)
+    });
+
+    if (stoppedByLimit || !response.toolCalls?.length) {
+      return { content: response.content, toolCalls, steps: step, stoppedByLimit };
+    }
+
+    messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+
+    for (const call of response.toolCalls) {
+      const invocation = await invokeTool(tools, call.name, call.arguments, step);
+      toolCalls.push(invocation);
+      recordToolCall(invocation);
+
+      const payload = JSON.stringify(
+        invocation.error ? { error: invocation.error } : invocation.result ?? null
+      );
+      messages.push({
+        role: 'tool',
+        toolCallId: call.id,
+        name: call.name,
+        content: payload.length > TOOL_RESULT_MAX_LENGTH
+          ? `${payload.slice(0, TOOL_RESULT_MAX_LENGTH)}...(truncated)`
+          : payload
+      });
+    }
+  }
+}
+
+/**
+ * 结构化调用结果
+ */
+export interface StructuredResult<T> {
+  data: T;
+  usedFallback: boolean;  // 是否使用了降级默认值
+  attempts: number;       // 实际调用 LLM 的次数
+  errors: string[];       // 每次失败的原因
+}
+
+/**
+ * 结构化调用选项
+ */
+export interface StructuredOptions<T> extends Omit<LLMCallOptions, 'onToken'> {
+  model?: ModelTier;
+  maxRepairs?: number;    // 校验失败后最多重新提问次数，默认读 LLM_STRUCTURED_MAX_REPAIRS
+  fallback: T | (() => T);
+}
+
+/**
+ * 从模型输出中提取 JSON 文本
+ * 依次尝试：代码块、整体解析、按出现位置截取 [...] / {...}
+ */
+export function extractJSON(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
 
   try {
-    const response = await axios.post(
-      `${DASHSCOPE_BASE_URL}/services/aigc/text-generation/generation`,
-      {
-        model: model,
-        input: {
-          prompt: prompt,
-        },
-        parameters: {
-          result_format: 'message',
-        },
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${DASHSCOPE_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
+    return JSON.parse(candidate);
+  } catch (error) {
+    // 继续尝试截取
+  }
+
+  // 按出现位置依次尝试 [...] 和 {...}
+  const matches = [candidate.match(/\[[\s\S]*\]/), candidate.match(/\{[\s\S]*\}/)]
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+
+  let lastError: Error = new Error('No JSON found in response');
+  for (const match of matches) {
+    try {
+      return JSON.parse(match[0]);
+    } catch (error: any) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * 格式化 zod 校验错误
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * 构建修复提示词
+ */
+function buildRepairPrompt(prompt: string, output: string, problem: string): string {
+  return `${prompt}
+
+你上一次的输出：
+${output}
+
+上一次输出不符合要求：
+${problem}
+
+请修正以上问题，只输出符合格式要求的 JSON，不要添加任何其他内容。
+
+JSON输出：`;
+}
+
+/**
+ * 调用 LLM 并按 schema 返回结构化结果
+ * 解析或校验失败时带上错误重新提问；全部失败（或调用本身失败）时返回 fallback，调用被取消时抛出
+ */
+export async function callStructured<S extends z.ZodTypeAny, F = z.infer<S>>(
+  input: PromptInput,
+  schema: S,
+  options: StructuredOptions<F>
+): Promise<StructuredResult<z.infer<S> | F>> {
+  const { model = 'qwen-plus', maxRepairs = getLLMConfig().structuredMaxRepairs, fallback, ...rest } = options;
+  // 修复提问沿用原模板版本
+  const prompt = typeof input === 'string' ? input : input.text;
+  // 结构化输出经过 schema 校验，默认缓存（不合格的输出会被删除）
+  const callOptions = {
+    ...rest,
+    promptId: typeof input === 'string' ? rest.promptId : input.id,
+    cache: rest.cache ?? shouldCache({ temperature: rest.temperature, structured: true })
+  };
+  const errors: string[] = [];
+  let currentPrompt = prompt;
+  let attempts = 0;
+
+  for (let i = 0; i <= maxRepairs; i++) {
+    let output: string;
+    let outputKey: string | undefined;
+    attempts++;
+
+    try {
+      const result = await generateText(currentPrompt, model, callOptions);
+      output = result.content;
+      outputKey = result.cacheKey;
+    } catch (error: any) {
+      // 已取消的调用不降级，让调用方停止后续步骤
+      const signal = callOptions.signal ?? getAbortSignal();
+      if (error instanceof LLMAbortedError || error?.name === 'AbortError' || signal?.aborted) {
+        throw error;
       }
-    );
+      // 调用失败不再重试修复，直接降级
+      errors.push(error.message);
+      break;
+    }
 
-    return response.data.output.choices[0].message.content;
-  } catch (error: any) {
-    console.error('Qwen API Error:', error.response?.data || error.message);
-    throw new Error('Failed to call Qwen API');
+    let problem: string;
+    try {
+      const parsed = schema.safeParse(extractJSON(output));
+      if (parsed.success) {
+        return { data: parsed.data, usedFallback: false, attempts, errors };
+      }
+      problem = formatIssues(parsed.error);
+    } catch (error: any) {
+      problem = `- 无法解析为 JSON: ${error.message}`;
+    }
+
+    // 不合格的输出不保留在缓存中
+    if (outputKey) {
+      await getLLMCache().delete(outputKey);
+    }
+
+    errors.push(problem);
+    currentPrompt = buildRepairPrompt(prompt, output, problem);
   }
+
+  console.error(`Structured output failed after ${attempts} attempt(s), using fallback:`, errors);
+
+  return {
+    data: typeof fallback === 'function' ? (fallback as () => F)() : fallback,
+    usedFallback: true,
+    attempts,
+    errors
+  };
 }
 
+/**
+ * 案例信息
+ */
+const CaseInfoSchema = z.object({
+  project_name: z.string(),
+  industry: z.string(),
+  use_case: z.string(),
+  pain_point: z.string(),
+  technology: z.array(z.string()),
+  outcome: z.string()
+});
+
+export type CaseInfo = z.infer<typeof CaseInfoSchema>;
+
 /**
  * 结构化抽取案例信息
+ * 多次修复仍失败时 data 为 null
  */
-export async function extractCaseInfo(rawText: string): Promise<any> {
+export async function extractCaseInfo(rawText: string): Promise<StructuredResult<CaseInfo | null>> {
   const prompt = `你是一个AI Agent案例分析专家。请从以下文本中提取结构化的案例信息。
 
 请严格按照以下JSON格式输出，不要添加任何其他内容：
@@ -62,19 +499,10 @@ ${rawText}
 
 JSON输出：`;
 
-  const result = await callQwen(prompt);
-
-  try {
-    // 尝试解析 JSON
-    const jsonMatch = result.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
-    }
-    throw new Error('No JSON found in response');
-  } catch (error) {
-    console.error('Failed to parse JSON:', error);
-    return null;
-  }
+  return await callStructured(prompt, CaseInfoSchema, {
+    agent: 'extract',
+    fallback: null
+  });
 }
 
 /**
@@ -104,49 +532,35 @@ export async function generateSalesScript(
 
 话术：`;
 
-  return await callQwen(prompt, 'qwen-turbo');
+  return await callQwen(prompt, 'qwen-turbo', { agent: 'sales_script' });
 }
 
+/**
+ * ROI 估算结果（模型常把数字写成字符串，统一转为数字）
+ */
+const ROISchema = z.object({
+  labor_savings: z.coerce.number().nonnegative(),
+  annual_savings: z.coerce.number().nonnegative(),
+  payback_period: z.coerce.number().positive(),
+  confidence: z.enum(['高', '中', '低'])
+});
+
+export type ROIEstimate = z.infer<typeof ROISchema>;
+
 /**
  * 计算ROI估算
+ * 多次修复仍失败时 data 为 null
  */
 export async function calculateROI(
   industry: string,
   useCase: string,
-  companySize: string
-): Promise<any> {
-  const prompt = `你是一个ROI分析专家。请根据以下信息估算ROI。
-
-- 行业：${industry}
-- 用例：${useCase}
-- 公司规模：${companySize}
-
-请给出：
-1. 预计节省人力（人/年）
-2. 预计年节省成本（人民币）
-3. 投资回报期（月）
-4. 置信度（高/中/低）
-
-请以JSON格式输出：
-{
-  "labor_savings": "数字",
-  "annual_savings": "数字",
-  "payback_period": "数字",
-  "confidence": "高/中/低"
-}
-
-JSON输出：`;
-
-  const result = await callQwen(prompt);
-
-  try {
-    const jsonMatch = result.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
-    }
-  } catch (error) {
-    console.error('Failed to parse ROI:', error);
-  }
+  companySize: string,
+  locale?: string
+): Promise<StructuredResult<ROIEstimate | null>> {
+  const prompt = renderPrompt('roi.estimate', { industry, useCase, companySize }, { locale });
 
-  return null;
+  return await callStructured(prompt, ROISchema, {
+    agent: 'roi',
+    fallback: null
+  });
 }
@@ -0,0 +1,383 @@
+/**
+ * Prompt Registry
+ * 提示词模板注册表 - 模板以文件形式存放，按名称 / 版本 / 语言选择
+ *
+ * 目录结构：prompts/<name>/<version>.<locale>.md，例如 prompts/sales.cold_call/v1.zh.md
+ * 文件头声明变量类型，正文用 {{变量}} 占位：
+ *
+ * ---
+ * description: 冷电话术
+ * variables:
+ *   industry: string
+ *   painPoints: string[]
+ *   caseInfo: json?
+ * ---
+ * 客户行业：{{industry}}
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * 变量类型，末尾加 ? 表示可选
+ */
+export type PromptVariableType = 'string' | 'number' | 'boolean' | 'string[]' | 'json';
+
+export interface PromptVariableSpec {
+  type: PromptVariableType;
+  optional: boolean;
+}
+
+/**
+ * 模板定义
+ */
+export interface PromptTemplate {
+  name: string;
+  version: string;
+  locale: string;
+  description?: string;
+  variables: Record<string, PromptVariableSpec>;
+  body: string;
+  file: string;
+}
+
+/**
+ * 渲染结果，id 形如 sales.cold_call@v1/zh，随输出记录用于 A/B 和回滚
+ */
+export interface RenderedPrompt {
+  id: string;
+  name: string;
+  version: string;
+  locale: string;
+  text: string;
+}
+
+export type PromptVariables = Record<string, unknown>;
+
+export interface RenderOptions {
+  locale?: string;   // 默认读 PROMPT_LOCALE，缺少该语言时回退到 zh
+  version?: string;  // 指定版本，优先于 PROMPT_VERSIONS 配置
+}
+
+/**
+ * 模板文件错误（格式、未声明的占位符、不存在的模板等）
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * 渲染时变量缺失或类型不符
+ */
+export class PromptVariableError extends Error {
+  constructor(public prompt: string, public problems: string[]) {
+    super(`Invalid variables for prompt ${prompt}: ${problems.join('; ')}`);
+    this.name = 'PromptVariableError';
+  }
+}
+
+const DEFAULT_LOCALE = 'zh';
+const VARIABLE_TYPES: PromptVariableType[] = ['string', 'number', 'boolean', 'string[]', 'json'];
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * 模板配置
+ */
+export interface PromptConfig {
+  dir: string;
+  locale: string;
+  // 按模板固定版本，或按权重分流：{"sales.cold_call": "v1", "trend.report": {"v1": 0.5, "v2": 0.5}}
+  versions: Record<string, string | Record<string, number>>;
+}
+
+/**
+ * 从环境变量读取模板配置
+ */
+export function getPromptConfig(): PromptConfig {
+  const env = process.env;
+  let versions: PromptConfig['versions'] = {};
+
+  if (env.PROMPT_VERSIONS) {
+    try {
+      versions = JSON.parse(env.PROMPT_VERSIONS);
+    } catch (error) {
+      console.error('Invalid PROMPT_VERSIONS, ignored:', env.PROMPT_VERSIONS);
+    }
+  }
+
+  return {
+    dir: env.PROMPTS_DIR || path.join(process.cwd(), 'prompts'),
+    locale: env.PROMPT_LOCALE || DEFAULT_LOCALE,
+    versions
+  };
+}
+
+/**
+ * 解析模板文件
+ */
+export function parsePromptFile(
+  source: string,
+  meta: { name: string; version: string; locale: string; file: string }
+): PromptTemplate {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    throw new PromptTemplateError(`${meta.file}: missing front matter`);
+  }
+
+  const [, header, body] = match;
+  const variables: Record<string, PromptVariableSpec> = {};
+  let description: string | undefined;
+  let inVariables = false;
+
+  for (const line of header.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const entry = line.match(/^(\s*)([A-Za-z_][A-Za-z0-9_]*)\s*:\s*(.*)$/);
+    if (!entry) {
+      throw new PromptTemplateError(`${meta.file}: invalid front matter line "${line}"`);
+    }
+
+    const [, indent, key, value] = entry;
+    if (!indent) {
+      inVariables = key === 'variables';
+      if (key === 'description') description = value.trim();
+      continue;
+    }
+
+    if (!inVariables) continue;
+
+    const optional = value.trim().endsWith('?');
+    const type = value.trim().replace(/\?$/, '') as PromptVariableType;
+    if (!VARIABLE_TYPES.includes(type)) {
+      throw new PromptTemplateError(`${meta.file}: unknown type "${value.trim()}" for variable ${key}`);
+    }
+    variables[key] = { type, optional };
+  }
+
+  // 正文里的占位符必须都已声明
+  const undeclared = Array.from(body.matchAll(PLACEHOLDER))
+    .map(m => m[1])
+    .filter(name => !variables[name]);
+  if (undeclared.length > 0) {
+    throw new PromptTemplateError(
+      `${meta.file}: undeclared variables ${Array.from(new Set(undeclared)).join(', ')}`
+    );
+  }
+
+  return { ...meta, description, variables, body: body.trim() };
+}
+
+/**
+ * 按类型把变量转为文本
+ */
+function formatValue(value: unknown, spec: PromptVariableSpec): string {
+  if (value === undefined || value === null) return '';
+  switch (spec.type) {
+    case 'string[]':
+      return (value as string[]).join(', ');
+    case 'json':
+      return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * 检查变量类型，返回问题列表
+ */
+function checkVariables(template: PromptTemplate, variables: PromptVariables): string[] {
+  const problems: string[] = [];
+
+  for (const [name, spec] of Object.entries(template.variables)) {
+    const value = variables[name];
+
+    if (value === undefined || value === null) {
+      if (!spec.optional) problems.push(`missing ${name}`);
+      continue;
+    }
+
+    const ok =
+      spec.type === 'json' ||
+      (spec.type === 'string[]'
+        ? Array.isArray(value) && value.every(v => typeof v === 'string')
+        : typeof value === spec.type);
+
+    if (!ok) {
+      problems.push(`${name} should be ${spec.type}`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * 比较版本号（v2 < v10）
+ */
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * 模板注册表
+ */
+export class PromptRegistry {
+  // name → version → locale → template
+  private templates = new Map<string, Map<string, Map<string, PromptTemplate>>>();
+
+  constructor(private config: PromptConfig = getPromptConfig()) {}
+
+  /**
+   * 注册模板（也可在测试中直接注册）
+   */
+  register(template: PromptTemplate): void {
+    if (!this.templates.has(template.name)) {
+      this.templates.set(template.name, new Map());
+    }
+    const versions = this.templates.get(template.name)!;
+    if (!versions.has(template.version)) {
+      versions.set(template.version, new Map());
+    }
+    versions.get(template.version)!.set(template.locale, template);
+  }
+
+  /**
+   * 从模板目录加载全部模板
+   */
+  load(dir: string = this.config.dir): void {
+    if (!fs.existsSync(dir)) {
+      console.warn(`[PromptRegistry] Prompt directory not found: ${dir}`);
+      return;
+    }
+
+    for (const name of fs.readdirSync(dir)) {
+      const templateDir = path.join(dir, name);
+      if (!fs.statSync(templateDir).isDirectory()) continue;
+
+      for (const fileName of fs.readdirSync(templateDir)) {
+        const match = fileName.match(/^(v[\w.-]*?)\.([a-z]{2}(?:-[A-Z]{2})?)\.md$/);
+        if (!match) continue;
+
+        const file = path.join(templateDir, fileName);
+        this.register(parsePromptFile(fs.readFileSync(file, 'utf-8'), {
+          name,
+          version: match[1],
+          locale: match[2],
+          file
+        }));
+      }
+    }
+  }
+
+  /**
+   * 列出模板名称及其版本
+   */
+  list(): Array<{ name: string; versions: string[] }> {
+    return Array.from(this.templates.entries()).map(([name, versions]) => ({
+      name,
+      versions: Array.from(versions.keys()).sort(compareVersions)
+    }));
+  }
+
+  /**
+   * 选择版本：调用方指定 > PROMPT_VERSIONS 固定 / 分流 > 最新版本
+   */
+  resolveVersion(name: string, requested?: string): string {
+    const versions = this.templates.get(name);
+    if (!versions || versions.size === 0) {
+      throw new PromptTemplateError(`Unknown prompt: ${name}`);
+    }
+
+    const candidate = requested || this.pickConfiguredVersion(name);
+    if (candidate) {
+      if (!versions.has(candidate)) {
+        throw new PromptTemplateError(`Unknown version ${candidate} for prompt ${name}`);
+      }
+      return candidate;
+    }
+
+    return Array.from(versions.keys()).sort(compareVersions).pop()!;
+  }
+
+  private pickConfiguredVersion(name: string): string | undefined {
+    const configured = this.config.versions[name];
+    if (!configured) return undefined;
+    if (typeof configured === 'string') return configured;
+
+    // 按权重随机分流
+    const entries = Object.entries(configured).filter(([, weight]) => weight > 0);
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = Math.random() * total;
+    for (const [version, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) return version;
+    }
+    return entries[entries.length - 1]?.[0];
+  }
+
+  /**
+   * 获取模板，缺少该语言时回退到默认语言
+   */
+  get(name: string, options: RenderOptions = {}): PromptTemplate {
+    const version = this.resolveVersion(name, options.version);
+    const locales = this.templates.get(name)!.get(version)!;
+    const locale = options.locale || this.config.locale;
+
+    const template = locales.get(locale) || locales.get(DEFAULT_LOCALE) || locales.values().next().value;
+    if (!template) {
+      throw new PromptTemplateError(`No locale variant for prompt ${name}@${version}`);
+    }
+    return template;
+  }
+
+  /**
+   * 渲染模板，变量缺失或类型不符时抛出 PromptVariableError
+   */
+  render(name: string, variables: PromptVariables, options: RenderOptions = {}): RenderedPrompt {
+    const template = this.get(name, options);
+    const id = `${template.name}@${template.version}/${template.locale}`;
+
+    const problems = checkVariables(template, variables);
+    if (problems.length > 0) {
+      throw new PromptVariableError(id, problems);
+    }
+
+    const text = template.body.replace(PLACEHOLDER, (_, key: string) =>
+      formatValue(variables[key], template.variables[key])
+    );
+
+    return {
+      id,
+      name: template.name,
+      version: template.version,
+      locale: template.locale,
+      text
+    };
+  }
+}
+
+let promptRegistry: PromptRegistry | undefined;
+
+/**
+ * 获取全局模板注册表（首次使用时从 PROMPTS_DIR 加载）
+ */
+export function getPromptRegistry(): PromptRegistry {
+  if (!promptRegistry) {
+    promptRegistry = new PromptRegistry();
+    promptRegistry.load();
+  }
+  return promptRegistry;
+}
+
+/**
+ * 渲染全局注册表中的模板
+ */
+export function renderPrompt(
+  name: string,
+  variables: PromptVariables,
+  options: RenderOptions = {}
+): RenderedPrompt {
+  return getPromptRegistry().render(name, variables, options);
+}
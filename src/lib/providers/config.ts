@@ -0,0 +1,136 @@
+/**
+ * LLM Provider Config
+ * LLM 提供方配置 - 选择提供方，并按档位 / 按 Agent 指定模型
+ */
+
+import { ModelTier, ProviderName } from './types';
+
+/**
+ * 模型引用 - 提供方 + 具体模型
+ */
+export interface ModelRef {
+  provider: ProviderName;
+  model: string;
+}
+
+/**
+ * LLM 配置
+ */
+export interface LLMConfig {
+  provider: ProviderName;
+  tiers: Record<ModelTier, string>;
+  agentModels: Record<string, string>;
+  embeddingModel: string;
+  structuredMaxRepairs: number;
+  toolMaxSteps: number;
+  resilience: {
+    timeoutMs: number;
+    maxRetries: number;
+    retryBaseMs: number;
+    retryMaxMs: number;
+    breakerThreshold: number;
+    breakerCooldownMs: number;
+  };
+  dashscope: {
+    apiKey?: string;
+    baseUrl: string;
+  };
+  openai: {
+    apiKey?: string;
+    baseUrl: string;
+  };
+  fixture: {
+    file?: string;
+  };
+}
+
+const PROVIDER_NAMES: ProviderName[] = ['dashscope', 'openai', 'fixture'];
+
+/**
+ * 解析 LLM_AGENT_MODELS，格式为 JSON：{"TrendFinderAgent": "qwen-max", "rag": "openai:llama3.1"}
+ */
+function parseAgentModels(raw: string | undefined): Record<string, string> {
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    console.error('Invalid LLM_AGENT_MODELS, ignored:', raw);
+    return {};
+  }
+}
+
+function parseProvider(raw: string | undefined): ProviderName {
+  return PROVIDER_NAMES.includes(raw as ProviderName) ? (raw as ProviderName) : 'dashscope';
+}
+
+/**
+ * 从环境变量读取配置
+ */
+export function getLLMConfig(): LLMConfig {
+  const env = process.env;
+
+  return {
+    provider: parseProvider(env.LLM_PROVIDER),
+    tiers: {
+      'qwen-turbo': env.LLM_MODEL_TURBO || 'qwen-turbo',
+      'qwen-plus': env.LLM_MODEL_PLUS || 'qwen-plus',
+      'qwen-max': env.LLM_MODEL_MAX || 'qwen-max'
+    },
+    agentModels: parseAgentModels(env.LLM_AGENT_MODELS),
+    embeddingModel: env.LLM_EMBEDDING_MODEL || 'text-embedding-v2',
+    structuredMaxRepairs: parseInt(env.LLM_STRUCTURED_MAX_REPAIRS || '2') || 0,
+    toolMaxSteps: parseInt(env.LLM_TOOL_MAX_STEPS || '5') || 1,
+    resilience: {
+      timeoutMs: parseInt(env.LLM_TIMEOUT_MS || '60000'),
+      maxRetries: parseInt(env.LLM_MAX_RETRIES || '3'),
+      retryBaseMs: parseInt(env.LLM_RETRY_BASE_MS || '500'),
+      retryMaxMs: parseInt(env.LLM_RETRY_MAX_MS || '10000'),
+      breakerThreshold: parseInt(env.LLM_BREAKER_THRESHOLD || '5'),
+      breakerCooldownMs: parseInt(env.LLM_BREAKER_COOLDOWN_MS || '30000')
+    },
+    dashscope: {
+      apiKey: env.DASHSCOPE_API_KEY,
+      baseUrl: env.DASHSCOPE_BASE_URL || 'https://dashscope.aliyuncs.com/api/v1'
+    },
+    openai: {
+      apiKey: env.OPENAI_API_KEY,
+      baseUrl: env.OPENAI_BASE_URL || 'http://localhost:11434/v1'
+    },
+    fixture: {
+      file: env.LLM_FIXTURE_FILE
+    }
+  };
+}
+
+/**
+ * 解析模型引用，支持 "provider:model" 写法
+ */
+export function parseModelRef(value: string, defaultProvider: ProviderName): ModelRef {
+  const index = value.indexOf(':');
+  if (index > 0) {
+    const provider = value.slice(0, index) as ProviderName;
+    if (PROVIDER_NAMES.includes(provider)) {
+      return { provider, model: value.slice(index + 1) };
+    }
+  }
+  return { provider: defaultProvider, model: value };
+}
+
+/**
+ * 解析一次调用实际使用的模型
+ * 优先级：按 Agent 配置 > 调用方指定的档位
+ */
+export function resolveModel(
+  tier: ModelTier,
+  agent?: string,
+  config: LLMConfig = getLLMConfig()
+): ModelRef {
+  const agentModel = agent ? config.agentModels[agent] : undefined;
+  const value = agentModel || tier;
+
+  // 配置值本身是档位名时，仍走档位映射
+  const mapped = config.tiers[value as ModelTier] || value;
+  return parseModelRef(mapped, config.provider);
+}
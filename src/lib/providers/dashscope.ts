@@ -0,0 +1,235 @@
+/**
+ * DashScope Provider
+ * 阿里云 DashScope (Qwen) 提供方
+ */
+
+import axios from 'axios';
+import {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMUsage
+} from './types';
+import { toOpenAIMessages, toOpenAITools, parseOpenAIToolCalls } from './tool-format';
+import { getLLMConfig } from './config';
+import { createSSEParser } from '../sse';
+import { LLMAuthError, LLMServerError, toLLMError } from './errors';
+
+/**
+ * 解析 DashScope 返回的 usage
+ */
+function parseUsage(usage: any): LLMUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0
+  };
+}
+
+export class DashScopeProvider implements LLMProvider {
+  name = 'dashscope' as const;
+
+  /**
+   * 读取配置，未配置密钥时抛出 LLMAuthError
+   */
+  private getConfig(): { apiKey: string; baseUrl: string } {
+    const { apiKey, baseUrl } = getLLMConfig().dashscope;
+    if (!apiKey) {
+      throw new LLMAuthError('DASHSCOPE_API_KEY is not configured', this.name);
+    }
+    return { apiKey, baseUrl };
+  }
+
+  /**
+   * 调用 text-generation 接口
+   */
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const { apiKey, baseUrl } = this.getConfig();
+
+    try {
+      const response = await axios.post(
+        `${baseUrl}/services/aigc/text-generation/generation`,
+        {
+          model: request.model,
+          input: {
+            prompt: request.prompt,
+          },
+          parameters: {
+            result_format: 'message',
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+          },
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: request.timeoutMs,
+          signal: request.signal,
+        }
+      );
+
+      return {
+        content: response.data.output.choices[0].message.content,
+        model: request.model,
+        provider: this.name,
+        usage: parseUsage(response.data.usage)
+      };
+    } catch (error: any) {
+      console.error('Qwen API Error:', error.response?.data || error.message);
+      throw toLLMError(error, this.name, 'Failed to call Qwen API');
+    }
+  }
+
+  /**
+   * 流式调用 text-generation 接口（SSE + incremental_output）
+   */
+  async stream(request: LLMRequest, onToken: (token: string) => void): Promise<LLMResponse> {
+    const { apiKey, baseUrl } = this.getConfig();
+
+    let content = '';
+    let usage: LLMUsage | undefined;
+    let streamError: string | undefined;
+
+    try {
+      const response = await axios.post(
+        `${baseUrl}/services/aigc/text-generation/generation`,
+        {
+          model: request.model,
+          input: {
+            prompt: request.prompt,
+          },
+          parameters: {
+            result_format: 'message',
+            incremental_output: true,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+          },
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+            'X-DashScope-SSE': 'enable',
+          },
+          responseType: 'stream',
+          timeout: request.timeoutMs,
+          signal: request.signal,
+        }
+      );
+
+      const feed = createSSEParser(({ event, data }) => {
+        if (event === 'error') {
+          streamError = data;
+          return;
+        }
+        const parsed = JSON.parse(data);
+        // 每个分片都带累计用量，保留最后一次
+        usage = parseUsage(parsed.usage) || usage;
+        const token = parsed.output?.choices?.[0]?.message?.content;
+        if (token) {
+          content += token;
+          onToken(token);
+        }
+      });
+
+      for await (const chunk of response.data) {
+        feed(chunk.toString());
+      }
+    } catch (error: any) {
+      console.error('Qwen API Error:', error.response?.data || error.message);
+      throw toLLMError(error, this.name, 'Failed to call Qwen API');
+    }
+
+    if (streamError) {
+      console.error('Qwen API Error:', streamError);
+      throw new LLMServerError('Failed to call Qwen API: stream error', this.name, undefined, streamError);
+    }
+
+    return {
+      content,
+      model: request.model,
+      provider: this.name,
+      usage
+    };
+  }
+
+  /**
+   * 多轮调用 text-generation 接口（input.messages + parameters.tools）
+   */
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const { apiKey, baseUrl } = this.getConfig();
+
+    try {
+      const response = await axios.post(
+        `${baseUrl}/services/aigc/text-generation/generation`,
+        {
+          model: request.model,
+          input: {
+            messages: toOpenAIMessages(request.messages),
+          },
+          parameters: {
+            result_format: 'message',
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            tools: request.tools?.length ? toOpenAITools(request.tools) : undefined,
+          },
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: request.timeoutMs,
+          signal: request.signal,
+        }
+      );
+
+      const message = response.data.output.choices[0].message;
+      return {
+        content: message.content || '',
+        model: request.model,
+        provider: this.name,
+        usage: parseUsage(response.data.usage),
+        toolCalls: parseOpenAIToolCalls(message.tool_calls)
+      };
+    } catch (error: any) {
+      console.error('Qwen API Error:', error.response?.data || error.message);
+      throw toLLMError(error, this.name, 'Failed to call Qwen API');
+    }
+  }
+
+  /**
+   * 调用 text-embedding 接口
+   */
+  async embed(text: string, model: string, timeoutMs?: number): Promise<number[]> {
+    const { apiKey, baseUrl } = this.getConfig();
+
+    try {
+      const response = await axios.post(
+        `${baseUrl}/services/embeddings/text-embedding/text-embedding`,
+        {
+          model,
+          input: { texts: [text] }
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json'
+          },
+          timeout: timeoutMs
+        }
+      );
+
+      return response.data.output.embeddings[0].embedding;
+    } catch (error: any) {
+      console.error('Embedding error:', error.message);
+      throw toLLMError(error, this.name, 'Failed to generate embedding');
+    }
+  }
+}
+
+export const dashScopeProvider = new DashScopeProvider();
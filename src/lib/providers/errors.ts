@@ -0,0 +1,210 @@
+/**
+ * LLM Errors
+ * LLM 调用错误类型 - 让调用方区分配额、参数、服务不可用等情况
+ */
+
+import { ProviderName } from './types';
+
+/**
+ * 错误代码
+ */
+export type LLMErrorCode =
+  | 'quota_exceeded'    // 429 / 配额不足
+  | 'invalid_request'   // 400 等请求错误
+  | 'auth'              // 未配置密钥 / 401 / 403
+  | 'timeout'           // 请求超时
+  | 'server'            // 5xx
+  | 'network'           // 网络错误
+  | 'circuit_open'      // 熔断中，快速失败
+  | 'aborted'           // 调用方取消（任务取消等）
+  | 'unknown';
+
+/**
+ * LLM 错误基类
+ */
+export class LLMError extends Error {
+  code: LLMErrorCode = 'unknown';
+  retryable = false;
+
+  constructor(
+    message: string,
+    public provider: ProviderName,
+    public status?: number,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+export class LLMQuotaError extends LLMError {
+  code = 'quota_exceeded' as const;
+  retryable = true;
+  retryAfterMs?: number;
+
+  constructor(message: string, provider: ProviderName, status?: number, details?: any, retryAfterMs?: number) {
+    super(message, provider, status, details);
+    this.name = 'LLMQuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class LLMInvalidRequestError extends LLMError {
+  code = 'invalid_request' as const;
+
+  constructor(message: string, provider: ProviderName, status?: number, details?: any) {
+    super(message, provider, status, details);
+    this.name = 'LLMInvalidRequestError';
+  }
+}
+
+export class LLMAuthError extends LLMError {
+  code = 'auth' as const;
+
+  constructor(message: string, provider: ProviderName, status?: number, details?: any) {
+    super(message, provider, status, details);
+    this.name = 'LLMAuthError';
+  }
+}
+
+export class LLMTimeoutError extends LLMError {
+  code = 'timeout' as const;
+  retryable = true;
+
+  constructor(message: string, provider: ProviderName) {
+    super(message, provider);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+export class LLMServerError extends LLMError {
+  code = 'server' as const;
+  retryable = true;
+
+  constructor(message: string, provider: ProviderName, status?: number, details?: any) {
+    super(message, provider, status, details);
+    this.name = 'LLMServerError';
+  }
+}
+
+export class LLMNetworkError extends LLMError {
+  code = 'network' as const;
+  retryable = true;
+
+  constructor(message: string, provider: ProviderName) {
+    super(message, provider);
+    this.name = 'LLMNetworkError';
+  }
+}
+
+export class LLMCircuitOpenError extends LLMError {
+  code = 'circuit_open' as const;
+
+  constructor(provider: ProviderName, public retryAfterMs: number) {
+    super(`LLM provider ${provider} is unavailable (circuit open)`, provider);
+    this.name = 'LLMCircuitOpenError';
+  }
+}
+
+export class LLMAbortedError extends LLMError {
+  code = 'aborted' as const;
+
+  constructor(message: string, provider: ProviderName) {
+    super(message, provider);
+    this.name = 'LLMAbortedError';
+  }
+}
+
+/**
+ * 解析 Retry-After 头（秒数或 HTTP 日期）
+ */
+export function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 把 axios 等底层错误转换为 LLMError
+ */
+export function toLLMError(error: any, provider: ProviderName, label: string): LLMError {
+  if (error instanceof LLMError) return error;
+
+  const status: number | undefined = error.response?.status;
+  const details = error.response?.data;
+  const message = `${label}${status ? ` (HTTP ${status})` : ''}: ${details?.message || error.message}`;
+
+  // 通过 AbortSignal 取消的请求
+  if (error.code === 'ERR_CANCELED' || error.name === 'CanceledError') {
+    return new LLMAbortedError(`${label}: request aborted`, provider);
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new LLMTimeoutError(`${label}: request timed out`, provider);
+  }
+
+  if (!status) {
+    return new LLMNetworkError(message, provider);
+  }
+
+  if (status === 429) {
+    return new LLMQuotaError(
+      message,
+      provider,
+      status,
+      details,
+      parseRetryAfter(error.response?.headers?.['retry-after'])
+    );
+  }
+
+  if (status === 401 || status === 403) {
+    return new LLMAuthError(message, provider, status, details);
+  }
+
+  if (status >= 500) {
+    return new LLMServerError(message, provider, status, details);
+  }
+
+  return new LLMInvalidRequestError(message, provider, status, details);
+}
+
+/**
+ * 错误对应的 HTTP 状态码（供 API 路由使用）
+ */
+export function getErrorStatus(error: unknown): number {
+  if (!(error instanceof LLMError)) return 500;
+
+  switch (error.code) {
+    case 'quota_exceeded':
+      return 429;
+    case 'invalid_request':
+      return 400;
+    case 'timeout':
+      return 504;
+    case 'aborted':
+      return 499;
+    case 'server':
+    case 'network':
+    case 'circuit_open':
+    case 'auth':
+      return 503;
+    default:
+      return 500;
+  }
+}
+
+/**
+ * 建议的重试等待时间（配额 / 熔断错误）
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  if (error instanceof LLMQuotaError || error instanceof LLMCircuitOpenError) {
+    return error.retryAfterMs;
+  }
+  return undefined;
+}
@@ -0,0 +1,223 @@
+/**
+ * Fixture Provider
+ * 固定输出提供方 - 离线运行和测试使用，相同输入永远得到相同输出
+ */
+
+import fs from 'fs';
+import {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse
+} from './types';
+import { getLLMConfig } from './config';
+import { LLMAbortedError } from './errors';
+
+/**
+ * 固定输出规则：prompt 包含 match（或匹配正则）时返回 response
+ */
+export interface FixtureRule {
+  match: string | RegExp;
+  response: string;
+  model?: string;
+}
+
+/**
+ * 固定工具调用规则：最后一条用户消息包含 match 且请求提供了该工具时，返回工具调用
+ */
+export interface FixtureToolRule {
+  match: string | RegExp;
+  tool: string;
+  arguments: Record<string, any>;
+}
+
+/**
+ * 固定输出文件格式
+ */
+interface FixtureFile {
+  rules?: { match: string; regex?: boolean; response: string; model?: string }[];
+  toolRules?: { match: string; regex?: boolean; tool: string; arguments: Record<string, any> }[];
+  default?: string;
+}
+
+function matches(match: string | RegExp, text: string): boolean {
+  return typeof match === 'string' ? text.includes(match) : match.test(text);
+}
+
+const EMBEDDING_DIMENSION = 256;
+const STREAM_CHUNK_SIZE = 8;
+
+/**
+ * 简单稳定的字符串哈希（FNV-1a）
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export class FixtureProvider implements LLMProvider {
+  name = 'fixture' as const;
+
+  private rules: FixtureRule[] = [];
+  private toolRules: FixtureToolRule[] = [];
+  private defaultResponse?: string;
+  private loadedFile?: string;
+
+  /**
+   * 注册固定输出规则（后注册的优先）
+   */
+  register(match: string | RegExp, response: string, model?: string): void {
+    this.rules.unshift({ match, response, model });
+  }
+
+  /**
+   * 注册固定工具调用规则（后注册的优先）
+   */
+  registerToolCall(match: string | RegExp, tool: string, args: Record<string, any> = {}): void {
+    this.toolRules.unshift({ match, tool, arguments: args });
+  }
+
+  /**
+   * 设置未命中任何规则时的默认输出
+   */
+  setDefault(response: string): void {
+    this.defaultResponse = response;
+  }
+
+  /**
+   * 清空规则
+   */
+  reset(): void {
+    this.rules = [];
+    this.toolRules = [];
+    this.defaultResponse = undefined;
+    this.loadedFile = undefined;
+  }
+
+  /**
+   * 从 LLM_FIXTURE_FILE 加载规则（每个文件只加载一次）
+   */
+  private loadFile(): void {
+    const file = getLLMConfig().fixture.file;
+    if (!file || file === this.loadedFile) return;
+
+    const parsed: FixtureFile = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    for (const rule of parsed.rules || []) {
+      this.rules.push({
+        match: rule.regex ? new RegExp(rule.match) : rule.match,
+        response: rule.response,
+        model: rule.model
+      });
+    }
+    for (const rule of parsed.toolRules || []) {
+      this.toolRules.push({
+        match: rule.regex ? new RegExp(rule.match) : rule.match,
+        tool: rule.tool,
+        arguments: rule.arguments
+      });
+    }
+    if (parsed.default !== undefined && this.defaultResponse === undefined) {
+      this.defaultResponse = parsed.default;
+    }
+    this.loadedFile = file;
+  }
+
+  /**
+   * 与真实提供方一致，已取消的请求抛出 LLMAbortedError
+   */
+  private checkAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new LLMAbortedError('Fixture request aborted', this.name);
+    }
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    this.checkAborted(request.signal);
+    this.loadFile();
+
+    const rule = this.rules.find(r =>
+      (!r.model || r.model === request.model) && matches(r.match, request.prompt)
+    );
+
+    const content = rule
+      ? rule.response
+      : this.defaultResponse ?? `[fixture:${request.model}] ${hashString(request.prompt).toString(16)}`;
+
+    return {
+      content,
+      model: request.model,
+      provider: this.name
+    };
+  }
+
+  /**
+   * 按固定大小切片回放输出，模拟流式返回
+   */
+  async stream(request: LLMRequest, onToken: (token: string) => void): Promise<LLMResponse> {
+    const response = await this.generate(request);
+    for (let i = 0; i < response.content.length; i += STREAM_CHUNK_SIZE) {
+      onToken(response.content.slice(i, i + STREAM_CHUNK_SIZE));
+    }
+    return response;
+  }
+
+  /**
+   * 最后一条用户消息之后还没有工具结果时，按工具规则返回工具调用；
+   * 否则把全部消息拼成文本，按普通规则生成回答
+   */
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    this.checkAborted(request.signal);
+    this.loadFile();
+
+    const { messages, tools = [], ...rest } = request;
+    const lastUser = messages.map(m => m.role).lastIndexOf('user');
+    const hasToolResults = messages.slice(lastUser + 1).some(m => m.role === 'tool');
+
+    if (lastUser >= 0 && !hasToolResults) {
+      const rule = this.toolRules.find(r =>
+        tools.some(t => t.name === r.tool) && matches(r.match, messages[lastUser].content)
+      );
+      if (rule) {
+        return {
+          content: '',
+          model: request.model,
+          provider: this.name,
+          toolCalls: [{
+            id: `fixture-call-${hashString(messages[lastUser].content).toString(16)}`,
+            name: rule.tool,
+            arguments: JSON.stringify(rule.arguments)
+          }]
+        };
+      }
+    }
+
+    const prompt = messages.map(m => `${m.role}: ${m.content}`).join('\n\n');
+    return await this.generate({ ...rest, prompt });
+  }
+
+  /**
+   * 基于词哈希的确定性向量：词重叠越多，余弦相似度越高
+   */
+  async embed(text: string, model: string): Promise<number[]> {
+    const vector = new Array(EMBEDDING_DIMENSION).fill(0);
+    const lower = text.toLowerCase();
+    const tokens = [
+      ...(lower.match(/[a-z0-9]+/g) || []),
+      ...(lower.match(/[一-鿿]/g) || [])
+    ];
+
+    for (const token of tokens) {
+      vector[hashString(token) % EMBEDDING_DIMENSION] += 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map(v => v / norm);
+  }
+}
+
+export const fixtureProvider = new FixtureProvider();
@@ -0,0 +1,44 @@
+/**
+ * LLM Providers Index
+ * LLM 提供方模块导出
+ */
+
+import { LLMProvider, ProviderName } from './types';
+import { dashScopeProvider } from './dashscope';
+import { openAICompatibleProvider } from './openai-compatible';
+import { fixtureProvider } from './fixture';
+
+export * from './types';
+export { getLLMConfig, resolveModel, parseModelRef } from './config';
+export type { LLMConfig, ModelRef } from './config';
+export { DashScopeProvider, dashScopeProvider } from './dashscope';
+export { OpenAICompatibleProvider, openAICompatibleProvider } from './openai-compatible';
+export { FixtureProvider, fixtureProvider } from './fixture';
+export * from './errors';
+export { withResilience, getCircuitBreaker, CircuitBreaker } from './resilience';
+export { estimateCost, estimateTokens, getPriceTable } from './usage';
+export type { ModelPrice } from './usage';
+
+const providers = new Map<ProviderName, LLMProvider>([
+  ['dashscope', dashScopeProvider],
+  ['openai', openAICompatibleProvider],
+  ['fixture', fixtureProvider]
+]);
+
+/**
+ * 获取提供方
+ */
+export function getProvider(name: ProviderName): LLMProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown LLM provider: ${name}`);
+  }
+  return provider;
+}
+
+/**
+ * 注册 / 替换提供方（例如测试中注入自定义实现）
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
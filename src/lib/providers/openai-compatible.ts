@@ -0,0 +1,181 @@
+/**
+ * OpenAI-Compatible Provider
+ * OpenAI 兼容提供方 - 适用于 vLLM、Ollama、LM Studio 等本地 / 私有部署
+ */
+
+import axios from 'axios';
+import {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMUsage
+} from './types';
+import { toOpenAIMessages, toOpenAITools, parseOpenAIToolCalls } from './tool-format';
+import { getLLMConfig } from './config';
+import { createSSEParser } from '../sse';
+import { toLLMError } from './errors';
+
+/**
+ * 解析 OpenAI 格式的 usage
+ */
+function parseUsage(usage: any): LLMUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.prompt_tokens || 0,
+    outputTokens: usage.completion_tokens || 0
+  };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  name = 'openai' as const;
+
+  /**
+   * 请求头（本地服务通常不需要 API Key）
+   */
+  private headers(): Record<string, string> {
+    const { apiKey } = getLLMConfig().openai;
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+    };
+  }
+
+  /**
+   * 调用 /chat/completions 接口
+   */
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const { baseUrl } = getLLMConfig().openai;
+
+    try {
+      const response = await axios.post(
+        `${baseUrl}/chat/completions`,
+        {
+          model: request.model,
+          messages: [{ role: 'user', content: request.prompt }],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens
+        },
+        { headers: this.headers(), timeout: request.timeoutMs, signal: request.signal }
+      );
+
+      return {
+        content: response.data.choices[0].message.content,
+        model: response.data.model || request.model,
+        provider: this.name,
+        usage: parseUsage(response.data.usage)
+      };
+    } catch (error: any) {
+      console.error('OpenAI-compatible API Error:', error.response?.data || error.message);
+      throw toLLMError(error, this.name, `Failed to call OpenAI-compatible API at ${baseUrl}`);
+    }
+  }
+
+  /**
+   * 流式调用 /chat/completions 接口（stream: true）
+   */
+  async stream(request: LLMRequest, onToken: (token: string) => void): Promise<LLMResponse> {
+    const { baseUrl } = getLLMConfig().openai;
+    let content = '';
+    let model = request.model;
+    let usage: LLMUsage | undefined;
+
+    try {
+      const response = await axios.post(
+        `${baseUrl}/chat/completions`,
+        {
+          model: request.model,
+          messages: [{ role: 'user', content: request.prompt }],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          stream: true,
+          stream_options: { include_usage: true }
+        },
+        { headers: this.headers(), responseType: 'stream', timeout: request.timeoutMs, signal: request.signal }
+      );
+
+      const feed = createSSEParser(({ data }) => {
+        if (data === '[DONE]') return;
+        const parsed = JSON.parse(data);
+        model = parsed.model || model;
+        // include_usage 时最后一个分片带 usage
+        usage = parseUsage(parsed.usage) || usage;
+        const token = parsed.choices?.[0]?.delta?.content;
+        if (token) {
+          content += token;
+          onToken(token);
+        }
+      });
+
+      for await (const chunk of response.data) {
+        feed(chunk.toString());
+      }
+    } catch (error: any) {
+      console.error('OpenAI-compatible API Error:', error.response?.data || error.message);
+      throw toLLMError(error, this.name, `Failed to call OpenAI-compatible API at ${baseUrl}`);
+    }
+
+    return {
+      content,
+      model,
+      provider: this.name,
+      usage
+    };
+  }
+
+  /**
+   * 多轮调用 /chat/completions 接口（tools）
+   */
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const { baseUrl } = getLLMConfig().openai;
+
+    try {
+      const response = await axios.post(
+        `${baseUrl}/chat/completions`,
+        {
+          model: request.model,
+          messages: toOpenAIMessages(request.messages),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          tools: request.tools?.length ? toOpenAITools(request.tools) : undefined
+        },
+        { headers: this.headers(), timeout: request.timeoutMs, signal: request.signal }
+      );
+
+      const message = response.data.choices[0].message;
+      return {
+        content: message.content || '',
+        model: response.data.model || request.model,
+        provider: this.name,
+        usage: parseUsage(response.data.usage),
+        toolCalls: parseOpenAIToolCalls(message.tool_calls)
+      };
+    } catch (error: any) {
+      console.error('OpenAI-compatible API Error:', error.response?.data || error.message);
+      throw toLLMError(error, this.name, `Failed to call OpenAI-compatible API at ${baseUrl}`);
+    }
+  }
+
+  /**
+   * 调用 /embeddings 接口
+   */
+  async embed(text: string, model: string, timeoutMs?: number): Promise<number[]> {
+    const { baseUrl } = getLLMConfig().openai;
+
+    try {
+      const response = await axios.post(
+        `${baseUrl}/embeddings`,
+        { model, input: text },
+        { headers: this.headers(), timeout: timeoutMs }
+      );
+
+      return response.data.data[0].embedding;
+    } catch (error: any) {
+      console.error('Embedding error:', error.message);
+      throw toLLMError(error, this.name, 'Failed to generate embedding');
+    }
+  }
+}
+
+export const openAICompatibleProvider = new OpenAICompatibleProvider();
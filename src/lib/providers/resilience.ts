@@ -0,0 +1,187 @@
+/**
+ * LLM Resilience
+ * 重试（指数退避 + 抖动）与熔断
+ */
+
+import { getLLMConfig } from './config';
+import { LLMAbortedError, LLMCircuitOpenError, LLMError, LLMQuotaError } from './errors';
+import { ProviderName } from './types';
+
+/**
+ * 重试选项
+ */
+export interface RetryOptions {
+  maxRetries?: number;
+  shouldRetry?: (error: LLMError, attempt: number) => boolean;
+  signal?: AbortSignal;  // 已取消时不再发起请求
+}
+
+/**
+ * 熔断器：连续失败达到阈值后打开，冷却期内快速失败；冷却结束后只放行一个试探请求，
+ * 试探成功（或服务端正常返回了请求错误）时关闭，服务端 / 网络类错误时重新打开
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private state: 'closed' | 'open' | 'half_open' = 'closed';
+  private probing = false;  // half_open 时是否已有试探请求在执行
+
+  constructor(
+    private provider: ProviderName,
+    private threshold: number,
+    private cooldownMs: number
+  ) {}
+
+  /**
+   * 请求前检查，熔断中或已有试探请求时直接抛出 LLMCircuitOpenError
+   */
+  check(): void {
+    if (this.state === 'closed') return;
+
+    if (this.state === 'open') {
+      const elapsed = Date.now() - this.openedAt;
+      if (elapsed < this.cooldownMs) {
+        throw new LLMCircuitOpenError(this.provider, this.cooldownMs - elapsed);
+      }
+      this.state = 'half_open';
+    }
+
+    if (this.probing) {
+      throw new LLMCircuitOpenError(this.provider, 0);
+    }
+    this.probing = true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.probing = false;
+    this.state = 'closed';
+  }
+
+  /**
+   * 只有服务端 / 网络 / 超时类错误计入失败次数；
+   * 试探请求得到其他错误（请求错误、配额）说明服务可用，关闭熔断
+   */
+  recordFailure(error: LLMError): void {
+    if (error instanceof LLMAbortedError) {
+      this.release();
+      return;
+    }
+
+    if (!error.retryable || error instanceof LLMQuotaError) {
+      if (this.state === 'half_open') this.recordSuccess();
+      return;
+    }
+
+    this.failures++;
+    this.probing = false;
+    if (this.state === 'half_open' || this.failures >= this.threshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      console.error(`[CircuitBreaker] ${this.provider} opened after ${this.failures} failure(s)`);
+    }
+  }
+
+  /**
+   * 试探请求被取消或抛出非 LLMError：不改变状态，允许下一个请求试探
+   */
+  release(): void {
+    this.probing = false;
+  }
+
+  getState(): string {
+    return this.state;
+  }
+}
+
+const breakers = new Map<ProviderName, CircuitBreaker>();
+
+/**
+ * 获取提供方对应的熔断器
+ */
+export function getCircuitBreaker(provider: ProviderName): CircuitBreaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    const { breakerThreshold, breakerCooldownMs } = getLLMConfig().resilience;
+    breaker = new CircuitBreaker(provider, breakerThreshold, breakerCooldownMs);
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * 计算退避时间：指数退避 + 全抖动，Retry-After 优先
+ */
+function backoffDelay(error: LLMError, attempt: number): number {
+  const { retryBaseMs, retryMaxMs } = getLLMConfig().resilience;
+
+  if (error instanceof LLMQuotaError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, retryMaxMs);
+  }
+
+  const exponential = Math.min(retryMaxMs, retryBaseMs * 2 ** attempt);
+  return Math.round(Math.random() * exponential);
+}
+
+/**
+ * 等待退避时间，调用方取消时立即结束
+ */
+function sleep(ms: number, provider: ProviderName, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new LLMAbortedError(`LLM call to ${provider} aborted`, provider));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new LLMAbortedError(`LLM call to ${provider} aborted`, provider));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 带重试和熔断执行一次提供方调用
+ * fn 抛出的必须是 LLMError（由提供方转换）
+ */
+export async function withResilience<T>(
+  provider: ProviderName,
+  fn: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { maxRetries = getLLMConfig().resilience.maxRetries, shouldRetry, signal } = options;
+  const breaker = getCircuitBreaker(provider);
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new LLMAbortedError(`LLM call to ${provider} aborted`, provider);
+    }
+    breaker.check();
+
+    try {
+      const result = await fn();
+      breaker.recordSuccess();
+      return result;
+    } catch (error: any) {
+      if (!(error instanceof LLMError)) {
+        breaker.release();
+        throw error;
+      }
+
+      breaker.recordFailure(error);
+
+      const retry = error.retryable &&
+        attempt < maxRetries &&
+        (!shouldRetry || shouldRetry(error, attempt));
+      if (!retry) throw error;
+
+      const delay = backoffDelay(error, attempt);
+      console.warn(`[LLM] ${provider} ${error.code}, retrying in ${delay}ms (${attempt + 1}/${maxRetries})`);
+      await sleep(delay, provider, signal);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Tool Call Format
+ * 工具调用的 OpenAI 消息格式转换（DashScope 与 OpenAI 兼容接口共用）
+ */
+
+import { LLMMessage, LLMToolCall, LLMToolDefinition } from './types';
+
+/**
+ * 转为 OpenAI 格式的 messages
+ */
+export function toOpenAIMessages(messages: LLMMessage[]): any[] {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool',
+        content: message.content,
+        tool_call_id: message.toolCallId,
+        name: message.name
+      };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments }
+        }))
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * 转为 OpenAI 格式的 tools
+ */
+export function toOpenAITools(tools: LLMToolDefinition[]): any[] {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters
+    }
+  }));
+}
+
+/**
+ * 解析返回的 tool_calls，没有时返回 undefined
+ */
+export function parseOpenAIToolCalls(toolCalls: any[] | undefined): LLMToolCall[] | undefined {
+  if (!toolCalls?.length) return undefined;
+
+  return toolCalls.map((call, index) => ({
+    id: call.id || `call-${index}`,
+    name: call.function?.name,
+    arguments: typeof call.function?.arguments === 'string'
+      ? call.function.arguments
+      : JSON.stringify(call.function?.arguments ?? {})
+  }));
+}
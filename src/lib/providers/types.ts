@@ -0,0 +1,116 @@
+/**
+ * LLM Provider Types
+ * LLM 提供方类型定义
+ */
+
+/**
+ * 模型档位 - 业务代码按档位选择模型，由配置映射到具体模型
+ */
+export type ModelTier = 'qwen-turbo' | 'qwen-plus' | 'qwen-max';
+
+/**
+ * 提供方名称
+ */
+export type ProviderName = 'dashscope' | 'openai' | 'fixture';
+
+/**
+ * 生成请求
+ */
+export interface LLMRequest {
+  prompt: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;  // 中止后提供方抛出 LLMAbortedError
+}
+
+/**
+ * Token 用量
+ */
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * 生成结果
+ */
+export interface LLMResponse {
+  content: string;
+  model: string;
+  provider: ProviderName;
+  usage?: LLMUsage;  // 提供方返回的用量，缺失时由调用方估算
+}
+
+/**
+ * 工具定义（parameters 为 JSON Schema）
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+/**
+ * 模型发起的工具调用，arguments 为 JSON 字符串
+ */
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * 多轮消息
+ */
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: LLMToolCall[];  // assistant 消息发起的工具调用
+  toolCallId?: string;        // tool 消息对应的调用 ID
+  name?: string;              // tool 消息对应的工具名
+}
+
+/**
+ * 多轮 / 工具调用请求
+ */
+export interface LLMChatRequest extends Omit<LLMRequest, 'prompt'> {
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+}
+
+/**
+ * 多轮 / 工具调用结果，模型请求调用工具时 toolCalls 非空
+ */
+export interface LLMChatResponse extends LLMResponse {
+  toolCalls?: LLMToolCall[];
+}
+
+/**
+ * LLM 提供方接口
+ * 实现方失败时应抛出 LLMError（见 errors.ts）
+ */
+export interface LLMProvider {
+  name: ProviderName;
+
+  /**
+   * 文本生成
+   */
+  generate(request: LLMRequest): Promise<LLMResponse>;
+
+  /**
+   * 流式生成：每收到一段增量文本回调 onToken，结束后返回完整结果
+   */
+  stream(request: LLMRequest, onToken: (token: string) => void): Promise<LLMResponse>;
+
+  /**
+   * 多轮对话，支持原生工具调用（function calling）
+   */
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+
+  /**
+   * 文本嵌入向量
+   */
+  embed(text: string, model: string, timeoutMs?: number): Promise<number[]>;
+}
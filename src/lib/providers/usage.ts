@@ -0,0 +1,65 @@
+/**
+ * LLM Usage & Pricing
+ * Token 用量估算与按模型计价
+ */
+
+import { LLMUsage } from './types';
+
+/**
+ * 模型单价（人民币 / 千 token）
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * 默认价格表（DashScope 公开价格），可用 LLM_PRICES 覆盖或补充
+ */
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'qwen-turbo': { input: 0.0003, output: 0.0006 },
+  'qwen-plus': { input: 0.0008, output: 0.002 },
+  'qwen-max': { input: 0.0024, output: 0.0096 }
+};
+
+/**
+ * 读取价格表，LLM_PRICES 格式为 JSON：{"qwen2.5:7b": {"input": 0, "output": 0}}
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+  const raw = process.env.LLM_PRICES;
+  if (!raw) return DEFAULT_PRICES;
+
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(raw) };
+  } catch (error) {
+    console.error('Invalid LLM_PRICES, ignored:', raw);
+    return DEFAULT_PRICES;
+  }
+}
+
+/**
+ * 估算调用费用（人民币），价格表中没有的模型按 0 计
+ * 先按完整模型名查找，再按前缀匹配（如 qwen-plus-latest → qwen-plus）
+ */
+export function estimateCost(model: string, usage: LLMUsage): number {
+  const prices = getPriceTable();
+  const price = prices[model] ||
+    Object.entries(prices)
+      .filter(([name]) => model.startsWith(name))
+      .sort((a, b) => b[0].length - a[0].length)[0]?.[1];
+
+  if (!price) return 0;
+
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1000;
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+/**
+ * 粗略估算 token 数：中文按字计，其他按约 4 个字符一个 token
+ * 仅在提供方未返回 usage 时使用
+ */
+export function estimateTokens(text: string): number {
+  const cjk = (text.match(/[㐀-鿿豈-﫿]/g) || []).length;
+  const rest = text.length - cjk;
+  return cjk + Math.ceil(rest / 4);
+}
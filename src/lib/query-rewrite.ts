@@ -0,0 +1,154 @@
+/**
+ * Query Rewrite
+ * 查询改写 - 检索前把用户问题扩展为多个子查询，提高召回
+ *
+ * - 过滤条件：用编排 Agent 的实体提取得到行业和用例（行业作为检索过滤，用例并入子查询）
+ * - 双语改写：中文、英文各若干条检索式（案例库以英文 README 为主，中文问题直接检索召回偏低）
+ * - HyDE：生成假设的回答片段，只用于向量检索（与文档的表述更接近）
+ *
+ * 改写失败时只用原问题和提取的过滤条件
+ */
+
+import { z } from 'zod';
+import { callStructured } from './llm';
+import { renderPrompt } from './prompts';
+
+/**
+ * 改写配置
+ */
+export interface QueryRewriteConfig {
+  enabled: boolean;    // agentRAG 默认是否改写
+  variants: number;    // 每种语言的改写数
+  hyde: number;        // 假设回答数，0 为不生成
+  maxQueries: number;  // 子查询上限（含原问题，不含 HyDE）
+}
+
+/**
+ * 从环境变量读取配置
+ */
+export function getQueryRewriteConfig(): QueryRewriteConfig {
+  const env = process.env;
+  return {
+    enabled: env.QUERY_REWRITE === 'true',
+    variants: parseInt(env.QUERY_REWRITE_VARIANTS || '2'),
+    hyde: parseInt(env.QUERY_REWRITE_HYDE || '1'),
+    maxQueries: parseInt(env.QUERY_REWRITE_MAX_QUERIES || '5')
+  };
+}
+
+/**
+ * 检索过滤条件
+ */
+export interface QueryFilters {
+  industry?: string;  // 案例库中的行业名
+  useCase?: string;
+}
+
+/**
+ * 改写结果
+ */
+export interface QueryRewrite {
+  original: string;
+  filters: QueryFilters;
+  queries: string[];       // 子查询（第一条为原问题），同时用于向量和关键词检索
+  hypothetical: string[];  // HyDE 假设回答，只用于向量检索
+  usedFallback: boolean;   // 改写失败，只用了原问题
+}
+
+/**
+ * 实体提取的行业 → 案例库的行业名；不在表中的（如"客服"）不作为行业过滤
+ */
+const INDUSTRY_FILTERS: Record<string, string> = {
+  '电商': '零售',
+  '零售': '零售',
+  '金融': '金融',
+  '医疗': '医疗',
+  '教育': '教育',
+  '制造': '制造',
+  '物流': '物流'
+};
+
+const RewriteSchema = z.object({
+  zh: z.array(z.string()).default([]),
+  en: z.array(z.string()).default([]),
+  hypothetical: z.array(z.string()).default([])
+});
+
+/**
+ * 提取过滤条件；调用方已指定行业时不覆盖
+ */
+export async function extractFilters(query: string, industry?: string): Promise<QueryFilters> {
+  const { orchestrationAgent } = await import('./agents/orchestration-agent');
+  const entities = orchestrationAgent.extractEntities(query);
+  const filters: QueryFilters = {};
+
+  const extracted = industry || INDUSTRY_FILTERS[entities.industry];
+  if (extracted) filters.industry = extracted;
+  // 行业关键词"客服"实际是用例
+  const useCase = entities.useCase || (entities.industry === '客服' ? '智能客服' : undefined);
+  if (useCase) filters.useCase = useCase;
+  return filters;
+}
+
+/**
+ * 改写查询：过滤条件 + 双语改写 + HyDE
+ */
+export async function rewriteQuery(
+  query: string,
+  options: { industry?: string; config?: QueryRewriteConfig } = {}
+): Promise<QueryRewrite> {
+  const config = options.config || getQueryRewriteConfig();
+  const filters = await extractFilters(query, options.industry);
+
+  const result = config.variants > 0 || config.hyde > 0
+    ? await callStructured(
+      renderPrompt('rag.rewrite', {
+        query,
+        filters,
+        variants: config.variants,
+        hyde: config.hyde
+      }),
+      RewriteSchema,
+      {
+        agent: 'query-rewrite',
+        model: 'qwen-turbo',
+        temperature: 0.3,
+        fallback: () => ({ zh: [], en: [], hypothetical: [] })
+      }
+    )
+    : { data: { zh: [], en: [], hypothetical: [] }, usedFallback: false, errors: [] as string[] };
+  if (result.usedFallback) {
+    console.warn('[QueryRewrite] Rewrite failed, using original query:', result.errors.join('; '));
+  }
+
+  const { zh, en, hypothetical } = result.data;
+  const rewrites: string[] = [];
+  // 用例不在原问题中时并入一条子查询
+  if (filters.useCase && !query.toLowerCase().includes(filters.useCase.toLowerCase())) {
+    rewrites.push(`${query} ${filters.useCase}`);
+  }
+  // 中英文改写交替排列，截断时两种语言都能保留
+  for (let i = 0; i < Math.min(Math.max(zh.length, en.length), config.variants); i++) {
+    if (zh[i]) rewrites.push(zh[i]);
+    if (en[i]) rewrites.push(en[i]);
+  }
+
+  const seen = new Set<string>();
+  const queries = [query, ...rewrites]
+    .map(q => q.trim())
+    .filter(q => {
+      const key = q.toLowerCase();
+      if (!q || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, Math.max(config.maxQueries, 1));
+
+  return {
+    original: query,
+    filters,
+    queries,
+    hypothetical: hypothetical.map(h => h.trim()).filter(Boolean).slice(0, config.hyde),
+    usedFallback: result.usedFallback
+  };
+}
@@ -0,0 +1,336 @@
+/**
+ * RAG Evaluation
+ * RAG 评测 - 用标注好的问题集（golden set）评估检索和回答质量，比较 RAG_CONFIG、buildContext、检索器改动前后的效果
+ *
+ * 检索指标（与 agentRAG 相同的检索流程：查询改写 → 混合检索 → 重排）：recall@k、MRR、nDCG@k
+ * 回答指标（agentRAG）：引用准确率（引用的来源属于标注案例的比例）、忠实度（引用校验的 grounded）、与参考答案的词重叠
+ *
+ * 离线运行时语料来自 KNOWLEDGE_FIXTURE_FILE，LLM 使用 MockRAGProvider（从上下文中抽取句子并标注引用），
+ * 相同的代码和数据永远得到相同的报告。命令行入口：scripts/rag-eval.js（npm run eval:rag）
+ */
+
+import { tokenize } from './bm25';
+import { FixtureProvider, LLMRequest, LLMResponse, registerProvider } from './providers';
+import { QueryRewrite, getQueryRewriteConfig, rewriteQuery } from './query-rewrite';
+import { RetrievalResult, agentRAG, rerankResults, retrieveFromDatabase, retrieveWithRewrite } from './rag';
+import { RerankerName, getReranker, getRerankConfig } from './rerank';
+import { DocumentType } from './vector-store';
+
+/**
+ * 标注问题
+ */
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  expectedIds: string[];     // 应当检索到的文档 ID（案例为 cases.id）
+  referenceAnswer?: string;  // 参考答案，用于计算词重叠
+  mode?: 'brainstorm' | 'case_search' | 'sales_script';
+  industry?: string;
+  types?: DocumentType[];
+}
+
+/**
+ * 问题集
+ */
+export interface GoldenSet {
+  name: string;
+  description?: string;
+  k?: number[];                          // recall@k 的 k，默认 [1, 3, 5]
+  thresholds?: Record<string, number>;   // 指标下限（键同 EvalReport.metrics），低于下限时评测失败
+  questions: GoldenQuestion[];
+}
+
+/**
+ * 评测选项
+ */
+export interface EvalOptions {
+  k?: number[];
+  retrievalOnly?: boolean;  // 只评测检索，不调用 agentRAG
+  rewrite?: boolean;        // 覆盖 QUERY_REWRITE
+  reranker?: RerankerName;  // 覆盖 RERANKER
+}
+
+/**
+ * 单个问题的评测结果
+ */
+export interface QuestionResult {
+  id: string;
+  question: string;
+  expectedIds: string[];
+  retrievedIds: string[];  // 前 max(k) 条检索结果
+  firstRelevantRank: number | null;
+  recall: Record<string, number>;  // k → recall@k
+  mrr: number;
+  ndcg: number;
+  answer?: {
+    text: string;
+    citedIds: string[];
+    citationPrecision: number;
+    faithfulness: number;
+    referenceOverlap: number | null;  // 没有参考答案时为 null
+    flaggedClaims: number;
+  };
+}
+
+/**
+ * 评测报告
+ */
+export interface EvalReport {
+  name: string;
+  questionCount: number;
+  k: number[];
+  options: EvalOptions;
+  config: Record<string, string>;   // 生效的 RAG 相关环境变量
+  metrics: Record<string, number>;  // recall@k、mrr、ndcg@k、citationPrecision、faithfulness、referenceOverlap 的平均值
+  questions: QuestionResult[];
+}
+
+const CONFIG_PREFIXES = ['RAG_', 'HYBRID_', 'RERANK', 'CHUNK_', 'QUERY_REWRITE', 'CITATION_', 'LLM_PROVIDER'];
+
+/**
+ * recall@k：前 k 条结果覆盖的标注文档比例
+ */
+export function recallAtK(retrievedIds: string[], expectedIds: string[], k: number): number {
+  if (expectedIds.length === 0) return 1;
+  const top = new Set(retrievedIds.slice(0, k));
+  return expectedIds.filter(id => top.has(id)).length / expectedIds.length;
+}
+
+/**
+ * 倒数排名：第一条标注文档排名的倒数，没有命中时为 0
+ */
+export function reciprocalRank(retrievedIds: string[], expectedIds: string[]): number {
+  const rank = retrievedIds.findIndex(id => expectedIds.includes(id));
+  return rank < 0 ? 0 : 1 / (rank + 1);
+}
+
+/**
+ * nDCG@k（二值相关度）
+ */
+export function ndcgAtK(retrievedIds: string[], expectedIds: string[], k: number): number {
+  if (expectedIds.length === 0) return 1;
+  const dcg = retrievedIds.slice(0, k)
+    .reduce((sum, id, i) => sum + (expectedIds.includes(id) ? 1 / Math.log2(i + 2) : 0), 0);
+  let ideal = 0;
+  for (let i = 0; i < Math.min(expectedIds.length, k); i++) ideal += 1 / Math.log2(i + 2);
+  return dcg / ideal;
+}
+
+/**
+ * 引用准确率：引用的来源中属于标注文档的比例，没有引用时为 0
+ */
+export function citationPrecision(citedIds: string[], expectedIds: string[]): number {
+  if (citedIds.length === 0) return 0;
+  return citedIds.filter(id => expectedIds.includes(id)).length / citedIds.length;
+}
+
+/**
+ * 参考答案的词在回答中出现的比例
+ */
+export function referenceOverlap(answer: string, reference: string): number {
+  const referenceTokens = Array.from(new Set(tokenize(reference)));
+  if (referenceTokens.length === 0) return 1;
+  const answerTokens = new Set(tokenize(answer));
+  return referenceTokens.filter(token => answerTokens.has(token)).length / referenceTokens.length;
+}
+
+/**
+ * 离线评测用的 LLM：agentRAG 的提示词按上下文顺序取前 maxSources 个来源，
+ * 每个来源抽取第一句并标注 [编号]；其他提示词按 FixtureProvider 的规则处理
+ */
+export class MockRAGProvider extends FixtureProvider {
+  constructor(private maxSources = 3) {
+    super();
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const context = request.prompt.match(/案例库(?:数据)?：\n([\s\S]*?)\n\n用户问题：/);
+    if (!context) return await super.generate(request);
+
+    const entries = Array.from(context[1].matchAll(/^\[(\d+)\] (.+)\n来源: .*\n([\s\S]*?)\n---/gm));
+    const sentences = entries.slice(0, this.maxSources).map(([, index, title, body]) => {
+      const text = body
+        .split('\n')
+        .filter(line => !/^章节「.*」:$/.test(line))
+        .join(' ')
+        .replace(/^内容: /, '')
+        .trim();
+      const sentence = (text.match(/^.+?(?:[。！？!?]|\.(?=\s|$))/)?.[0] || text).slice(0, 200);
+      return `${title}：${sentence.replace(/[。.!?！？]$/, '')} [${index}]。`;
+    });
+
+    return {
+      content: sentences.length > 0 ? sentences.join('\n') : '案例库暂无相关数据，无法给出基于案例的回答。',
+      model: request.model,
+      provider: this.name
+    };
+  }
+}
+
+/**
+ * 使用 MockRAGProvider 替换 fixture 提供方（需同时设置 LLM_PROVIDER=fixture）
+ */
+export function useMockLLM(maxSources?: number): void {
+  registerProvider(new MockRAGProvider(maxSources));
+}
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * 按 agentRAG 的方式检索：启用改写时多查询检索，启用重排时多召回再重排
+ */
+async function retrieve(item: GoldenQuestion, limit: number, options: EvalOptions): Promise<RetrievalResult[]> {
+  const rerankConfig = getRerankConfig();
+  const reranker = getReranker(options.reranker ?? rerankConfig.reranker);
+  const candidateLimit = reranker ? Math.max(rerankConfig.candidates, limit) : limit;
+
+  const rewrite: QueryRewrite | undefined = (options.rewrite ?? getQueryRewriteConfig().enabled)
+    ? await rewriteQuery(item.question, { industry: item.industry })
+    : undefined;
+  const candidates = rewrite
+    ? await retrieveWithRewrite(rewrite, { types: item.types, limit: candidateLimit, relaxIndustry: !item.industry })
+    : await retrieveFromDatabase(item.question, { types: item.types, industry: item.industry, limit: candidateLimit });
+
+  return reranker
+    ? await rerankResults(item.question, candidates, reranker, { limit, minScore: rerankConfig.minScore })
+    : candidates;
+}
+
+/**
+ * 运行评测（问题按顺序逐个执行，结果可复现）
+ */
+export async function runEvaluation(golden: GoldenSet, options: EvalOptions = {}): Promise<EvalReport> {
+  const k = (options.k || golden.k || [1, 3, 5]).slice().sort((a, b) => a - b);
+  const maxK = k[k.length - 1];
+  const questions: QuestionResult[] = [];
+
+  for (const item of golden.questions) {
+    const retrieved = await retrieve(item, maxK, options);
+    const retrievedIds = retrieved.map(r => r.id);
+    const rank = retrievedIds.findIndex(id => item.expectedIds.includes(id));
+
+    const result: QuestionResult = {
+      id: item.id,
+      question: item.question,
+      expectedIds: item.expectedIds,
+      retrievedIds,
+      firstRelevantRank: rank < 0 ? null : rank + 1,
+      recall: Object.fromEntries(k.map(n => [String(n), round(recallAtK(retrievedIds, item.expectedIds, n))])),
+      mrr: round(reciprocalRank(retrievedIds, item.expectedIds)),
+      ndcg: round(ndcgAtK(retrievedIds, item.expectedIds, maxK))
+    };
+
+    if (!options.retrievalOnly) {
+      const response = await agentRAG(item.question, {
+        mode: item.mode,
+        industry: item.industry,
+        includeTypes: item.types,
+        rewrite: options.rewrite,
+        reranker: options.reranker
+      });
+      const citedIds = Array.from(new Set((response.citations?.citations || [])
+        .map(citation => citation.sourceId)
+        .filter((id): id is string => !!id)));
+
+      result.answer = {
+        text: response.answer,
+        citedIds,
+        citationPrecision: round(citationPrecision(citedIds, item.expectedIds)),
+        faithfulness: round(response.citations?.grounded ?? 0),
+        referenceOverlap: item.referenceAnswer ? round(referenceOverlap(response.answer, item.referenceAnswer)) : null,
+        flaggedClaims: response.citations?.flagged.length ?? 0
+      };
+    }
+
+    questions.push(result);
+  }
+
+  const metrics: Record<string, number> = {};
+  for (const n of k) {
+    metrics[`recall@${n}`] = round(average(questions.map(q => q.recall[String(n)])));
+  }
+  metrics.mrr = round(average(questions.map(q => q.mrr)));
+  metrics[`ndcg@${maxK}`] = round(average(questions.map(q => q.ndcg)));
+
+  const answers = questions.map(q => q.answer).filter((a): a is NonNullable<QuestionResult['answer']> => !!a);
+  if (answers.length > 0) {
+    metrics.citationPrecision = round(average(answers.map(a => a.citationPrecision)));
+    metrics.faithfulness = round(average(answers.map(a => a.faithfulness)));
+    const overlaps = answers.map(a => a.referenceOverlap).filter((v): v is number => v !== null);
+    if (overlaps.length > 0) metrics.referenceOverlap = round(average(overlaps));
+  }
+
+  const config = Object.fromEntries(Object.entries(process.env)
+    .filter(([key]) => CONFIG_PREFIXES.some(prefix => key.startsWith(prefix)))
+    .sort(([a], [b]) => a.localeCompare(b))) as Record<string, string>;
+
+  return {
+    name: golden.name,
+    questionCount: questions.length,
+    k,
+    options,
+    config,
+    metrics,
+    questions
+  };
+}
+
+/**
+ * 低于问题集下限的指标，返回失败说明
+ */
+export function checkThresholds(report: EvalReport, thresholds: Record<string, number> = {}): string[] {
+  return Object.entries(thresholds)
+    .filter(([metric, min]) => (report.metrics[metric] ?? 0) < min)
+    .map(([metric, min]) => `${metric} = ${report.metrics[metric] ?? 'n/a'} < ${min}`);
+}
+
+/**
+ * Markdown 报告（汇总指标 + 逐题结果）
+ */
+export function formatMarkdown(report: EvalReport): string {
+  const percent = (value: number | null | undefined) =>
+    value === null || value === undefined ? '-' : `${(value * 100).toFixed(1)}%`;
+  const lines = [
+    `# RAG 评测：${report.name}`,
+    '',
+    `问题数：${report.questionCount}`,
+    '',
+    '| 指标 | 值 |',
+    '| --- | --- |',
+    ...Object.entries(report.metrics).map(([metric, value]) => `| ${metric} | ${metric === 'mrr' ? value.toFixed(4) : percent(value)} |`),
+    ''
+  ];
+
+  if (Object.keys(report.config).length > 0) {
+    lines.push('配置：', '', ...Object.entries(report.config).map(([key, value]) => `- \`${key}=${value}\``), '');
+  }
+
+  const answerColumns = report.questions.some(q => q.answer);
+  lines.push(
+    '## 逐题结果',
+    '',
+    `| 问题 | 首个命中 | ${report.k.map(n => `R@${n}`).join(' | ')} | MRR | nDCG${answerColumns ? ' | 引用准确率 | 忠实度 | 参考重叠' : ''} |`,
+    `| --- | --- | ${report.k.map(() => '---').join(' | ')} | --- | ---${answerColumns ? ' | --- | --- | ---' : ''} |`
+  );
+  for (const q of report.questions) {
+    const cells = [
+      `${q.id}: ${q.question}`,
+      q.firstRelevantRank === null ? '未命中' : String(q.firstRelevantRank),
+      ...report.k.map(n => percent(q.recall[String(n)])),
+      q.mrr.toFixed(4),
+      percent(q.ndcg)
+    ];
+    if (answerColumns) {
+      cells.push(percent(q.answer?.citationPrecision), percent(q.answer?.faithfulness), percent(q.answer?.referenceOverlap));
+    }
+    lines.push(`| ${cells.join(' | ')} |`);
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -3,33 +3,43 @@
  * Agent RAG 服务 - 从知识图谱检索并增强回答
  */
 
-import { supabase } from './supabase';
-import { callQwen } from './llm';
-import axios from 'axios';
+import { embedText, generateText } from './llm';
+import { LLMAbortedError, LLMError } from './providers';
+import { DocumentType, KnowledgeDocument, getVectorStore } from './vector-store';
+import { HybridMatch, HybridWeights, fuseResults, getHybridSearchConfig, keywordSearch } from './hybrid-search';
+import { Reranker, RerankerName, getReranker, getRerankConfig } from './rerank';
+import { CitationReport, verifyCitations } from './citations';
+import { QueryRewrite, getQueryRewriteConfig, rewriteQuery } from './query-rewrite';
 
 /**
  * RAG 配置
  */
 const RAG_CONFIG = {
-  embeddingModel: 'text-embedding-3-small',
-  matchThreshold: 0.7,
+  matchThreshold: parseFloat(process.env.RAG_MATCH_THRESHOLD || '0.5'),  // 最低余弦相似度
   matchCount: 5,
-  maxContextLength: 4000
+  maxContextLength: parseInt(process.env.RAG_MAX_CONTEXT_CHARS || '4000'),
+  chunksPerCase: parseInt(process.env.RAG_CHUNKS_PER_CASE || '3')  // 每个案例最多引用的块数
 };
 
 /**
  * 检索结果
  */
-export interface RetrievalResult {
+export interface RetrievalResult extends KnowledgeDocument {
+  score: number;         // RRF 融合得分（排序依据）
+  similarity: number;    // 余弦相似度，仅关键词命中时为 0
+  keywordScore: number;  // BM25 得分，仅向量命中时为 0
+  rerankScore?: number;  // 重排得分（0-1），启用重排时提供
+  chunks?: RetrievedChunk[];  // 案例命中的块（按得分降序），content 为这些块的拼接
+}
+
+/**
+ * 命中的案例块
+ */
+export interface RetrievedChunk {
   id: string;
-  type: 'case' | 'trend' | 'scenario';
-  title: string;
-  description: string;
+  section?: string;  // README 章节
   content: string;
-  source: string;
-  sourceUrl?: string;
-  metadata: Record<string, any>;
-  similarity: number;
+  score: number;
 }
 
 /**
@@ -37,9 +47,14 @@ export interface RetrievalResult {
  */
 export interface RAGResponse {
   answer: string;
-  sources: SourceReference[];
+  sources: SourceReference[];  // 回答中引用过的来源
+  citations?: CitationReport;  // 引用校验：每处引用的位置、论断状态和 grounded 得分
   metadata: {
     retrievedCount: number;
+    candidateCount: number;  // 重排前的候选数（未重排时等于 retrievedCount）
+    reranker?: RerankerName;
+    grounded?: number;  // 有来源支撑的论断占比（0-1）
+    rewrite?: QueryRewrite;  // 启用查询改写时：子查询、HyDE 假设回答和过滤条件
     contextLength: number;
     usedCache: boolean;
   };
@@ -49,244 +64,283 @@ export interface RAGResponse {
  * 来源引用
  */
 export interface SourceReference {
+  index: number;  // 回答中的引用编号 [n]
   title: string;
   url?: string;
   type: string;
-  relevance: number;
+  relevance: SourceRelevance;
+  sections?: string[];  // 引用的 README 章节
 }
 
 /**
- * 文本嵌入向量
+ * 来源相关度：重排前的检索得分和重排得分，用于评估检索质量
  */
-async function getEmbedding(text: string): Promise<number[]> {
-  const apiKey = process.env.DASHSCOPE_API_KEY;
-  if (!apiKey) {
-    throw new Error('DASHSCOPE_API_KEY not configured');
-  }
-
-  try {
-    const response = await axios.post(
-      'https://dashscope.aliyuncs.com/api/v1/services/embeddings/text-embedding/text-embedding',
-      {
-        model: RAG_CONFIG.embeddingModel,
-        input: text
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
+export interface SourceRelevance {
+  retrieval: number;     // 重排前：RRF 融合得分
+  similarity: number;    // 重排前：余弦相似度
+  keywordScore: number;  // 重排前：BM25 得分
+  rerank?: number;       // 重排后：相关度（0-1），未启用重排时为空
+}
 
-    return response.data.output.embeddings[0].embedding;
-  } catch (error: any) {
-    console.error('Embedding error:', error.message);
-    throw new Error('Failed to generate embedding');
-  }
+/**
+ * 文本嵌入向量（由 providers 配置决定使用哪个提供方）
+ */
+async function getEmbedding(text: string): Promise<number[]> {
+  return await embedText(text);
 }
 
 /**
- * 向量相似度搜索
+ * 构建上下文：案例按命中的块引用（注明 README 章节），总长度不超过 maxContextLength
  */
-async function vectorSearch(
-  queryEmbedding: number[],
-  options: {
-    table: string;
-    matchCount?: number;
-    filter?: Record<string, any>;
-  }
-): Promise<any[]> {
-  const { table, matchCount = 5, filter } = options;
+function buildContext(results: RetrievalResult[]): string {
+  const budget = Math.floor(RAG_CONFIG.maxContextLength / Math.max(results.length, 1));
 
-  try {
-    // 尝试使用 Supabase Vector
-    const { data, error } = await supabase.rpc('match_documents', {
-      query_embedding: queryEmbedding,
-      match_threshold: RAG_CONFIG.matchThreshold,
-      match_count: matchCount,
-      table_name: table
-    });
+  return results.map((r, i) => {
+    const header = `[${i + 1}] ${r.title}
+来源: ${r.source}${r.sourceUrl ? ' - ' + r.sourceUrl : ''}`;
 
-    if (error) {
-      console.log('Vector search not available, using text search fallback');
-      return await textSearchFallback(queryEmbedding, table, matchCount);
+    if (!r.chunks?.length) {
+      return `${header}
+内容: ${r.content.slice(0, budget)}
+---`;
     }
 
-    return data || [];
-  } catch (error) {
-    console.log('Using fallback search');
-    return await textSearchFallback(queryEmbedding, table, matchCount);
-  }
+    let remaining = budget;
+    const quotes: string[] = [];
+    for (const chunk of r.chunks) {
+      if (remaining <= 0) break;
+      const text = chunk.content.slice(0, remaining);
+      quotes.push(chunk.section ? `章节「${chunk.section}」:\n${text}` : `内容: ${text}`);
+      remaining -= text.length;
+    }
+    return `${header}
+${quotes.join('\n')}
+---`;
+  }).join('\n\n');
 }
 
 /**
- * 文本搜索降级方案
+ * 案例块按所属案例分组：每个案例保留得分最高的 chunksPerCase 个块，案例的得分取最高的块
+ * 输入已按得分降序，输出保持案例首次出现的顺序
  */
-async function textSearchFallback(
-  queryEmbedding: number[],
-  table: string,
-  matchCount: number
-): Promise<any[]> {
-  // 提取查询关键词
-  const keywords = extractKeywords(queryEmbedding.toString());
-
-  let query = supabase
-    .from(table)
-    .select('*')
-    .order('quality_score', { ascending: false })
-    .limit(matchCount);
-
-  // 添加关键词过滤
-  if (keywords.length > 0) {
-    query = query.or(`description.ilike.%${keywords[0]}%,project_name.ilike.%${keywords[0]}%,title.ilike.%${keywords[0]}%`);
-  }
-
-  const { data, error } = await query;
-
-  if (error) {
-    console.error('Search error:', error);
-    return [];
+function groupChunks(matches: HybridMatch[], chunksPerCase: number): RetrievalResult[] {
+  const groups = new Map<string, HybridMatch[]>();
+  for (const match of matches) {
+    const key = match.document.parentId
+      ? `case:${match.document.parentId}`
+      : `${match.document.type}:${match.document.id}`;
+    groups.set(key, [...(groups.get(key) || []), match]);
   }
 
-  return data || [];
-}
+  return Array.from(groups.values()).map(group => {
+    const [best] = group;
+    const { document } = best;
+    if (!document.parentId) {
+      return { ...document, score: best.score, similarity: best.similarity, keywordScore: best.keywordScore };
+    }
 
-/**
- * 提取关键词
- */
-function extractKeywords(text: string): string[] {
-  const stopWords = ['的', '了', '和', '是', '在', '有', '我', '你', '他', '她', '它', '们', '这', '那', '什', '么', '如何', '怎么', '什么', 'the', 'a', 'an', 'is', 'are', 'of', 'in', 'on'];
-  const words = text.split(/\s+/).filter(w => w.length > 2 && !stopWords.includes(w.toLowerCase()));
-  return Array.from(new Set(words)).slice(0, 5);
-}
+    const chunks = group.slice(0, chunksPerCase).map(match => ({
+      id: match.document.id,
+      section: match.document.section,
+      content: match.document.content,
+      score: match.score
+    }));
+    const summary = group.find(match => match.document.metadata.chunkKind === 'summary');
 
-/**
- * 构建上下文
- */
-function buildContext(results: RetrievalResult[]): string {
-  return results.map((r, i) => {
-    return `[${i + 1}] ${r.title}
-来源: ${r.source}${r.sourceUrl ? ' - ' + r.sourceUrl : ''}
-内容: ${r.content.slice(0, 500)}
----`;
-  }).join('\n\n');
+    return {
+      ...document,
+      id: document.parentId,
+      description: summary?.document.content || document.description,
+      content: chunks.map(chunk => chunk.content).join('\n...\n'),
+      section: undefined,
+      score: best.score,
+      similarity: Math.max(...group.map(match => match.similarity)),
+      keywordScore: Math.max(...group.map(match => match.keywordScore)),
+      chunks
+    };
+  });
 }
 
 /**
- * 从数据库检索
+ * 从知识库检索：向量检索（pgvector 或本地向量索引，vector-store.ts）和 BM25 关键词检索（hybrid-search.ts）
+ * 的结果按加权 RRF 融合；weights 覆盖两路检索的权重，某一路为 0 时只用另一路
+ * 案例在块级检索，结果按案例分组（chunks 为命中的块）
  */
 export async function retrieveFromDatabase(
   query: string,
   options: {
-    types?: ('case' | 'trend' | 'scenario')[];
+    types?: DocumentType[];
     industry?: string;
     limit?: number;
+    weights?: Partial<HybridWeights>;
+    rrfK?: number;
   } = {}
 ): Promise<RetrievalResult[]> {
   const { types = ['case', 'scenario'], industry, limit = 5 } = options;
+  const config = getHybridSearchConfig();
+  const weights = { ...config.weights, ...options.weights };
+  // 按块检索，多召回一些以便分组后仍有 limit 个案例
+  const candidates = Math.max(limit * RAG_CONFIG.chunksPerCase, config.candidates);
+
+  // 一路检索失败时使用另一路的结果
+  const [vectorMatches, keywordMatches] = await Promise.all([
+    weights.vector > 0
+      ? getEmbedding(query)
+        .then(embedding => getVectorStore().search(embedding, {
+          types,
+          industry,
+          limit: candidates,
+          threshold: RAG_CONFIG.matchThreshold
+        }))
+        .catch((error: any) => {
+          console.error('Vector retrieve error:', error.message);
+          return [];
+        })
+      : [],
+    weights.keyword > 0
+      ? keywordSearch(query, { types, industry, limit: candidates }).catch((error: any) => {
+        console.error('Keyword retrieve error:', error.message);
+        return [];
+      })
+      : []
+  ]);
 
-  try {
-    // 获取嵌入向量
-    const embedding = await getEmbedding(query);
-
-    const allResults: RetrievalResult[] = [];
-
-    // 并发检索不同类型
-    const searchPromises = types.map(async (type) => {
-      const table = type === 'case' ? 'cases' : type === 'scenario' ? 'scenarios' : 'trends';
-
-      let queryBuilder = supabase
-        .from(table)
-        .select('*')
-        .order('quality_score', { ascending: false })
-        .limit(limit);
+  const fused = fuseResults(vectorMatches, keywordMatches, weights, options.rrfK ?? config.rrfK);
+  return groupChunks(fused, RAG_CONFIG.chunksPerCase).slice(0, limit);
+}
 
-      // 行业过滤
-      if (industry) {
-        queryBuilder = queryBuilder.eq('industry', industry);
+/**
+ * 合并多个子查询的结果：按 RRF 累加得分，同一案例命中的块合并后重新取前 chunksPerCase 个
+ */
+function mergeResults(lists: RetrievalResult[][], rrfK: number): RetrievalResult[] {
+  const merged = new Map<string, RetrievalResult>();
+
+  for (const list of lists) {
+    list.forEach((result, rank) => {
+      const key = `${result.type}:${result.id}`;
+      const score = 1 / (rrfK + rank + 1);
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ...result, score });
+        return;
       }
 
-      const { data, error } = await queryBuilder;
-
-      if (error) {
-        console.error(`Search ${table} error:`, error);
-        return [];
+      existing.score += score;
+      existing.similarity = Math.max(existing.similarity, result.similarity);
+      existing.keywordScore = Math.max(existing.keywordScore, result.keywordScore);
+      if (existing.chunks && result.chunks) {
+        const chunks = new Map(existing.chunks.map(chunk => [chunk.id, chunk]));
+        for (const chunk of result.chunks) {
+          if ((chunks.get(chunk.id)?.score ?? -1) < chunk.score) chunks.set(chunk.id, chunk);
+        }
+        existing.chunks = Array.from(chunks.values())
+          .sort((a, b) => b.score - a.score)
+          .slice(0, RAG_CONFIG.chunksPerCase);
+        existing.content = existing.chunks.map(chunk => chunk.content).join('\n...\n');
       }
-
-      // 计算相似度（简化版：基于关键词匹配）
-      return (data || []).map(row => ({
-        id: row.id,
-        type,
-        title: row.project_name || row.title || row.name,
-        description: row.description || row.use_case || '',
-        content: row.description || row.use_case || row.outcome || '',
-        source: row.source || table,
-        sourceUrl: row.source_url || row.url,
-        metadata: {
-          industry: row.industry,
-          useCase: row.use_case,
-          painPoints: row.pain_points,
-          technology: row.technology
-        },
-        similarity: calculateSimilarity(query, row.description || '')
-      }));
     });
+  }
 
-    const results = await Promise.all(searchPromises);
-    results.forEach(r => allResults.push(...r));
+  return Array.from(merged.values()).sort((a, b) => b.score - a.score);
+}
 
-    // 按相似度排序
-    allResults.sort((a, b) => b.similarity - a.similarity);
+/**
+ * 多查询检索：每个子查询做混合检索，HyDE 假设回答只做向量检索，结果按 RRF 合并
+ * relaxIndustry 时行业过滤没有结果则去掉过滤重试（行业是从问题中提取的，不是调用方指定的）
+ */
+export async function retrieveWithRewrite(
+  rewrite: QueryRewrite,
+  options: { types?: DocumentType[]; limit?: number; relaxIndustry?: boolean } = {}
+): Promise<RetrievalResult[]> {
+  const { types, limit = 5 } = options;
+
+  const search = async (industry?: string) => {
+    const lists = await Promise.all([
+      ...rewrite.queries.map(q => retrieveFromDatabase(q, { types, industry, limit })),
+      ...rewrite.hypothetical.map(h => retrieveFromDatabase(h, { types, industry, limit, weights: { keyword: 0 } }))
+    ]);
+    return mergeResults(lists, getHybridSearchConfig().rrfK).slice(0, limit);
+  };
 
-    return allResults.slice(0, limit);
-  } catch (error) {
-    console.error('Retrieve error:', error);
-    return [];
+  const results = await search(rewrite.filters.industry);
+  if (results.length === 0 && rewrite.filters.industry && options.relaxIndustry) {
+    console.log('[AgentRAG] No results for industry', rewrite.filters.industry, ', retrying without filter');
+    return await search();
   }
+  return results;
 }
 
 /**
- * 计算相似度（简化版）
+ * 重排：对候选逐条打分，丢弃低于 minScore 的结果，按重排得分取前 limit 条
+ * 重排失败时按原顺序取前 limit 条（取消除外）
  */
-function calculateSimilarity(query: string, text: string): number {
-  const queryWords = query.toLowerCase().split(/\s+/);
-  const textLower = text.toLowerCase();
-
-  let matches = 0;
-  for (const word of queryWords) {
-    if (word.length > 2 && textLower.includes(word)) {
-      matches++;
-    }
-  }
+export async function rerankResults(
+  query: string,
+  candidates: RetrievalResult[],
+  reranker: Reranker,
+  options: { limit: number; minScore: number }
+): Promise<RetrievalResult[]> {
+  if (candidates.length === 0) return [];
 
-  return matches / Math.max(queryWords.length, 1);
+  try {
+    const scores = await reranker.rerank(query, candidates.map(r => `${r.title}\n${r.content}`.slice(0, 1000)));
+    return candidates
+      .map((r, i) => ({ ...r, rerankScore: scores[i] }))
+      .filter(r => r.rerankScore >= options.minScore)
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, options.limit);
+  } catch (error: any) {
+    if (error instanceof LLMAbortedError) throw error;
+    console.error(`[AgentRAG] Rerank (${reranker.name}) failed:`, error.message);
+    return candidates.slice(0, options.limit);
+  }
 }
 
 /**
  * Agent RAG 主流程
+ * 启用查询改写时（QUERY_REWRITE 或 options.rewrite）先提取过滤条件、生成双语改写和 HyDE 假设回答，多查询检索后合并
+ * 启用重排时（RERANKER 或 options.reranker）先召回 RERANK_CANDIDATES 条候选，重排后取前 matchCount 条
  */
 export async function agentRAG(
   query: string,
   options: {
     mode?: 'brainstorm' | 'case_search' | 'sales_script';
     industry?: string;
-    includeTypes?: ('case' | 'trend' | 'scenario')[];
+    includeTypes?: DocumentType[];
+    onToken?: (token: string) => void;  // 流式输出回调
+    history?: string;         // 会话上下文（摘要 + 最近对话），多轮对话时提供
+    retrievalQuery?: string;  // 检索用的问题，默认为 query（追问时可合并上一轮问题）
+    reranker?: RerankerName;  // 覆盖 RERANKER，none 为不重排
+    rewrite?: boolean;        // 覆盖 QUERY_REWRITE
   } = {}
 ): Promise<RAGResponse> {
-  const { mode = 'brainstorm', industry, includeTypes = ['case', 'scenario'] } = options;
+  const { mode = 'brainstorm', industry, includeTypes = ['case', 'scenario'], onToken, history } = options;
 
   console.log('[AgentRAG] Query:', query);
   console.log('[AgentRAG] Mode:', mode, 'Industry:', industry);
 
-  // 1. 从数据库检索
-  const retrieved = await retrieveFromDatabase(query, {
-    types: includeTypes,
-    industry,
-    limit: RAG_CONFIG.matchCount
-  });
-
-  console.log('[AgentRAG] Retrieved:', retrieved.length, 'documents');
+  // 1. 从数据库检索（启用改写时多查询检索；启用重排时多召回，再重排）
+  const retrievalQuery = options.retrievalQuery || query;
+  const rerankConfig = getRerankConfig();
+  const reranker = getReranker(options.reranker ?? rerankConfig.reranker);
+  const limit = reranker ? Math.max(rerankConfig.candidates, RAG_CONFIG.matchCount) : RAG_CONFIG.matchCount;
+  const rewrite = (options.rewrite ?? getQueryRewriteConfig().enabled)
+    ? await rewriteQuery(retrievalQuery, { industry })
+    : undefined;
+  if (rewrite) {
+    console.log('[AgentRAG] Rewritten queries:', rewrite.queries.length, 'HyDE:', rewrite.hypothetical.length, 'Filters:', rewrite.filters);
+  }
+  const candidates = rewrite
+    ? await retrieveWithRewrite(rewrite, { types: includeTypes, limit, relaxIndustry: !industry })
+    : await retrieveFromDatabase(retrievalQuery, { types: includeTypes, industry, limit });
+  const retrieved = reranker
+    ? await rerankResults(retrievalQuery, candidates, reranker, {
+      limit: RAG_CONFIG.matchCount,
+      minScore: rerankConfig.minScore
+    })
+    : candidates;
+
+  console.log('[AgentRAG] Retrieved:', retrieved.length, 'documents', reranker ? `(reranked from ${candidates.length})` : '');
 
   // 2. 构建上下文
   const context = buildContext(retrieved);
@@ -300,8 +354,9 @@ export async function agentRAG(
 
 要求：
 1. 每个观点必须基于提供的案例
-2. 提及具体案例时必须标注来源
-3. 重点关注行业场景、客户痛点、实施效果`;
+2. 每个基于案例的陈述后用 [编号] 标注引用的案例（编号见案例库数据，如 [1] 或 [1][3]），引用 README 内容时注明章节
+3. 不要写出案例中没有的数据和事实
+4. 重点关注行业场景、客户痛点、实施效果`;
 
     if (retrieved.length > 0) {
       systemPrompt += `\n\n案例库数据：\n${context}`;
@@ -315,13 +370,14 @@ export async function agentRAG(
 1. 根据用户需求匹配合适的案例
 2. 列出案例的关键信息
 3. 说明为什么这个案例相关
+4. 用 [编号] 标注引用的案例
 
 案例库：\n${context || '暂无数据'}`;
   } else {
     systemPrompt = `你是一个销售助手。请基于以下案例生成销售话术。
 
 要求：
-1. 引用具体案例增强说服力
+1. 引用具体案例增强说服力，并用 [编号] 标注
 2. 突出客户痛点和解决方案
 3. 包含价值主张和行动号召
 
@@ -329,32 +385,62 @@ export async function agentRAG(
   }
 
   try {
-    const answer = await callQwen(`${systemPrompt}\n\n用户问题：${query}\n\n回答：`);
+    const conversation = history ? `\n\n${history}` : '';
+    const result = await generateText(`${systemPrompt}${conversation}\n\n用户问题：${query}\n\n回答：`, 'qwen-plus', { agent: 'rag', onToken });
+    const answer = result.content;
+
+    // 4. 校验引用，来源只保留回答中引用过的
+    const citations = await verifyCitations(answer, retrieved.map(r => ({ id: r.id, title: r.title, content: r.content })));
+    if (citations.flagged.length > 0) {
+      console.log('[AgentRAG] Ungrounded claims:', citations.flagged.length, '/', citations.claims.length);
+    }
 
-    // 4. 构建来源引用
-    const sources: SourceReference[] = retrieved.map(r => ({
+    const sources: SourceReference[] = retrieved.map((r, i) => ({
+      index: i + 1,
       title: r.title,
       url: r.sourceUrl,
       type: r.type,
-      relevance: r.similarity
-    }));
+      relevance: {
+        retrieval: r.score,
+        similarity: r.similarity,
+        keywordScore: r.keywordScore,
+        rerank: r.rerankScore
+      },
+      sections: r.chunks
+        ? Array.from(new Set(r.chunks.map(chunk => chunk.section).filter((section): section is string => !!section)))
+        : undefined
+    })).filter(source => citations.citedSources.includes(source.index));
 
     return {
       answer,
       sources,
+      citations,
       metadata: {
         retrievedCount: retrieved.length,
+        candidateCount: candidates.length,
+        reranker: reranker?.name,
+        grounded: citations.grounded,
+        rewrite,
         contextLength,
-        usedCache: false
+        usedCache: result.cached
       }
     };
   } catch (error: any) {
     console.error('[AgentRAG] LLM error:', error.message);
+
+    // 配额、参数、服务不可用等类型化错误交给调用方处理
+    if (error instanceof LLMError) {
+      throw error;
+    }
+
     return {
       answer: '抱歉，生成回答时出现问题。请稍后重试。',
       sources: [],
       metadata: {
         retrievedCount: retrieved.length,
+        candidateCount: candidates.length,
+        reranker: reranker?.name,
+        rewrite,
         contextLength,
         usedCache: false
       }
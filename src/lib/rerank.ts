@@ -0,0 +1,173 @@
+/**
+ * Rerankers
+ * 重排 - 对检索候选逐条打相关度分（0-1），用于 agentRAG 的重排阶段
+ *
+ * - dashscope：DashScope 文本排序模型（gte-rerank）
+ * - llm：LLM 逐条打分（提示词模板 rag.rerank）
+ * - heuristic：本地启发式，查询词覆盖率 + 完整短语命中，不调用外部服务
+ */
+
+import axios from 'axios';
+import { tokenize } from './bm25';
+import { getAbortSignal } from './cancellation';
+import { generateText } from './llm';
+import { renderPrompt } from './prompts';
+import { LLMAuthError, getLLMConfig, toLLMError, withResilience } from './providers';
+
+export type RerankerName = 'none' | 'dashscope' | 'llm' | 'heuristic';
+
+/**
+ * 重排器接口：返回与 documents 一一对应的相关度（0-1）
+ */
+export interface Reranker {
+  name: RerankerName;
+  rerank(query: string, documents: string[]): Promise<number[]>;
+}
+
+/**
+ * 重排配置
+ */
+export interface RerankConfig {
+  reranker: RerankerName;  // none 为不重排
+  candidates: number;      // 重排前的召回数
+  minScore: number;        // 相关度下限，低于该值的结果丢弃
+  model: string;           // DashScope 排序模型
+  concurrency: number;     // LLM 打分的并发数
+}
+
+const RERANKERS: RerankerName[] = ['none', 'dashscope', 'llm', 'heuristic'];
+
+/**
+ * 从环境变量读取配置
+ */
+export function getRerankConfig(): RerankConfig {
+  const env = process.env;
+  const reranker = (env.RERANKER || 'none') as RerankerName;
+  return {
+    reranker: RERANKERS.includes(reranker) ? reranker : 'none',
+    candidates: parseInt(env.RERANK_CANDIDATES || '50'),
+    minScore: parseFloat(env.RERANK_MIN_SCORE || '0.3'),
+    model: env.RERANK_MODEL || 'gte-rerank',
+    concurrency: parseInt(env.RERANK_CONCURRENCY || '5')
+  };
+}
+
+/**
+ * DashScope 文本排序
+ */
+export const dashScopeReranker: Reranker = {
+  name: 'dashscope',
+
+  async rerank(query, documents) {
+    if (documents.length === 0) return [];
+
+    const { apiKey, baseUrl } = getLLMConfig().dashscope;
+    if (!apiKey) {
+      throw new LLMAuthError('DASHSCOPE_API_KEY is not configured', 'dashscope');
+    }
+    const { model } = getRerankConfig();
+    const signal = getAbortSignal();
+
+    const results = await withResilience('dashscope', async () => {
+      try {
+        const response = await axios.post(
+          `${baseUrl}/services/rerank/text-rerank/text-rerank`,
+          {
+            model,
+            input: { query, documents },
+            parameters: { return_documents: false, top_n: documents.length }
+          },
+          {
+            headers: {
+              'Authorization': `Bearer ${apiKey}`,
+              'Content-Type': 'application/json'
+            },
+            timeout: getLLMConfig().resilience.timeoutMs,
+            signal
+          }
+        );
+        return response.data.output.results as { index: number; relevance_score: number }[];
+      } catch (error: any) {
+        throw toLLMError(error, 'dashscope', 'Failed to call DashScope rerank');
+      }
+    }, { signal });
+
+    const scores = new Array(documents.length).fill(0);
+    for (const result of results) {
+      scores[result.index] = result.relevance_score;
+    }
+    return scores;
+  }
+};
+
+/**
+ * 从 LLM 输出中解析 0-10 的评分
+ */
+function parseScore(content: string): number {
+  const match = content.match(/\d+(\.\d+)?/);
+  if (!match) return 0;
+  return Math.min(Math.max(parseFloat(match[0]), 0), 10) / 10;
+}
+
+/**
+ * LLM 逐条打分，单条失败记为 0 分
+ */
+export const llmReranker: Reranker = {
+  name: 'llm',
+
+  async rerank(query, documents) {
+    const { concurrency } = getRerankConfig();
+    const scores = new Array(documents.length).fill(0);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < documents.length) {
+        const i = next++;
+        try {
+          const prompt = renderPrompt('rag.rerank', { query, document: documents[i] });
+          const result = await generateText(prompt, 'qwen-turbo', { agent: 'rerank', temperature: 0, maxTokens: 8 });
+          scores[i] = parseScore(result.content);
+        } catch (error: any) {
+          if (getAbortSignal()?.aborted) throw error;
+          console.error('[Rerank] LLM scoring failed:', error.message);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, documents.length) }, worker));
+    return scores;
+  }
+};
+
+/**
+ * 本地启发式：查询词在文档中的覆盖率，完整查询出现在文档中时加分
+ */
+export const heuristicReranker: Reranker = {
+  name: 'heuristic',
+
+  async rerank(query, documents) {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const phrase = query.trim().toLowerCase();
+
+    return documents.map(document => {
+      if (queryTerms.length === 0) return 0;
+      const terms = new Set(tokenize(document));
+      const coverage = queryTerms.filter(term => terms.has(term)).length / queryTerms.length;
+      const phraseBonus = phrase.length >= 2 && document.toLowerCase().includes(phrase) ? 0.3 : 0;
+      return Math.min(1, 0.7 * coverage + phraseBonus);
+    });
+  }
+};
+
+const rerankers: Record<Exclude<RerankerName, 'none'>, Reranker> = {
+  dashscope: dashScopeReranker,
+  llm: llmReranker,
+  heuristic: heuristicReranker
+};
+
+/**
+ * 按名称获取重排器，none 返回 null
+ */
+export function getReranker(name: RerankerName = getRerankConfig().reranker): Reranker | null {
+  return name === 'none' ? null : rerankers[name] || null;
+}
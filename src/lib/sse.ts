@@ -0,0 +1,100 @@
+/**
+ * Server-Sent Events 工具
+ * 服务端推送与解析（服务端 / 浏览器通用，不依赖 Node 模块）
+ */
+
+/**
+ * SSE 事件
+ */
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * 事件发送函数
+ */
+export type SSESend = (event: string, data: any) => void;
+
+/**
+ * 创建增量解析器：逐段喂入文本，每解析出一个完整事件回调一次
+ */
+export function createSSEParser(onEvent: (event: SSEEvent) => void): (chunk: string) => void {
+  let buffer = '';
+
+  return (chunk: string) => {
+    buffer += chunk.replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (dataLines.length > 0) {
+        onEvent({ event, data: dataLines.join('\n') });
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  };
+}
+
+/**
+ * 格式化一个 SSE 事件
+ */
+export function formatSSE(event: string, data: any): string {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  return `event: ${event}\n${payload.split('\n').map(line => `data: ${line}`).join('\n')}\n\n`;
+}
+
+/**
+ * 创建 SSE 响应：run 执行期间可随时 send，结束后自动关闭连接
+ * run 抛出的错误会作为 error 事件发送
+ */
+export function sseResponse(run: (send: SSESend) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send: SSESend = (event, data) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(formatSSE(event, data)));
+      };
+
+      try {
+        await run(send);
+      } catch (error: any) {
+        console.error('SSE stream error:', error);
+        send('error', { error: error.message || 'Internal server error', code: error.code });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      // 客户端断开后不再写入
+      closed = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
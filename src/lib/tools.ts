@@ -0,0 +1,89 @@
+/**
+ * Agent Tools
+ * Agent 工具定义 - 参数用 zod 声明，同时生成发给模型的 JSON Schema 并校验模型给出的参数
+ */
+
+import { z } from 'zod';
+import { LLMToolDefinition } from './providers';
+
+/**
+ * 工具
+ */
+export interface AgentTool<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  execute(args: z.infer<S>): Promise<unknown>;
+}
+
+/**
+ * 一次工具调用记录
+ */
+export interface ToolInvocation {
+  tool: string;
+  arguments: unknown;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+  step: number;  // 第几轮模型调用发起的
+}
+
+/**
+ * 定义工具（保留参数类型推断）
+ */
+export function defineTool<S extends z.ZodTypeAny>(tool: AgentTool<S>): AgentTool<S> {
+  return tool;
+}
+
+/**
+ * zod schema 转 JSON Schema（只支持工具参数常用的类型）
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): Record<string, any> {
+  const def: any = schema._def;
+  const withDescription = (json: Record<string, any>) =>
+    schema.description ? { ...json, description: schema.description } : json;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape;
+      const properties: Record<string, any> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        const field = value as z.ZodTypeAny;
+        properties[key] = zodToJsonSchema(field);
+        if (!field.isOptional()) required.push(key);
+      }
+      return withDescription({ type: 'object', properties, required });
+    }
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return withDescription({ type: 'string' });
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return withDescription({
+        type: def.checks?.some((c: any) => c.kind === 'int') ? 'integer' : 'number'
+      });
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return withDescription({ type: 'boolean' });
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return withDescription({ type: 'array', items: zodToJsonSchema(def.type) });
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return withDescription({ type: 'string', enum: def.values });
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return withDescription(zodToJsonSchema(def.innerType));
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return withDescription({ ...zodToJsonSchema(def.innerType), default: def.defaultValue() });
+    default:
+      return withDescription({});
+  }
+}
+
+/**
+ * 转为发给模型的工具定义
+ */
+export function toToolDefinition(tool: AgentTool): LLMToolDefinition {
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: zodToJsonSchema(tool.schema)
+  };
+}
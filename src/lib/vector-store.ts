@@ -0,0 +1,493 @@
+/**
+ * Vector Store
+ * 向量检索 - 为 cases / scenarios / trends 建立向量索引，按余弦相似度检索知识库
+ *
+ * - pgvector：数据库启用了 vector 扩展时，通过 match_documents 函数检索 embedding 列
+ * - file：本地 JSON 向量索引（暴力余弦检索），从三张表读取文档并生成向量，内容不变的文档复用已有向量；
+ *   索引只由定时任务（/api/cron/data）重建，检索时索引过期照常使用，缺失或嵌入模型不一致时返回空结果（由关键词检索兜底）
+ *
+ * 案例按块检索（chunking.ts）：摘要、描述和 README 各章节分别建索引，块记录所属案例（parentId）和章节；
+ * pgvector 模式下块保存在 case_chunks 表
+ *
+ * pgvector 不可用（扩展或函数未安装）时自动改用本地索引
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { embedText } from './llm';
+import { getLLMConfig } from './providers';
+import { CaseChunkRow, chunkCase } from './chunking';
+
+/**
+ * 知识库文档类型
+ */
+export type DocumentType = 'case' | 'trend' | 'scenario';
+
+export const DOCUMENT_TABLES: Record<DocumentType, string> = {
+  case: 'cases',
+  scenario: 'scenarios',
+  trend: 'trends'
+};
+
+/**
+ * pgvector 检索的表（案例按块检索）
+ */
+const SEARCH_TABLES: Record<DocumentType, string> = {
+  case: 'case_chunks',
+  scenario: 'scenarios',
+  trend: 'trends'
+};
+
+/**
+ * 知识库文档（三张表的统一结构）
+ */
+export interface KnowledgeDocument {
+  id: string;
+  type: DocumentType;
+  title: string;
+  description: string;
+  content: string;
+  source: string;
+  sourceUrl?: string;
+  metadata: Record<string, any>;
+  parentId?: string;  // 案例块所属的案例 ID
+  section?: string;   // 案例块所在的 README 章节
+}
+
+/**
+ * 检索结果，similarity 为查询向量与文档向量的余弦相似度
+ */
+export interface VectorMatch {
+  document: KnowledgeDocument;
+  similarity: number;
+}
+
+export interface VectorSearchOptions {
+  types: DocumentType[];
+  industry?: string;
+  limit: number;
+  threshold: number;  // 最低相似度
+}
+
+/**
+ * 索引同步结果
+ */
+export interface VectorSyncResult {
+  store: string;
+  total: number;    // 索引中的文档数
+  indexed: number;  // 本次生成向量的文档数
+}
+
+/**
+ * 向量存储接口
+ */
+export interface VectorStore {
+  name: string;
+  search(embedding: number[], options: VectorSearchOptions): Promise<VectorMatch[]>;
+  sync(): Promise<VectorSyncResult>;  // 为新增或内容变更的文档生成向量
+}
+
+/**
+ * 向量存储配置
+ */
+export interface VectorStoreConfig {
+  store: 'pgvector' | 'file';
+  dir: string;        // 本地索引目录
+  ttlMs: number;      // 本地索引超过该时间未同步时记录日志，提示需要重建
+  batchSize: number;  // pgvector 每张表每次同步的文档数
+  retryMs: number;    // pgvector 不可用后，多久再尝试
+  fixtureFile?: string;  // 固定语料（JSON，键为表名），设置后从文件而不是 Supabase 读取文档（离线评测使用）
+}
+
+/**
+ * 从环境变量读取配置（配置了 Supabase 时默认使用 pgvector）
+ */
+export function getVectorStoreConfig(): VectorStoreConfig {
+  const env = process.env;
+  const store = env.VECTOR_STORE || (env.NEXT_PUBLIC_SUPABASE_URL ? 'pgvector' : 'file');
+  return {
+    store: store === 'pgvector' ? 'pgvector' : 'file',
+    dir: env.VECTOR_INDEX_DIR || path.join(process.cwd(), '.data', 'vector-index'),
+    ttlMs: parseInt(env.VECTOR_INDEX_TTL_MS || String(60 * 60 * 1000)),
+    batchSize: parseInt(env.VECTOR_SYNC_BATCH || '100'),
+    retryMs: parseInt(env.VECTOR_PGVECTOR_RETRY_MS || String(5 * 60 * 1000)),
+    fixtureFile: env.KNOWLEDGE_FIXTURE_FILE || undefined
+  };
+}
+
+/**
+ * 案例块转换为知识库文档
+ */
+function chunkDocument(row: CaseChunkRow): KnowledgeDocument {
+  return {
+    id: String(row.id),
+    type: 'case',
+    title: row.project_name || '',
+    description: row.kind === 'summary' ? row.content : '',
+    content: row.content,
+    source: row.source || DOCUMENT_TABLES.case,
+    sourceUrl: row.source_url || undefined,
+    metadata: {
+      industry: row.industry,
+      technology: row.technology,
+      chunkKind: row.kind,
+      chunkIndex: row.chunk_index
+    },
+    parentId: String(row.case_id),
+    section: row.section || undefined
+  };
+}
+
+/**
+ * 数据库行（或 case_chunks 行）转换为知识库文档
+ */
+export function toKnowledgeDocument(type: DocumentType, row: any): KnowledgeDocument {
+  if (type === 'case' && row.case_id) {
+    return chunkDocument(row);
+  }
+
+  const table = DOCUMENT_TABLES[type];
+  const content = [
+    row.description,
+    row.use_case_summary,
+    row.use_case,
+    row.pain_point,
+    row.solution_approach,
+    row.outcome
+  ].filter(Boolean).join('\n');
+
+  return {
+    id: String(row.id),
+    type,
+    title: row.project_name || row.title || row.name || '',
+    description: row.description || row.use_case_summary || row.use_case || '',
+    content,
+    source: row.source || table,
+    sourceUrl: row.source_url || row.url || undefined,
+    metadata: {
+      industry: row.industry,
+      useCase: row.use_case,
+      painPoints: row.pain_point,
+      useCaseSummary: row.use_case_summary,
+      technology: row.technology || row.technology_stack,
+      category: row.category
+    }
+  };
+}
+
+/**
+ * 生成向量所用的文本
+ */
+export function documentText(document: KnowledgeDocument): string {
+  const technology = Array.isArray(document.metadata.technology) ? document.metadata.technology.join(', ') : '';
+  return [document.title, document.section, document.content, technology].filter(Boolean).join('\n').slice(0, 2000);
+}
+
+/**
+ * 余弦相似度
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * 当前嵌入模型（模型变更后本地索引全部重建）
+ */
+function embeddingModel(): string {
+  const config = getLLMConfig();
+  return `${config.provider}:${config.embeddingModel}`;
+}
+
+async function client() {
+  return (await import('./db')).supabaseAdmin;
+}
+
+/**
+ * 从 cases / scenarios / trends 读取全部文档（案例展开为块），未配置 Supabase 时返回空列表
+ * 设置了 KNOWLEDGE_FIXTURE_FILE 时从固定语料文件读取
+ */
+export async function loadDocuments(): Promise<KnowledgeDocument[]> {
+  const { fixtureFile } = getVectorStoreConfig();
+  if (!fixtureFile && !process.env.NEXT_PUBLIC_SUPABASE_URL) return [];
+
+  const fixture: Record<string, any[]> | undefined = fixtureFile
+    ? JSON.parse(fs.readFileSync(fixtureFile, 'utf-8'))
+    : undefined;
+  const supabaseAdmin = fixture ? undefined : await client();
+  const documents: KnowledgeDocument[] = [];
+  for (const [type, table] of Object.entries(DOCUMENT_TABLES) as [DocumentType, string][]) {
+    const { data, error } = fixture
+      ? { data: fixture[table], error: null }
+      : await supabaseAdmin!.from(table).select('*');
+    if (error) {
+      // 表不存在（例如尚未创建 trends）时跳过
+      console.error(`[VectorStore] Loading ${table} failed:`, error.message);
+      continue;
+    }
+    const rows = type === 'case' ? (data || []).flatMap(row => chunkCase(row)) : data || [];
+    documents.push(...rows.map(row => toKnowledgeDocument(type, row)));
+  }
+  return documents;
+}
+
+/**
+ * 案例分块写入 case_chunks：内容变化的块覆盖写入并清空 embedding（等待重新生成），已不存在的块删除
+ */
+export async function syncCaseChunks(): Promise<{ cases: number; chunks: number; changed: number; removed: number }> {
+  const supabaseAdmin = await client();
+  const { data: cases, error } = await supabaseAdmin.from('cases').select('*');
+  if (error) throw new Error(`Loading cases failed: ${error.message}`);
+
+  const { data: existingRows, error: existingError } = await supabaseAdmin
+    .from('case_chunks')
+    .select('id, content_hash');
+  if (existingError) throw new Error(`Loading case_chunks failed: ${existingError.message}`);
+
+  const existing = new Map((existingRows || []).map((row: any) => [row.id, row.content_hash]));
+  const chunks = (cases || []).flatMap(row => chunkCase(row));
+  const changed = chunks
+    .filter(chunk => existing.get(chunk.id) !== chunk.content_hash)
+    .map(chunk => ({ ...chunk, embedding: null, updated_at: new Date().toISOString() }));
+  const ids = new Set(chunks.map(chunk => chunk.id));
+  const removed = Array.from(existing.keys()).filter(id => !ids.has(id));
+
+  for (let i = 0; i < changed.length; i += 500) {
+    const { error: upsertError } = await supabaseAdmin.from('case_chunks').upsert(changed.slice(i, i + 500));
+    if (upsertError) throw new Error(`Saving case_chunks failed: ${upsertError.message}`);
+  }
+  for (let i = 0; i < removed.length; i += 500) {
+    const { error: deleteError } = await supabaseAdmin.from('case_chunks').delete().in('id', removed.slice(i, i + 500));
+    if (deleteError) throw new Error(`Deleting case_chunks failed: ${deleteError.message}`);
+  }
+
+  return { cases: (cases || []).length, chunks: chunks.length, changed: changed.length, removed: removed.length };
+}
+
+interface IndexEntry {
+  document: KnowledgeDocument;
+  hash: string;  // 模型 + 文本的哈希，内容不变时复用向量
+  embedding: number[];
+}
+
+interface VectorIndex {
+  model: string;
+  updatedAt: number;
+  entries: IndexEntry[];
+}
+
+/**
+ * 本地向量索引（.data/vector-index/index.json），暴力余弦检索
+ */
+export class FileVectorStore implements VectorStore {
+  name = 'file';
+  private index?: VectorIndex;
+  private loadedAt = 0;  // 已加载索引文件的修改时间
+  private warned?: string;
+  private syncing?: Promise<VectorSyncResult>;
+
+  constructor(private dir: string, private ttlMs: number) {}
+
+  private get file(): string {
+    return path.join(this.dir, 'index.json');
+  }
+
+  /**
+   * 读取索引，文件被其他进程（定时任务）重建后重新加载
+   */
+  private load(): VectorIndex | undefined {
+    if (!fs.existsSync(this.file)) return this.index;
+    const mtime = fs.statSync(this.file).mtimeMs;
+    if (!this.index || mtime > this.loadedAt) {
+      this.index = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+      this.loadedAt = mtime;
+    }
+    return this.index;
+  }
+
+  /**
+   * 索引需要重建时记录日志（同一原因只记录一次），不在请求中重建
+   */
+  private warn(reason: string): void {
+    if (this.warned === reason) return;
+    this.warned = reason;
+    console.warn(`[VectorStore] Local index ${reason}, rebuild it via /api/cron/data`);
+  }
+
+  async search(embedding: number[], options: VectorSearchOptions): Promise<VectorMatch[]> {
+    const index = this.load();
+    if (!index) {
+      this.warn('is missing');
+      return [];
+    }
+    // 不同模型的向量不可比较
+    if (index.model !== embeddingModel()) {
+      this.warn(`was built with ${index.model}`);
+      return [];
+    }
+    if (Date.now() - index.updatedAt > this.ttlMs) {
+      this.warn('is stale');
+    }
+
+    return index.entries
+      .filter(entry => options.types.includes(entry.document.type))
+      .filter(entry => !options.industry || entry.document.metadata.industry === options.industry)
+      .map(entry => ({ document: entry.document, similarity: cosineSimilarity(embedding, entry.embedding) }))
+      .filter(match => match.similarity >= options.threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.limit);
+  }
+
+  async sync(): Promise<VectorSyncResult> {
+    // 同一进程内的并发同步合并为一次
+    if (!this.syncing) {
+      this.syncing = this.rebuild().finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async rebuild(): Promise<VectorSyncResult> {
+    const model = embeddingModel();
+    const documents = await loadDocuments();
+    const existing = new Map(
+      (this.load()?.entries || []).map(entry => [`${entry.document.type}:${entry.document.id}`, entry])
+    );
+
+    const entries: IndexEntry[] = [];
+    let indexed = 0;
+    for (const document of documents) {
+      const text = documentText(document);
+      const hash = crypto.createHash('sha256').update(`${model}\n${text}`).digest('hex');
+      const previous = existing.get(`${document.type}:${document.id}`);
+      if (previous?.hash === hash) {
+        entries.push({ ...previous, document });
+        continue;
+      }
+      entries.push({ document, hash, embedding: await embedText(text) });
+      indexed++;
+    }
+
+    this.index = { model, updatedAt: Date.now(), entries };
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(this.index));
+    this.loadedAt = fs.statSync(this.file).mtimeMs;
+    this.warned = undefined;
+    console.log(`[VectorStore] Local index synced: ${entries.length} documents, ${indexed} embedded`);
+
+    return { store: this.name, total: entries.length, indexed };
+  }
+}
+
+/**
+ * pgvector 检索（match_documents 函数），不可用时改用本地索引
+ */
+export class PgVectorStore implements VectorStore {
+  name = 'pgvector';
+  private unavailableUntil = 0;
+
+  constructor(private fallback: VectorStore, private batchSize: number, private retryMs: number) {}
+
+  async search(embedding: number[], options: VectorSearchOptions): Promise<VectorMatch[]> {
+    if (Date.now() < this.unavailableUntil) {
+      return this.fallback.search(embedding, options);
+    }
+
+    try {
+      const supabaseAdmin = await client();
+      const results = await Promise.all(options.types.map(async type => {
+        const { data, error } = await supabaseAdmin.rpc('match_documents', {
+          query_embedding: embedding,
+          match_threshold: options.threshold,
+          match_count: options.limit,
+          table_name: SEARCH_TABLES[type],
+          filter_industry: options.industry || null
+        });
+        if (error) throw new Error(error.message);
+        return (data || []).map((row: any) => ({
+          document: toKnowledgeDocument(type, row.document),
+          similarity: row.similarity
+        }));
+      }));
+
+      return results.flat()
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, options.limit);
+    } catch (error: any) {
+      console.error(`[VectorStore] pgvector unavailable, using ${this.fallback.name} index:`, error.message);
+      this.unavailableUntil = Date.now() + this.retryMs;
+      return this.fallback.search(embedding, options);
+    }
+  }
+
+  /**
+   * 更新案例分块，再为 embedding 为空的行生成向量，每张表最多 batchSize 行（由定时任务反复调用）
+   */
+  async sync(): Promise<VectorSyncResult> {
+    const supabaseAdmin = await client();
+    let indexed = 0;
+    let total = 0;
+
+    const chunks = await syncCaseChunks();
+    console.log(`[VectorStore] Case chunks synced: ${chunks.chunks} chunks, ${chunks.changed} changed, ${chunks.removed} removed`);
+
+    for (const [type, table] of Object.entries(SEARCH_TABLES) as [DocumentType, string][]) {
+      const { data, error } = await supabaseAdmin
+        .from(table)
+        .select('*')
+        .is('embedding', null)
+        .limit(this.batchSize);
+      if (error) {
+        console.error(`[VectorStore] Loading ${table} failed:`, error.message);
+        continue;
+      }
+
+      for (const row of data || []) {
+        const embedding = await embedText(documentText(toKnowledgeDocument(type, row)));
+        const { error: updateError } = await supabaseAdmin
+          .from(table)
+          .update({ embedding })
+          .eq('id', row.id);
+        if (updateError) {
+          throw new Error(`Saving embedding for ${table}/${row.id} failed: ${updateError.message}`);
+        }
+        indexed++;
+      }
+
+      const { count } = await supabaseAdmin
+        .from(table)
+        .select('id', { count: 'exact', head: true })
+        .not('embedding', 'is', null);
+      total += count || 0;
+    }
+
+    return { store: this.name, total, indexed };
+  }
+}
+
+let vectorStore: VectorStore | undefined;
+
+/**
+ * 获取全局向量存储
+ */
+export function getVectorStore(): VectorStore {
+  if (!vectorStore) {
+    const config = getVectorStoreConfig();
+    const fileStore = new FileVectorStore(config.dir, config.ttlMs);
+    vectorStore = config.store === 'pgvector'
+      ? new PgVectorStore(fileStore, config.batchSize, config.retryMs)
+      : fileStore;
+  }
+  return vectorStore;
+}